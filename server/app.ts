@@ -0,0 +1,127 @@
+import express from "express";
+import fs from "fs";
+import path from "path";
+import { getConfig } from "./config";
+import { createApi, sendError, serverError } from "./http";
+import { buildOpenApiDocument } from "./openapi";
+import { LOCAL_STORAGE_ROUTE } from "./storage";
+import { openDatabase } from "./services/database";
+import { openStorage } from "./services/storage";
+import { registerAlbumRoutes } from "./routes/albums";
+import { registerAuthRoutes } from "./routes/auth";
+import { registerClientRoutes } from "./routes/clients";
+import { registerCommentRoutes } from "./routes/comments";
+import { registerDeliveryRoutes } from "./routes/delivery";
+import { registerHealthRoutes } from "./routes/health";
+import { registerLinkRoutes } from "./routes/links";
+import { registerNotificationRoutes } from "./routes/notifications";
+import { registerPhotoRoutes } from "./routes/photos";
+import { registerPortfolioRoutes } from "./routes/portfolio";
+import { registerSettingsRoutes } from "./routes/settings";
+import { registerUserRoutes } from "./routes/users";
+
+export async function createApp() {
+  // Invalid settings throw ConfigError here, before anything is opened or served
+  const config = getConfig();
+  console.log(`>>> [CONFIG] ${config.production ? 'production' : 'development'}: database ${config.database.driver}, storage ${config.storage.driver}, mail ${config.mail.smtp ? 'smtp' : 'console'}`);
+  for (const warning of config.warnings) console.warn(`>>> [CONFIG] ${warning}`);
+
+  const app = express();
+
+  // X-Forwarded-For is only believed behind a known proxy (Vercel, or TRUST_PROXY hops); otherwise any
+  // caller could pick its own req.ip and dodge the per-IP limiters
+  app.set('trust proxy', config.trustProxy);
+
+  // Middleware de log para depuração
+  app.use((req, res, next) => {
+    const start = Date.now();
+    res.on('finish', () => {
+      const duration = Date.now() - start;
+      console.log(`${new Date().toISOString()} - ${req.method} ${req.url} - ${res.statusCode} (${duration}ms)`);
+    });
+    next();
+  });
+
+  app.use(express.json());
+
+  // The SQLite file is migrated here, so a broken schema stops the server at boot
+  openDatabase();
+  const localFiles = openStorage();
+  if (localFiles) app.use(LOCAL_STORAGE_ROUTE, localFiles.router);
+
+  const api = createApi(app);
+  registerHealthRoutes(api);
+  registerAuthRoutes(api);
+  registerUserRoutes(api);
+  registerSettingsRoutes(api);
+  registerClientRoutes(api);
+  registerPhotoRoutes(api);
+  registerAlbumRoutes(api);
+  registerPortfolioRoutes(api);
+  registerCommentRoutes(api);
+  registerDeliveryRoutes(api);
+  registerLinkRoutes(api);
+  registerNotificationRoutes(api);
+
+  // API contract, generated from the routes above
+  let openApiDocument: ReturnType<typeof buildOpenApiDocument> | null = null;
+  app.get("/api/docs", (req, res) => {
+    openApiDocument = openApiDocument || buildOpenApiDocument(api.routes);
+    res.json(openApiDocument);
+  });
+
+  const distPath = path.join(process.cwd(), 'dist');
+  const indexHtmlInDist = path.join(distPath, 'index.html');
+  const indexHtmlInRoot = path.join(process.cwd(), 'index.html');
+
+  // Serve static files from 'dist' if they exist
+  if (fs.existsSync(distPath)) {
+    console.log(`>>> [SERVER] Serving static files from: ${distPath}`);
+    try {
+      const files = fs.readdirSync(distPath);
+      console.log(`>>> [SERVER] Files in dist:`, files);
+    } catch (e) {}
+    app.use(express.static(distPath));
+  }
+
+  // Vite middleware for development (ONLY if dist doesn't exist or we are explicitly in dev)
+  const isDev = !config.production;
+
+  if (isDev && !fs.existsSync(distPath)) {
+    console.log(">>> [SERVER] Starting Vite middleware (Dev Mode)...");
+    try {
+      const { createServer: createViteServer } = await import("vite");
+      const vite = await createViteServer({
+        server: { middlewareMode: true },
+        appType: "spa",
+      });
+      app.use(vite.middlewares);
+    } catch (e) {
+      console.error(">>> [SERVER] Vite failed to load:", e);
+    }
+  }
+
+  // SPA Fallback
+  app.get('*', (req, res) => {
+    // Basic API 404
+    if (req.url.startsWith('/api')) {
+      return sendError(res, 404, "Rota da API não encontrada");
+    }
+
+    if (fs.existsSync(indexHtmlInDist)) {
+      res.sendFile(indexHtmlInDist);
+    } else if (fs.existsSync(indexHtmlInRoot)) {
+      res.sendFile(indexHtmlInRoot);
+    } else {
+      res.status(404).send("Error: index.html not found. Check build output.");
+    }
+  });
+
+  // Error handler: malformed JSON bodies are the caller's fault, anything else is ours
+  app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (err?.type === 'entity.parse.failed') return sendError(res, 400, "Corpo da requisição inválido");
+    serverError(res, err);
+  });
+
+  return app;
+}
@@ -0,0 +1,278 @@
+import path from "path";
+import { z } from "zod";
+import { ConfigSummary, MAX_FILE_SIZE_CEILING, Quotas } from "../shared";
+
+// Server configuration: read from the environment once at boot (see createApp) and validated as a whole,
+// so a bad deployment stops with every problem listed instead of failing on the first request that needs it
+
+export const DEFAULT_ADMIN_PASSWORD = "admin123";
+
+// Plan limits for installs that never saved their own (settings 'quotas'); QUOTA_* variables override them
+export const DEFAULT_QUOTAS: Quotas = {
+  maxClients: 4,
+  maxPhotosPerClient: 30,
+  maxBytesPerClient: 150 * 1024 * 1024,
+  maxFileSize: 5 * 1024 * 1024
+};
+
+// Names older deployments used; they are no longer read, only reported so the variable gets renamed
+const RETIRED_NAMES: Record<string, string[]> = {
+  SUPABASE_URL: ['URL_DO_SUPABASE', 'URL_SUPABASE', 'NEXT_PUBLIC_SUPABASE_URL'],
+  SUPABASE_SERVICE_ROLE_KEY: ['CHAVE_DO_SUPABASE', 'CHAVE_SUPABASE', 'SUPABASE_KEY'],
+  ADMIN_PASSWORD: ['SENHA_ADMIN', 'SENHA_ADMINISTRADOR']
+};
+
+// Blank variables (VAR="" in .env) count as unset
+const optional = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(value => (typeof value === 'string' ? value.trim() || undefined : value), schema.optional());
+
+const text = optional(z.string());
+
+const flag = optional(
+  z.string()
+    .transform(value => value.toLowerCase())
+    .pipe(z.enum(['true', 'false', '1', '0', 'yes', 'no'], { error: 'Use "true" ou "false"' }))
+    .transform(value => ['true', '1', 'yes'].includes(value))
+);
+
+const integer = (min: number, max: number, message: string) =>
+  optional(z.coerce.number({ error: message }).int(message).min(min, message).max(max, message));
+
+const httpUrl = (message: string) => z.url({ protocol: /^https?$/, error: message });
+
+const quota = (message: string, max = Number.MAX_SAFE_INTEGER) => integer(1, max, message);
+
+const EnvSchema = z.object({
+  NODE_ENV: text,
+  VERCEL: text,
+  PORT: integer(1, 65535, 'Porta inválida'),
+  TRUST_PROXY: optional(z.coerce.number({ error: 'Use o número de proxies na frente do servidor (0 a 10)' })
+    .int('Use o número de proxies na frente do servidor (0 a 10)')
+    .min(0, 'Use o número de proxies na frente do servidor (0 a 10)')
+    .max(10, 'Use o número de proxies na frente do servidor (0 a 10)')),
+
+  DATABASE_DRIVER: optional(z.enum(['supabase', 'sqlite'], { error: 'Use "supabase" ou "sqlite"' })),
+  DATABASE_FILE: text,
+
+  STORAGE_DRIVER: optional(z.enum(['supabase', 'local'], { error: 'Use "supabase" ou "local"' })),
+  STORAGE_DIR: text,
+  STORAGE_PRIVATE: flag,
+  PHOTO_URL_TTL: integer(60, 7 * 24 * 60 * 60, 'Use um número de segundos entre 60 e 604800'),
+
+  SUPABASE_URL: optional(
+    httpUrl('Use a URL do projeto, por exemplo https://<id>.supabase.co')
+      .refine(url => new URL(url).pathname.replace(/\/+$/, '') === '', 'Use só a URL do projeto, sem caminho (por exemplo https://<id>.supabase.co)')
+      .transform(url => new URL(url).origin)
+  ),
+  SUPABASE_SERVICE_ROLE_KEY: text,
+
+  ADMIN_PASSWORD: optional(z.string().min(8, 'Use pelo menos 8 caracteres')),
+  ADMIN_PASSWORD_HASH: optional(z.string().regex(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/, 'Use o formato scrypt$<salt>$<hash> (veja .env.example)')),
+  SESSION_SECRET: optional(z.string().min(32, 'Use pelo menos 32 caracteres aleatórios')),
+
+  SMTP_HOST: text,
+  SMTP_PORT: integer(1, 65535, 'Porta inválida'),
+  SMTP_SECURE: flag,
+  SMTP_USER: text,
+  SMTP_PASS: text,
+  MAIL_FROM: text,
+  STUDIO_EMAIL: optional(
+    z.string()
+      .transform(value => value.split(',').map(email => email.trim()).filter(Boolean))
+      .pipe(z.array(z.email({ error: 'Use e-mails válidos separados por vírgula' })))
+  ),
+  APP_URL: optional(httpUrl('Use a URL pública do site, por exemplo https://fotos.seudominio.com').transform(url => url.replace(/\/+$/, ''))),
+
+  QUOTA_MAX_CLIENTS: quota('Use um número inteiro maior que zero'),
+  QUOTA_MAX_PHOTOS_PER_CLIENT: quota('Use um número inteiro maior que zero'),
+  QUOTA_MAX_BYTES_PER_CLIENT: quota('Use um número de bytes maior que zero'),
+  QUOTA_MAX_FILE_SIZE: quota(`Use um número de bytes entre 1 e ${MAX_FILE_SIZE_CEILING}`, MAX_FILE_SIZE_CEILING)
+});
+
+type Env = z.output<typeof EnvSchema>;
+
+export interface Config {
+  production: boolean;
+  port: number;
+  // Reverse proxies whose X-Forwarded-For is believed for req.ip; 0 means the client IP is the socket's
+  trustProxy: number;
+  database: { driver: 'supabase' | 'sqlite'; file: string };
+  storage: { driver: 'supabase' | 'local'; dir: string; private: boolean; photoUrlTtl: number };
+  supabase: { url: string; serviceRoleKey: string } | null;
+  auth: { adminPassword: string; adminPasswordHash: string | null; sessionSecret: string | null };
+  mail: {
+    smtp: { host: string; port: number; secure: boolean; user: string | null; pass: string | null; from: string } | null;
+    studioEmails: string[];
+    appUrl: string | null;
+  };
+  defaultQuotas: Quotas;
+  warnings: string[];
+}
+
+export class ConfigError extends Error {
+  constructor(public issues: string[]) {
+    super(`Configuração inválida:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// Rules that span several variables; returns the problems as "VAR: message"
+const crossCheck = (env: Env, raw: NodeJS.ProcessEnv, production: boolean) => {
+  const issues: string[] = [];
+
+  for (const [name, retired] of Object.entries(RETIRED_NAMES)) {
+    if (raw[name]?.trim()) continue;
+    for (const old of retired.filter(old => raw[old]?.trim())) {
+      issues.push(`${old}: não é mais lida; renomeie para ${name}`);
+    }
+  }
+
+  const usesSupabase = (env.DATABASE_DRIVER || 'supabase') === 'supabase' || (env.STORAGE_DRIVER || 'supabase') === 'supabase';
+  if (usesSupabase) {
+    const why = 'obrigatória com DATABASE_DRIVER ou STORAGE_DRIVER "supabase"';
+    if (!env.SUPABASE_URL) issues.push(`SUPABASE_URL: ${why}`);
+    if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+      issues.push(raw.SUPABASE_ANON_KEY?.trim()
+        ? `SUPABASE_SERVICE_ROLE_KEY: ${why}; a SUPABASE_ANON_KEY não serve como chave de serviço`
+        : `SUPABASE_SERVICE_ROLE_KEY: ${why}`);
+    }
+  }
+
+  if (production && !env.ADMIN_PASSWORD_HASH && (env.ADMIN_PASSWORD || DEFAULT_ADMIN_PASSWORD) === DEFAULT_ADMIN_PASSWORD) {
+    issues.push(`ADMIN_PASSWORD: a senha padrão "${DEFAULT_ADMIN_PASSWORD}" não é aceita em produção; defina ADMIN_PASSWORD ou ADMIN_PASSWORD_HASH`);
+  } else if (production && !env.SESSION_SECRET && !env.SUPABASE_SERVICE_ROLE_KEY && !env.ADMIN_PASSWORD) {
+    // The token key would be derived from the default password
+    issues.push('SESSION_SECRET: obrigatória em produção quando não há SUPABASE_SERVICE_ROLE_KEY nem ADMIN_PASSWORD');
+  }
+
+  if (env.SMTP_PASS && !env.SMTP_USER) issues.push('SMTP_PASS: defina também SMTP_USER');
+
+  return issues;
+};
+
+const collectWarnings = (env: Env, production: boolean) => {
+  const warnings: string[] = [];
+  if (production && !env.SESSION_SECRET) {
+    warnings.push('SESSION_SECRET não definida: os tokens são assinados com uma chave derivada da chave de serviço ou da senha do administrador');
+  }
+  if (!env.SMTP_HOST && (env.SMTP_USER || env.SMTP_PORT || env.MAIL_FROM)) {
+    warnings.push('Variáveis SMTP_* definidas sem SMTP_HOST: os e-mails só serão impressos no log');
+  }
+  if (!env.APP_URL) {
+    warnings.push('APP_URL não definida: o link do portfólio não pode ser enviado por e-mail e os alertas do estúdio vão sem link');
+  }
+  if (env.VERCEL && (env.DATABASE_DRIVER === 'sqlite' || env.STORAGE_DRIVER === 'local')) {
+    warnings.push('SQLite e armazenamento local precisam de um disco persistente, que a Vercel não oferece');
+  }
+  return warnings;
+};
+
+export const loadConfig = (raw: NodeJS.ProcessEnv = process.env): Config => {
+  // Variables are parsed one by one so the report lists every problem, not just the first invalid value
+  const env: Record<string, unknown> = {};
+  const issues: string[] = [];
+  for (const [name, schema] of Object.entries(EnvSchema.shape)) {
+    const result = (schema as z.ZodType).safeParse(raw[name]);
+    if (result.success) env[name] = result.data;
+    else issues.push(`${name}: ${result.error.issues[0].message}`);
+  }
+
+  const valid = env as Env;
+  const production = valid.NODE_ENV === 'production' || !!valid.VERCEL;
+  const invalid = new Set(issues.map(issue => issue.split(':')[0]));
+  issues.push(...crossCheck(valid, raw, production).filter(issue => !invalid.has(issue.split(':')[0])));
+  if (issues.length > 0) throw new ConfigError(issues);
+
+  return buildConfig(valid, production);
+};
+
+const buildConfig = (env: Env, production: boolean): Config => {
+  const smtpHost = env.SMTP_HOST;
+  return {
+    production,
+    port: env.PORT || 3000,
+    trustProxy: env.TRUST_PROXY ?? (env.VERCEL ? 1 : 0),
+    database: {
+      driver: env.DATABASE_DRIVER || 'supabase',
+      file: path.resolve(env.DATABASE_FILE || path.join('data', 'portfolio.db'))
+    },
+    storage: {
+      driver: env.STORAGE_DRIVER || 'supabase',
+      dir: path.resolve(env.STORAGE_DIR || 'storage'),
+      private: env.STORAGE_PRIVATE || false,
+      photoUrlTtl: env.PHOTO_URL_TTL || 60 * 60
+    },
+    supabase: env.SUPABASE_URL && env.SUPABASE_SERVICE_ROLE_KEY
+      ? { url: env.SUPABASE_URL, serviceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY }
+      : null,
+    auth: {
+      adminPassword: env.ADMIN_PASSWORD || DEFAULT_ADMIN_PASSWORD,
+      adminPasswordHash: env.ADMIN_PASSWORD_HASH || null,
+      sessionSecret: env.SESSION_SECRET || null
+    },
+    mail: {
+      smtp: smtpHost
+        ? {
+          host: smtpHost,
+          port: env.SMTP_PORT || 587,
+          secure: env.SMTP_SECURE || false,
+          user: env.SMTP_USER || null,
+          pass: env.SMTP_PASS || null,
+          from: env.MAIL_FROM || env.SMTP_USER || `no-reply@${smtpHost}`
+        }
+        : null,
+      studioEmails: env.STUDIO_EMAIL || [],
+      appUrl: env.APP_URL || null
+    },
+    defaultQuotas: {
+      maxClients: env.QUOTA_MAX_CLIENTS || DEFAULT_QUOTAS.maxClients,
+      maxPhotosPerClient: env.QUOTA_MAX_PHOTOS_PER_CLIENT || DEFAULT_QUOTAS.maxPhotosPerClient,
+      maxBytesPerClient: env.QUOTA_MAX_BYTES_PER_CLIENT || DEFAULT_QUOTAS.maxBytesPerClient,
+      maxFileSize: env.QUOTA_MAX_FILE_SIZE || DEFAULT_QUOTAS.maxFileSize
+    },
+    warnings: collectWarnings(env, production)
+  };
+};
+
+let config: Config | null = null;
+
+// The configuration loaded at boot; throws ConfigError when the environment is invalid
+export const getConfig = () => {
+  if (!config) config = loadConfig();
+  return config;
+};
+
+// What owners may see of the configuration: no secret values, only whether each one is set
+export const configSummary = (config: Config): ConfigSummary => ({
+  environment: config.production ? 'production' : 'development',
+  trustProxy: config.trustProxy,
+  database: {
+    driver: config.database.driver,
+    file: config.database.driver === 'sqlite' ? config.database.file : null
+  },
+  storage: {
+    driver: config.storage.driver,
+    dir: config.storage.driver === 'local' ? config.storage.dir : null,
+    private: config.storage.private,
+    photoUrlTtl: config.storage.photoUrlTtl
+  },
+  supabase: config.supabase ? { url: config.supabase.url, serviceRoleKey: true } : null,
+  auth: {
+    adminPassword: config.auth.adminPasswordHash
+      ? 'hash'
+      : config.auth.adminPassword === DEFAULT_ADMIN_PASSWORD ? 'default' : 'env',
+    sessionSecret: config.auth.sessionSecret ? 'env' : 'derived'
+  },
+  mail: {
+    transport: config.mail.smtp ? 'smtp' : 'console',
+    host: config.mail.smtp?.host || null,
+    port: config.mail.smtp?.port || null,
+    secure: config.mail.smtp?.secure || false,
+    authenticated: !!config.mail.smtp?.user,
+    from: config.mail.smtp?.from || null,
+    studioEmails: config.mail.studioEmails,
+    appUrl: config.mail.appUrl
+  },
+  defaultQuotas: config.defaultQuotas,
+  warnings: config.warnings
+});
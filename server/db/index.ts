@@ -0,0 +1,8 @@
+export type {
+  Database, Table, Filter, Values, FindOptions, Settings, SettingKey,
+  ClientRecord, ClientStatus, DeliveryQuality, UserRecord, UserRole, AdminSessionRecord, ShareLinkRecord,
+  LinkAccessRecord, AlbumRecord, PhotoRecord, SelectionRecord, CommentRecord, DownloadRecord, NotificationRecord
+} from "./types";
+export { DatabaseError } from "./types";
+export { createSupabaseDatabase } from "./supabase";
+export { createSqliteDatabase } from "./sqlite";
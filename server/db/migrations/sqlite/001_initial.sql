@@ -0,0 +1,160 @@
+-- Schema equivalent to supabase/migrations 000-014.
+-- Timestamps are ISO 8601 text (UTC), arrays and jsonb are JSON text, booleans are 0/1.
+
+create table users (
+  id text primary key,
+  email text not null unique,
+  name text not null,
+  role text not null check (role in ('owner', 'photographer', 'viewer')),
+  "passwordHash" text not null,
+  "createdAt" text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  "disabledAt" text
+);
+
+create table clients (
+  id text primary key,
+  name text not null,
+  "createdAt" text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  "selectionQuota" integer,
+  "selectionSubmittedAt" text,
+  "accessCodeHash" text,
+  "createdBy" text references users(id) on delete set null,
+  "assignedTo" text not null default '[]',
+  "coverPhoto" text,
+  "deliveryQuality" text not null default 'original',
+  status text not null default 'proofing' check (status in ('proofing', 'editing', 'delivered')),
+  "statusChangedAt" text,
+  email text,
+  phone text,
+  "eventType" text,
+  "eventDate" text,
+  notes text,
+  tags text not null default '[]'
+);
+
+create index clients_event_date_idx on clients ("eventDate");
+
+create table settings (
+  key text primary key,
+  value text
+);
+
+create table selections (
+  "clientId" text not null references clients(id) on delete cascade,
+  filename text not null,
+  "createdAt" text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  primary key ("clientId", filename)
+);
+
+create table comments (
+  id text primary key,
+  "clientId" text not null references clients(id) on delete cascade,
+  filename text not null,
+  author text not null check (author in ('client', 'studio')),
+  body text not null,
+  "createdAt" text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  "readAt" text
+);
+
+create index comments_client_photo_idx on comments ("clientId", filename);
+
+create table share_links (
+  id text primary key,
+  "clientId" text not null references clients(id) on delete cascade,
+  label text,
+  "expiresAt" text,
+  "maxViews" integer,
+  views integer not null default 0,
+  "lastAccessAt" text,
+  "revokedAt" text,
+  "createdAt" text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+create index share_links_client_idx on share_links ("clientId");
+
+create table link_accesses (
+  id text primary key,
+  "linkId" text not null references share_links(id) on delete cascade,
+  "clientId" text not null references clients(id) on delete cascade,
+  "userAgent" text,
+  "ipHash" text,
+  "createdAt" text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+create index link_accesses_client_idx on link_accesses ("clientId", "createdAt" desc);
+
+create table admin_sessions (
+  id text primary key,
+  "userId" text references users(id) on delete cascade,
+  "userAgent" text,
+  "ipHash" text,
+  "expiresAt" text not null,
+  "revokedAt" text,
+  "createdAt" text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+create table albums (
+  id text primary key,
+  "clientId" text not null references clients(id) on delete cascade,
+  name text not null,
+  position integer not null default 0,
+  "createdAt" text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+create index albums_client_idx on albums ("clientId", position);
+
+create table photos (
+  "clientId" text not null references clients(id) on delete cascade,
+  filename text not null,
+  "uploadedBy" text references users(id) on delete set null,
+  "createdAt" text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  "albumId" text references albums(id) on delete set null,
+  "originalName" text,
+  "mimeType" text,
+  size integer,
+  width integer,
+  height integer,
+  position integer not null default 0,
+  caption text,
+  legacy integer not null default 0,
+  "capturedAt" text,
+  exif text,
+  primary key ("clientId", filename)
+);
+
+create index photos_client_idx on photos ("clientId", position);
+create index photos_captured_idx on photos ("clientId", "capturedAt");
+
+create table downloads (
+  id text primary key,
+  "clientId" text not null references clients(id) on delete cascade,
+  "linkId" text references share_links(id) on delete set null,
+  scope text not null,
+  quality text not null,
+  part integer not null,
+  parts integer not null,
+  files integer not null default 0,
+  bytes integer,
+  "userAgent" text,
+  "ipHash" text,
+  "completedAt" text,
+  "createdAt" text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+create index downloads_client_idx on downloads ("clientId", "createdAt" desc);
+
+create table notifications (
+  id text primary key,
+  "clientId" text references clients(id) on delete cascade,
+  template text not null,
+  recipient text not null,
+  subject text not null,
+  transport text not null,
+  status text not null check (status in ('sent', 'failed')),
+  error text,
+  "messageId" text,
+  "sentBy" text references users(id) on delete set null,
+  "createdAt" text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+create index notifications_client_idx on notifications ("clientId", "createdAt" desc);
@@ -0,0 +1,40 @@
+import { TABLES, TableSpec } from "./schema";
+import type { ClientRecord, Database, SettingRecord, Table } from "./types";
+
+// Typed repositories over whichever table implementation the backend provides
+export const createRepositories = (
+  driver: Database['driver'],
+  table: <T>(spec: TableSpec) => Table<T>,
+  ping: () => Promise<void>
+): Database => {
+  const clients = table<ClientRecord>(TABLES.clients);
+  const settings = table<SettingRecord>(TABLES.settings);
+
+  return {
+    driver,
+    clients: {
+      ...clients,
+      get: id => clients.findOne({ id })
+    },
+    settings: {
+      async get(key) {
+        const row = await settings.findOne({ key });
+        return row ? row.value : null;
+      },
+      async set(key, value) {
+        await settings.upsert({ key, value });
+      }
+    },
+    users: table(TABLES.users),
+    sessions: table(TABLES.sessions),
+    shareLinks: table(TABLES.shareLinks),
+    linkAccesses: table(TABLES.linkAccesses),
+    albums: table(TABLES.albums),
+    photos: table(TABLES.photos),
+    selections: table(TABLES.selections),
+    comments: table(TABLES.comments),
+    downloads: table(TABLES.downloads),
+    notifications: table(TABLES.notifications),
+    ping
+  };
+};
@@ -0,0 +1,32 @@
+// What the backends need to know about each table beyond its name.
+// Postgres handles arrays, JSON and uuid defaults itself; SQLite needs them spelled out.
+export interface TableSpec {
+  name: string;
+  primaryKey: string[];
+  // uuid primary key generated when an insert leaves it out
+  generatedId?: boolean;
+  // Stored as JSON text in SQLite (jsonb and array columns in Postgres)
+  json?: string[];
+  // Stored as 0/1 in SQLite
+  booleans?: string[];
+}
+
+export const TABLES = {
+  clients: { name: 'clients', primaryKey: ['id'], json: ['assignedTo', 'tags'] },
+  settings: { name: 'settings', primaryKey: ['key'], json: ['value'] },
+  users: { name: 'users', primaryKey: ['id'], generatedId: true },
+  sessions: { name: 'admin_sessions', primaryKey: ['id'] },
+  shareLinks: { name: 'share_links', primaryKey: ['id'] },
+  linkAccesses: { name: 'link_accesses', primaryKey: ['id'], generatedId: true },
+  albums: { name: 'albums', primaryKey: ['id'], generatedId: true },
+  photos: { name: 'photos', primaryKey: ['clientId', 'filename'], json: ['exif'], booleans: ['legacy'] },
+  selections: { name: 'selections', primaryKey: ['clientId', 'filename'] },
+  comments: { name: 'comments', primaryKey: ['id'], generatedId: true },
+  downloads: { name: 'downloads', primaryKey: ['id'], generatedId: true },
+  notifications: { name: 'notifications', primaryKey: ['id'], generatedId: true }
+} satisfies Record<string, TableSpec>;
+
+// A filter entry that is an operator rather than a value to compare with
+export const isOperator = (condition: unknown): condition is { in: unknown[] } | { neq: unknown } =>
+  typeof condition === 'object' && condition !== null && !Array.isArray(condition) && !(condition instanceof Date) &&
+  ('in' in condition || 'neq' in condition);
@@ -0,0 +1,189 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { fileURLToPath } from "url";
+import BetterSqlite3 from "better-sqlite3";
+import { createRepositories } from "./repositories";
+import { isOperator, TableSpec } from "./schema";
+import { Database, DatabaseError, Filter, Table } from "./types";
+
+// Versioned schema for the embedded database: NNN_name.sql files applied in order,
+// each recorded in schema_migrations. Keep in step with supabase/migrations.
+const MIGRATIONS_DIR = fileURLToPath(new URL('./migrations/sqlite', import.meta.url));
+
+const SQLITE_CODES: Record<string, DatabaseError['code']> = {
+  SQLITE_CONSTRAINT_UNIQUE: 'unique_violation',
+  SQLITE_CONSTRAINT_PRIMARYKEY: 'unique_violation',
+  SQLITE_CONSTRAINT_FOREIGNKEY: 'foreign_key_violation'
+};
+
+// Column names come from code, but they are interpolated into SQL, so only plain identifiers pass
+const quote = (column: string) => {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(column)) throw new DatabaseError(`Coluna inválida: ${column}`);
+  return `"${column}"`;
+};
+
+export const migrate = (sqlite: BetterSqlite3.Database) => {
+  sqlite.exec(`create table if not exists schema_migrations (version text primary key, "appliedAt" text not null)`);
+  const applied = new Set(sqlite.prepare('select version from schema_migrations').pluck().all() as string[]);
+  const files = fs.readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith('.sql')).sort();
+
+  for (const file of files) {
+    const version = file.replace(/\.sql$/, '');
+    if (applied.has(version)) continue;
+    const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+    sqlite.transaction(() => {
+      sqlite.exec(sql);
+      sqlite.prepare('insert into schema_migrations (version, "appliedAt") values (?, ?)').run(version, new Date().toISOString());
+    })();
+    console.log(`>>> [DB] Applied migration ${version}`);
+  }
+};
+
+// A single-file database for installs without Supabase (a studio machine or NAS)
+export const createSqliteDatabase = (file: string): Database => {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  const sqlite = new BetterSqlite3(file);
+  sqlite.pragma('journal_mode = WAL');
+  sqlite.pragma('foreign_keys = ON');
+  migrate(sqlite);
+
+  // Statements run synchronously; errors are normalized like the Supabase backend's
+  const run = <R>(table: string, action: () => R): Promise<R> => {
+    try {
+      return Promise.resolve(action());
+    } catch (err: any) {
+      if (err instanceof DatabaseError) return Promise.reject(err);
+      return Promise.reject(new DatabaseError(`${table}: ${err.message}`, SQLITE_CODES[err.code] || 'unknown'));
+    }
+  };
+
+  const table = <T>(spec: TableSpec): Table<T> => {
+    const name = quote(spec.name);
+
+    const encode = (column: string, value: unknown) => {
+      if (value === null || value === undefined) return null;
+      if (spec.json?.includes(column)) return JSON.stringify(value);
+      if (value instanceof Date) return value.toISOString();
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      return value;
+    };
+
+    const decode = (row: any): T => {
+      for (const column of spec.json || []) {
+        if (typeof row[column] === 'string') row[column] = JSON.parse(row[column]);
+      }
+      for (const column of spec.booleans || []) row[column] = !!row[column];
+      return row;
+    };
+
+    const where = (filter: Filter<T> = {}) => {
+      const clauses: string[] = [];
+      const params: unknown[] = [];
+      for (const [column, condition] of Object.entries(filter)) {
+        if (condition === undefined) continue;
+        if (condition === null) clauses.push(`${quote(column)} is null`);
+        else if (isOperator(condition)) {
+          if ('in' in condition) {
+            clauses.push(condition.in.length ? `${quote(column)} in (${condition.in.map(() => '?').join(', ')})` : '0');
+            params.push(...condition.in.map(value => encode(column, value)));
+          } else if (condition.neq === null) {
+            clauses.push(`${quote(column)} is not null`);
+          } else {
+            clauses.push(`${quote(column)} <> ?`);
+            params.push(encode(column, condition.neq));
+          }
+        } else {
+          clauses.push(`${quote(column)} = ?`);
+          params.push(encode(column, condition));
+        }
+      }
+      return { sql: clauses.length ? ` where ${clauses.join(' and ')}` : '', params };
+    };
+
+    // Same as Supabase: updates and deletes without a filter are refused
+    const requireFilter = (filter: Filter<T>) => {
+      if (!Object.values(filter).some(condition => condition !== undefined)) {
+        throw new DatabaseError(`${spec.name}: filtro obrigatório`);
+      }
+    };
+
+    const columnsOf = (values: Record<string, unknown>) => Object.keys(values).filter(column => values[column] !== undefined);
+
+    const insertRow = (values: Record<string, unknown>) => {
+      const row = spec.generatedId && values.id === undefined ? { ...values, id: crypto.randomUUID() } : values;
+      const columns = columnsOf(row);
+      const sql = columns.length
+        ? `insert into ${name} (${columns.map(quote).join(', ')}) values (${columns.map(() => '?').join(', ')}) returning *`
+        : `insert into ${name} default values returning *`;
+      return decode(sqlite.prepare(sql).get(...columns.map(column => encode(column, row[column]))));
+    };
+
+    return {
+      find: (filter, options = {}) => run(spec.name, () => {
+        const { sql, params } = where(filter);
+        // Postgres puts nulls last when ascending and first when descending
+        const order = (options.order || [])
+          .map(([column, direction]) => `${quote(column)} ${direction === 'asc' ? 'asc nulls last' : 'desc nulls first'}`);
+        const statement = `select * from ${name}${sql}`
+          + (order.length ? ` order by ${order.join(', ')}` : '')
+          + (options.limit ? ` limit ${Math.floor(options.limit)}` : '');
+        return sqlite.prepare(statement).all(...params).map(decode);
+      }),
+
+      findOne: filter => run(spec.name, () => {
+        const { sql, params } = where(filter);
+        const row = sqlite.prepare(`select * from ${name}${sql} limit 1`).get(...params);
+        return row ? decode(row) : null;
+      }),
+
+      count: filter => run(spec.name, () => {
+        const { sql, params } = where(filter);
+        return (sqlite.prepare(`select count(*) from ${name}${sql}`).pluck().get(...params) as number) || 0;
+      }),
+
+      insert: values => run(spec.name, () => insertRow(values as Record<string, unknown>)),
+
+      insertMany: rows => run(spec.name, () =>
+        sqlite.transaction(() => rows.map(values => insertRow(values as Record<string, unknown>)))()
+      ),
+
+      update: (filter, values) => run(spec.name, () => {
+        requireFilter(filter);
+        const changes = values as Record<string, unknown>;
+        const columns = columnsOf(changes);
+        const { sql, params } = where(filter);
+        if (columns.length === 0) return sqlite.prepare(`select * from ${name}${sql}`).all(...params).map(decode);
+        const assignments = columns.map(column => `${quote(column)} = ?`).join(', ');
+        return sqlite
+          .prepare(`update ${name} set ${assignments}${sql} returning *`)
+          .all(...columns.map(column => encode(column, changes[column])), ...params)
+          .map(decode);
+      }),
+
+      upsert: values => run(spec.name, () => {
+        const row = values as Record<string, unknown>;
+        const columns = columnsOf(row);
+        const updates = columns.filter(column => !spec.primaryKey.includes(column));
+        const assignments = (updates.length ? updates : spec.primaryKey)
+          .map(column => `${quote(column)} = excluded.${quote(column)}`)
+          .join(', ');
+        const sql = `insert into ${name} (${columns.map(quote).join(', ')}) values (${columns.map(() => '?').join(', ')})`
+          + ` on conflict (${spec.primaryKey.map(quote).join(', ')}) do update set ${assignments} returning *`;
+        return decode(sqlite.prepare(sql).get(...columns.map(column => encode(column, row[column]))));
+      }),
+
+      remove: filter => run(spec.name, () => {
+        requireFilter(filter);
+        const { sql, params } = where(filter);
+        sqlite.prepare(`delete from ${name}${sql}`).run(...params);
+      })
+    };
+  };
+
+  const ping = () => run('sqlite', () => {
+    sqlite.prepare('select 1').get();
+  });
+
+  return createRepositories('sqlite', table, ping);
+};
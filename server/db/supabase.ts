@@ -0,0 +1,93 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createRepositories } from "./repositories";
+import { isOperator, TableSpec } from "./schema";
+import { Database, DatabaseError, Filter, Table } from "./types";
+
+const POSTGRES_CODES: Record<string, DatabaseError['code']> = {
+  '23505': 'unique_violation',
+  '23503': 'foreign_key_violation'
+};
+
+const fail = (table: string, error: { message: string; code?: string }) =>
+  new DatabaseError(`${table}: ${error.message}`, POSTGRES_CODES[error.code || ''] || 'unknown');
+
+// Tables of the Supabase Postgres database (supabase/migrations); the service role key bypasses RLS
+export const createSupabaseDatabase = (supabase: SupabaseClient): Database => {
+  const table = <T>(spec: TableSpec): Table<T> => {
+    const from = () => supabase.from(spec.name);
+
+    const where = (query: any, filter: Filter<T> = {}) => {
+      for (const [column, condition] of Object.entries(filter)) {
+        if (condition === undefined) continue;
+        if (condition === null) query = query.is(column, null);
+        else if (isOperator(condition)) {
+          if ('in' in condition) query = query.in(column, condition.in);
+          else query = condition.neq === null ? query.not(column, 'is', null) : query.neq(column, condition.neq);
+        } else query = query.eq(column, condition);
+      }
+      return query;
+    };
+
+    return {
+      async find(filter, options = {}) {
+        let query = where(from().select('*'), filter);
+        for (const [column, direction] of options.order || []) {
+          query = query.order(column, { ascending: direction === 'asc' });
+        }
+        if (options.limit) query = query.limit(options.limit);
+        const { data, error } = await query;
+        if (error) throw fail(spec.name, error);
+        return data || [];
+      },
+
+      async findOne(filter) {
+        const { data, error } = await where(from().select('*'), filter).limit(1).maybeSingle();
+        if (error) throw fail(spec.name, error);
+        return data;
+      },
+
+      async count(filter) {
+        const { count, error } = await where(from().select('*', { count: 'exact', head: true }), filter);
+        if (error) throw fail(spec.name, error);
+        return count || 0;
+      },
+
+      async insert(values) {
+        const { data, error } = await from().insert(values as any).select().single();
+        if (error) throw fail(spec.name, error);
+        return data;
+      },
+
+      async insertMany(rows) {
+        if (rows.length === 0) return [];
+        const { data, error } = await from().insert(rows as any[]).select();
+        if (error) throw fail(spec.name, error);
+        return data || [];
+      },
+
+      async update(filter, values) {
+        const { data, error } = await where(from().update(values as any), filter).select();
+        if (error) throw fail(spec.name, error);
+        return data || [];
+      },
+
+      async upsert(values) {
+        const { data, error } = await from().upsert(values as any, { onConflict: spec.primaryKey.join(',') }).select().single();
+        if (error) throw fail(spec.name, error);
+        return data;
+      },
+
+      async remove(filter) {
+        const { error } = await where(from().delete(), filter);
+        if (error) throw fail(spec.name, error);
+      }
+    };
+  };
+
+  const ping = async () => {
+    const { error } = await supabase.from('clients').select('id').limit(1);
+    if (error) throw fail('clients', error);
+  };
+
+  return createRepositories('supabase', table, ping);
+};
@@ -0,0 +1,221 @@
+import type {
+  ClientStatus, CompressionPresetId, DeliveryQuality, DownloadScope, NotificationTemplate, PhotoExif, Quotas, UserRole
+} from "../../shared";
+
+// Rows as the API sees them: timestamps are ISO strings, dates are YYYY-MM-DD,
+// arrays and JSON columns are already decoded.
+
+export type { ClientStatus, DeliveryQuality, UserRole };
+
+export interface ClientRecord {
+  id: string;
+  name: string;
+  createdAt: string;
+  selectionQuota: number | null;
+  selectionSubmittedAt: string | null;
+  accessCodeHash: string | null;
+  createdBy: string | null;
+  assignedTo: string[];
+  coverPhoto: string | null;
+  deliveryQuality: DeliveryQuality;
+  status: ClientStatus;
+  statusChangedAt: string | null;
+  email: string | null;
+  phone: string | null;
+  eventType: string | null;
+  eventDate: string | null;
+  notes: string | null;
+  tags: string[];
+}
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  passwordHash: string;
+  createdAt: string;
+  disabledAt: string | null;
+}
+
+export interface AdminSessionRecord {
+  id: string;
+  userId: string | null;
+  userAgent: string | null;
+  ipHash: string | null;
+  expiresAt: string;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface ShareLinkRecord {
+  id: string;
+  clientId: string;
+  label: string | null;
+  expiresAt: string | null;
+  maxViews: number | null;
+  views: number;
+  lastAccessAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface LinkAccessRecord {
+  id: string;
+  linkId: string;
+  clientId: string;
+  userAgent: string | null;
+  ipHash: string | null;
+  createdAt: string;
+}
+
+export interface AlbumRecord {
+  id: string;
+  clientId: string;
+  name: string;
+  position: number;
+  createdAt: string;
+}
+
+export interface PhotoRecord {
+  clientId: string;
+  filename: string;
+  uploadedBy: string | null;
+  createdAt: string;
+  albumId: string | null;
+  originalName: string | null;
+  mimeType: string | null;
+  size: number | null;
+  width: number | null;
+  height: number | null;
+  position: number;
+  caption: string | null;
+  legacy: boolean;
+  capturedAt: string | null;
+  exif: PhotoExif | null;
+}
+
+export interface SelectionRecord {
+  clientId: string;
+  filename: string;
+  createdAt: string;
+}
+
+export interface CommentRecord {
+  id: string;
+  clientId: string;
+  filename: string;
+  author: 'client' | 'studio';
+  body: string;
+  createdAt: string;
+  readAt: string | null;
+}
+
+export interface DownloadRecord {
+  id: string;
+  clientId: string;
+  linkId: string | null;
+  scope: DownloadScope;
+  quality: DeliveryQuality;
+  part: number;
+  parts: number;
+  files: number;
+  bytes: number | null;
+  userAgent: string | null;
+  ipHash: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationRecord {
+  id: string;
+  clientId: string | null;
+  template: NotificationTemplate;
+  recipient: string;
+  subject: string;
+  transport: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+  messageId: string | null;
+  sentBy: string | null;
+  createdAt: string;
+}
+
+// The settings table is a key/value store; each key has its own shape
+export interface Settings {
+  admin: { passwordHash: string };
+  branding: { logo: string | null };
+  // Missing keys fall back to the server defaults
+  quotas: Partial<Quotas>;
+  uploads: { compressionPreset: CompressionPresetId };
+}
+
+export type SettingKey = keyof Settings;
+
+export interface SettingRecord {
+  key: string;
+  value: any;
+}
+
+// A plain value means equality, null means IS NULL
+export type Condition<V> = V | null | { in: V[] } | { neq: V | null };
+
+export type Filter<T> = { [K in keyof T]?: Condition<NonNullable<T[K]>> };
+
+// Written values; timestamps may also be given as Date
+export type Values<T> = { [K in keyof T]?: T[K] | (T[K] extends string | null ? Date : never) };
+
+export interface FindOptions<T> {
+  order?: [keyof T & string, 'asc' | 'desc'][];
+  limit?: number;
+}
+
+export interface Table<T> {
+  find(filter?: Filter<T>, options?: FindOptions<T>): Promise<T[]>;
+  findOne(filter: Filter<T>): Promise<T | null>;
+  count(filter?: Filter<T>): Promise<number>;
+  // Columns left out get their defaults; uuid ids are generated
+  insert(values: Values<T>): Promise<T>;
+  insertMany(values: Values<T>[]): Promise<T[]>;
+  // Returns the rows that were changed
+  update(filter: Filter<T>, values: Values<T>): Promise<T[]>;
+  // Insert, or update the row with the same primary key
+  upsert(values: Values<T>): Promise<T>;
+  remove(filter: Filter<T>): Promise<void>;
+}
+
+// Backend errors normalized so routes can tell a duplicate from a failure
+export type DatabaseErrorCode = 'unique_violation' | 'foreign_key_violation' | 'unknown';
+
+export class DatabaseError extends Error {
+  constructor(message: string, public code: DatabaseErrorCode = 'unknown') {
+    super(message);
+  }
+}
+
+export interface ClientsRepository extends Table<ClientRecord> {
+  get(id: string): Promise<ClientRecord | null>;
+}
+
+export interface SettingsRepository {
+  get<K extends SettingKey>(key: K): Promise<Settings[K] | null>;
+  set<K extends SettingKey>(key: K, value: Settings[K]): Promise<void>;
+}
+
+export interface Database {
+  readonly driver: 'supabase' | 'sqlite';
+  clients: ClientsRepository;
+  settings: SettingsRepository;
+  users: Table<UserRecord>;
+  sessions: Table<AdminSessionRecord>;
+  shareLinks: Table<ShareLinkRecord>;
+  linkAccesses: Table<LinkAccessRecord>;
+  albums: Table<AlbumRecord>;
+  photos: Table<PhotoRecord>;
+  selections: Table<SelectionRecord>;
+  comments: Table<CommentRecord>;
+  downloads: Table<DownloadRecord>;
+  notifications: Table<NotificationRecord>;
+  // Cheapest round trip to the database; throws when it is unreachable
+  ping(): Promise<void>;
+}
@@ -0,0 +1,119 @@
+import express from "express";
+import { z } from "zod";
+import { ApiError, ErrorCode } from "../shared";
+import { DatabaseError } from "./db";
+
+// Validation messages in pt-BR, like every other message the API returns
+z.config(z.locales.ptBR());
+
+// Errors without a specific code get the generic one of their status
+const STATUS_CODES: Record<number, ErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  410: 'GONE',
+  413: 'PAYLOAD_TOO_LARGE',
+  422: 'UNPROCESSABLE',
+  429: 'TOO_MANY_REQUESTS',
+  502: 'BAD_GATEWAY',
+  503: 'SERVICE_UNAVAILABLE'
+};
+
+export const sendError = (res: express.Response, status: number, error: string, code?: ErrorCode) => {
+  const body: ApiError = { error, code: code || STATUS_CODES[status] || 'INTERNAL_ERROR' };
+  return res.status(status).json(body);
+};
+
+// Unexpected failures: logged in full; database details are not shown to the caller
+export const serverError = (res: express.Response, err: any) => {
+  console.error(`>>> [API] ${res.req.method} ${res.req.originalUrl} failed:`, err);
+  if (err instanceof DatabaseError) return sendError(res, 500, "Erro ao acessar o banco de dados", 'DATABASE_ERROR');
+  return sendError(res, 500, err?.message || "Erro interno do servidor");
+};
+
+export const databaseUnavailable = (res: express.Response) =>
+  sendError(res, 503, "Banco de dados não configurado");
+
+// Route registry: every route declares its contract, which validates the request and feeds /api/docs
+
+export type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+// Who may call the route: anyone, a staff session (Bearer token) or a portfolio visitor (share link headers)
+export type Access = 'public' | 'admin' | 'portfolio';
+
+export interface RouteSpec<B extends z.ZodType = z.ZodType, Q extends z.ZodType = z.ZodType, R extends z.ZodType = z.ZodType> {
+  tag: string;
+  summary: string;
+  access: Access;
+  body?: B;
+  query?: Q;
+  response?: R;
+  // Bodies and payloads that are not JSON
+  consumes?: 'multipart/form-data';
+  produces?: 'application/zip';
+}
+
+export interface RouteDefinition extends RouteSpec {
+  method: Method;
+  path: string;
+}
+
+type Params = Record<string, string>;
+
+// Routes without a query schema keep Express' own query type
+type Query<Q> = unknown extends Q ? express.Request['query'] : Q;
+
+export type Handler<B = unknown, Q = unknown, R = unknown> = (
+  req: express.Request<Params, R | ApiError, B, Query<Q>>,
+  res: express.Response<R | ApiError>,
+  next: express.NextFunction
+) => unknown;
+
+const issuePath = (path: PropertyKey[]) => path.map(String).join('.');
+
+// Parses the query and body in place; runs after the access middlewares so callers without access get 401/403 first
+const validate = (spec: RouteSpec): express.RequestHandler => (req, res, next) => {
+  for (const part of ['query', 'body'] as const) {
+    const schema = spec[part];
+    if (!schema) continue;
+
+    const result = schema.safeParse(req[part] ?? {});
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => ({ path: issuePath(issue.path), message: issue.message }));
+      const body: ApiError = { error: issues[0].message, code: 'VALIDATION_ERROR', issues };
+      return res.status(400).json(body);
+    }
+    req[part] = result.data;
+  }
+  next();
+};
+
+export const createApi = (app: express.Express) => {
+  const routes: RouteDefinition[] = [];
+
+  // The last handler is the route itself; the ones before it are middlewares (auth, uploads...)
+  const route = (method: Method) =>
+    <B extends z.ZodType = z.ZodUnknown, Q extends z.ZodType = z.ZodUnknown, R extends z.ZodType = z.ZodUnknown>(
+      path: string,
+      spec: RouteSpec<B, Q, R>,
+      ...handlers: Handler<z.output<B>, z.output<Q>, z.input<R>>[]
+    ) => {
+      routes.push({ method, path, ...spec });
+      const middlewares = handlers.slice(0, -1) as express.RequestHandler[];
+      const handler = handlers[handlers.length - 1] as express.RequestHandler;
+      app[method](path, ...middlewares, validate(spec), handler);
+    };
+
+  return {
+    routes,
+    get: route('get'),
+    post: route('post'),
+    put: route('put'),
+    patch: route('patch'),
+    delete: route('delete')
+  };
+};
+
+export type Api = ReturnType<typeof createApi>;
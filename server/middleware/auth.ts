@@ -0,0 +1,69 @@
+import express from "express";
+import { ClientRecord, UserRecord, UserRole } from "../db";
+import { databaseUnavailable, sendError, serverError } from "../http";
+import { getDatabase } from "../services/database";
+import { verifyToken } from "../services/security";
+
+// Staff sessions: a signed Bearer token whose session row must still be active
+export const authMiddleware = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const authHeader = req.headers.authorization || '';
+  const subject = verifyToken(authHeader.startsWith('Bearer ') ? authHeader.slice(7) : undefined);
+
+  if (!subject?.startsWith('admin:')) {
+    return sendError(res, 401, "Unauthorized");
+  }
+
+  try {
+    const db = getDatabase();
+    if (!db) return databaseUnavailable(res);
+
+    const session = await db.sessions.findOne({ id: subject.slice('admin:'.length) });
+
+    if (!session?.userId || session.revokedAt || new Date(session.expiresAt).getTime() < Date.now()) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const user = await db.users.findOne({ id: session.userId });
+
+    if (!user || user.disabledAt) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    res.locals.sessionId = session.id;
+    res.locals.user = user;
+    next();
+  } catch (err: any) {
+    serverError(res, err);
+  }
+};
+
+// Roles: owner (everything), photographer (only assigned clients), viewer (read-only)
+export const requireRole = (...roles: UserRole[]) => (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!roles.includes(res.locals.user?.role)) {
+    return sendError(res, 403, "Você não tem permissão para esta ação");
+  }
+  next();
+};
+
+export const canManage = requireRole('owner', 'photographer');
+
+export const canAccessClient = (user: UserRecord, client: Pick<ClientRecord, 'createdBy' | 'assignedTo'>) => {
+  if (user.role !== 'photographer') return true;
+  return client.createdBy === user.id || (client.assignedTo || []).includes(user.id);
+};
+
+// The client id lives in ":id" on most admin routes and in ":client" on the photo routes
+export const requireClientAccess = (param = 'id') => async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (res.locals.user.role !== 'photographer') return next();
+
+  try {
+    const client = await getDatabase()?.clients.get(req.params[param]);
+
+    if (!client || !canAccessClient(res.locals.user, client)) {
+      return sendError(res, 404, "Cliente não encontrado");
+    }
+    next();
+  } catch (err: any) {
+    serverError(res, err);
+  }
+};
@@ -0,0 +1,46 @@
+import express from "express";
+import { sendError, serverError } from "../http";
+import { getDatabase } from "../services/database";
+import { checkShareLink, portfolioClientFields } from "../services/portfolio";
+import { verifyToken } from "../services/security";
+
+// Loads the client for public portfolio routes, enforcing its share link and access code
+export const portfolioAccess = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const id = String(req.params.id).trim();
+
+  try {
+    const db = getDatabase();
+    if (!db) return sendError(res, 503, "Serviço temporariamente indisponível (banco de dados não configurado)");
+
+    const client = await db.clients.get(id);
+
+    if (!client) return sendError(res, 404, "Portfólio não encontrado");
+
+    const linkCheck = await checkShareLink(db, id, req.get('x-portfolio-link'), req.get('x-portfolio-view'));
+    if ('error' in linkCheck) return sendError(res, linkCheck.status, linkCheck.error, linkCheck.code);
+
+    if (client.accessCodeHash && verifyToken(req.get('x-portfolio-token')) !== `portfolio:${id}`) {
+      return sendError(res, 401, "Código de acesso necessário", 'ACCESS_CODE_REQUIRED');
+    }
+
+    res.locals.client = portfolioClientFields(client);
+    res.locals.link = linkCheck.link;
+    next();
+  } catch (err: any) {
+    serverError(res, err);
+  }
+};
+
+// Delivery downloads: only once the job is delivered
+export const deliveryAccess = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (res.locals.client.status !== 'delivered') {
+    return sendError(res, 403, "O download ainda não foi liberado pelo estúdio", 'DELIVERY_DISABLED');
+  }
+  next();
+};
+
+// Selection changes: only while proofing
+export const portfolioLocked = (res: express.Response, status: string) =>
+  sendError(res, 409, status === 'delivered'
+    ? "Este trabalho já foi entregue e a seleção não pode mais ser alterada."
+    : "As fotos estão em edição e a seleção não pode mais ser alterada.", 'PORTFOLIO_LOCKED');
@@ -0,0 +1,39 @@
+import express from "express";
+import multer from "multer";
+import { MAX_FILE_SIZE_CEILING, MAX_FILES_PER_UPLOAD } from "../../shared";
+import { databaseUnavailable, sendError } from "../http";
+import { getDatabase } from "../services/database";
+import { formatBytes, getQuotas } from "../services/settings";
+
+// Small single-file uploads (studio logo)
+export const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB
+});
+
+// Photo uploads use the configured quotas, loaded per request
+export const uploadPhotos = (field: string) => async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  try {
+    const db = getDatabase();
+    if (!db) return databaseUnavailable(res);
+
+    const quotas = await getQuotas(db);
+    res.locals.quotas = quotas;
+    const maxFiles = Math.min(quotas.maxPhotosPerClient, MAX_FILES_PER_UPLOAD);
+
+    multer({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: Math.min(quotas.maxFileSize, MAX_FILE_SIZE_CEILING), files: maxFiles }
+    }).array(field)(req, res, (err: any) => {
+      if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+        return sendError(res, 413, `Arquivo acima do limite de ${formatBytes(quotas.maxFileSize)}`, 'QUOTA_EXCEEDED');
+      }
+      if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_COUNT') {
+        return sendError(res, 413, `Envie no máximo ${maxFiles} fotos por vez`, 'QUOTA_EXCEEDED');
+      }
+      next(err);
+    });
+  } catch (err) {
+    next(err);
+  }
+};
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { ApiError } from "../shared";
+import { Access, RouteDefinition } from "./http";
+
+// OpenAPI 3.1 document built from the route registry, served at /api/docs
+
+type JsonSchema = Record<string, any>;
+
+const SECURITY: Record<Access, Record<string, string[]>[]> = {
+  public: [],
+  admin: [{ adminToken: [] }],
+  // The access code token is only required when the client has an access code; the view token once the
+  // link has used its last view
+  portfolio: [
+    { portfolioLink: [] },
+    { portfolioLink: [], portfolioToken: [] },
+    { portfolioLink: [], portfolioView: [] },
+    { portfolioLink: [], portfolioToken: [], portfolioView: [] }
+  ]
+};
+
+// Schemas with a meta id become components; toJSONSchema puts them in $defs of each schema it converts
+const toSchema = (schema: z.ZodType, io: 'input' | 'output', components: Record<string, JsonSchema>): JsonSchema => {
+  const { $schema, $defs, ...json } = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JsonSchema;
+  const refs = (value: JsonSchema) => JSON.parse(JSON.stringify(value).replace(/"#\/\$defs\//g, '"#/components/schemas/'));
+  for (const [id, def] of Object.entries($defs || {})) components[id] = refs(def as JsonSchema);
+  return refs(json);
+};
+
+const pathParameters = (path: string) =>
+  [...path.matchAll(/:(\w+)/g)].map(([, name]) => ({ name, in: 'path', required: true, schema: { type: 'string' } }));
+
+const queryParameters = (schema: JsonSchema) =>
+  Object.entries<JsonSchema>(schema.properties || {}).map(([name, property]) => ({
+    name,
+    in: 'query',
+    required: (schema.required || []).includes(name),
+    schema: property
+  }));
+
+const jsonContent = (schema: JsonSchema) => ({ 'application/json': { schema } });
+
+export const buildOpenApiDocument = (routes: RouteDefinition[]) => {
+  const components: Record<string, JsonSchema> = {};
+  const errorSchema = toSchema(ApiError, 'output', components);
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const route of routes) {
+    const operation: JsonSchema = {
+      tags: [route.tag],
+      summary: route.summary,
+      security: SECURITY[route.access],
+      parameters: [
+        ...pathParameters(route.path),
+        ...(route.query ? queryParameters(toSchema(route.query, 'input', components)) : [])
+      ]
+    };
+
+    if (route.consumes === 'multipart/form-data') {
+      const fields = route.body ? toSchema(route.body, 'input', components) : { type: 'object' };
+      operation.requestBody = { required: true, content: { 'multipart/form-data': { schema: fields } } };
+    } else if (route.body) {
+      operation.requestBody = { required: true, content: jsonContent(toSchema(route.body, 'input', components)) };
+    }
+
+    const success = route.produces === 'application/zip'
+      ? { description: 'OK', content: { 'application/zip': { schema: { type: 'string', contentEncoding: 'binary' } } } }
+      : route.response
+        ? { description: 'OK', content: jsonContent(toSchema(route.response, 'output', components)) }
+        : { description: 'OK' };
+
+    operation.responses = {
+      200: success,
+      default: { description: 'Erro', content: jsonContent(errorSchema) }
+    };
+
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = { ...paths[path], [route.method]: operation };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'CinePort API',
+      version: '1.0.0',
+      description: 'Erros respondem { error, code }: uma mensagem em pt-BR e um código estável para a interface.'
+    },
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        adminToken: { type: 'http', scheme: 'bearer', description: 'Token de POST /api/admin/login' },
+        portfolioLink: { type: 'apiKey', in: 'header', name: 'x-portfolio-link', description: 'Id do link de compartilhamento' },
+        portfolioToken: { type: 'apiKey', in: 'header', name: 'x-portfolio-token', description: 'Token de POST /api/client/{id}/access' },
+        portfolioView: { type: 'apiKey', in: 'header', name: 'x-portfolio-view', description: 'viewToken de GET /api/client/{id}; vale depois que o link atinge o limite de visualizações' }
+      }
+    }
+  };
+};
@@ -0,0 +1,104 @@
+import { AlbumBody, AlbumOrderBody, AlbumRecord, Success } from "../../shared";
+import { Api, databaseUnavailable, sendError, serverError } from "../http";
+import { authMiddleware, canManage, requireClientAccess } from "../middleware/auth";
+import { getDatabase } from "../services/database";
+import { getAlbums } from "../services/portfolio";
+
+export const registerAlbumRoutes = (api: Api) => {
+  // Admin: Albums
+  api.post("/api/admin/clients/:id/albums", {
+    tag: "Albums",
+    summary: "Create an album at the end of the list",
+    access: "admin",
+    body: AlbumBody,
+    response: AlbumRecord
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+    const { name } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const albums = await getAlbums(db, id);
+      const position = albums.length > 0 ? albums[albums.length - 1].position + 1 : 0;
+
+      const album = await db.albums.insert({ clientId: id, name, position, createdAt: new Date() });
+      res.json(album);
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.patch("/api/admin/clients/:id/albums/:albumId", {
+    tag: "Albums",
+    summary: "Rename an album",
+    access: "admin",
+    body: AlbumBody,
+    response: AlbumRecord
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id, albumId } = req.params;
+    const { name } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const [album] = await db.albums.update({ id: albumId, clientId: id }, { name });
+      if (!album) return sendError(res, 404, "Álbum não encontrado");
+      res.json(album);
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Photos of a deleted album stay in the portfolio, without an album
+  api.delete("/api/admin/clients/:id/albums/:albumId", {
+    tag: "Albums",
+    summary: "Delete an album",
+    access: "admin",
+    response: Success
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id, albumId } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      await db.albums.remove({ id: albumId, clientId: id });
+      res.json({ success: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.put("/api/admin/clients/:id/albums/order", {
+    tag: "Albums",
+    summary: "Reorder albums",
+    access: "admin",
+    body: AlbumOrderBody,
+    response: Success
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+    const { albumIds } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const albums = await getAlbums(db, id);
+      const known = new Set(albums.map(a => a.id));
+      if (albumIds.length !== known.size || !albumIds.every(albumId => known.has(albumId))) {
+        return sendError(res, 400, "A nova ordem deve conter todos os álbuns do cliente");
+      }
+
+      for (const [position, albumId] of albumIds.entries()) {
+        await db.albums.update({ id: albumId, clientId: id }, { position });
+      }
+
+      res.json({ success: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+};
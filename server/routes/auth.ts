@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { AdminSession, ChangePasswordBody, LoginBody, StaffUser, Success } from "../../shared";
+import { Api, databaseUnavailable, sendError, serverError } from "../http";
+import { authMiddleware } from "../middleware/auth";
+import { getDatabase } from "../services/database";
+import { createAttemptLimiter, createBackoffLimiter, hashIp, hashSecret, signToken, verifySecret } from "../services/security";
+import { bootstrapOwner, publicUser } from "../services/users";
+
+const ADMIN_SESSION_TTL = 12 * 60 * 60; // 12h, in seconds
+const adminLoginLimiter = createAttemptLimiter(5, 15 * 60 * 1000);
+// Per account, so failures from anyone slow down guessing one password without locking out the rest of the team
+const accountLoginLimiter = createBackoffLimiter({
+  freeAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  forgetAfterMs: 60 * 60 * 1000
+});
+
+export const registerAuthRoutes = (api: Api) => {
+  api.post("/api/admin/login", {
+    tag: "Auth",
+    summary: "Sign in a staff user",
+    access: "public",
+    body: LoginBody,
+    response: AdminSession
+  }, async (req, res) => {
+    const limiterKey = req.ip || 'unknown';
+    const { email, password } = req.body;
+    const accountKey = `account:${email}`;
+
+    if (adminLoginLimiter.isBlocked(limiterKey)) {
+      console.warn(">>> [AUTH] Login blocked by rate limit");
+      res.setHeader('Retry-After', String(15 * 60));
+      return sendError(res, 429, "Muitas tentativas de login. Aguarde 15 minutos e tente novamente.");
+    }
+
+    const retryAfter = accountLoginLimiter.retryAfter(accountKey);
+    if (retryAfter > 0) {
+      const seconds = Math.ceil(retryAfter / 1000);
+      console.warn(">>> [AUTH] Login delayed for this account");
+      res.setHeader('Retry-After', String(seconds));
+      return sendError(res, 429, `Muitas tentativas para esta conta. Tente novamente em ${seconds} ${seconds === 1 ? 'segundo' : 'segundos'}.`);
+    }
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const existing = await db.users.findOne({ email });
+
+      let user = existing && !existing.disabledAt && verifySecret(password, existing.passwordHash) ? existing : null;
+      if (!existing) user = await bootstrapOwner(db, email, password);
+
+      if (!user) {
+        adminLoginLimiter.fail(limiterKey);
+        accountLoginLimiter.fail(accountKey);
+        console.warn(">>> [AUTH] Failed login attempt");
+        return sendError(res, 401, "Usuário ou senha incorretos");
+      }
+
+      adminLoginLimiter.reset(limiterKey);
+      accountLoginLimiter.reset(accountKey);
+
+      const sessionId = crypto.randomBytes(16).toString('hex');
+      const session = signToken(`admin:${sessionId}`, ADMIN_SESSION_TTL);
+
+      try {
+        await db.sessions.insert({
+          id: sessionId,
+          userId: user.id,
+          userAgent: req.get('user-agent')?.slice(0, 300) || null,
+          ipHash: hashIp(req.ip),
+          expiresAt: session.expiresAt,
+          createdAt: new Date()
+        });
+      } catch (err: any) {
+        return serverError(res, new Error(`Falha ao criar sessão: ${err.message}`));
+      }
+
+      console.log(`>>> [AUTH] Login success (${user.role})`);
+      res.json({ ...session, user: publicUser(user) });
+    } catch (err: any) {
+      console.error(">>> [AUTH] Error:", err);
+      sendError(res, 500, "Erro interno de autenticação");
+    }
+  });
+
+  api.get("/api/admin/session", {
+    tag: "Auth",
+    summary: "Current staff user",
+    access: "admin",
+    response: z.object({ user: StaffUser })
+  }, authMiddleware, (req, res) => {
+    res.json({ user: publicUser(res.locals.user) });
+  });
+
+  api.post("/api/admin/logout", {
+    tag: "Auth",
+    summary: "Revoke the current session",
+    access: "admin",
+    response: Success
+  }, authMiddleware, async (req, res) => {
+    try {
+      const db = getDatabase()!;
+      await db.sessions.update({ id: res.locals.sessionId }, { revokedAt: new Date() });
+      res.json({ success: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.post("/api/admin/me/password", {
+    tag: "Auth",
+    summary: "Change the password of the current user",
+    access: "admin",
+    body: ChangePasswordBody,
+    response: Success
+  }, authMiddleware, async (req, res) => {
+    const { currentPassword, newPassword } = req.body;
+    const user = res.locals.user;
+
+    if (!currentPassword || !verifySecret(currentPassword, user.passwordHash)) {
+      return sendError(res, 401, "Senha atual incorreta");
+    }
+
+    try {
+      const db = getDatabase()!;
+      await db.users.update({ id: user.id }, { passwordHash: hashSecret(newPassword) });
+
+      // Sign out every other session of this user
+      await db.sessions.update(
+        { userId: user.id, id: { neq: res.locals.sessionId }, revokedAt: null },
+        { revokedAt: new Date() }
+      );
+
+      res.json({ success: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+};
@@ -0,0 +1,217 @@
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { AdminClient, Client, ClientStatus, CreateClientBody, StatusBody, StatusChange, Success, UpdateClientBody } from "../../shared";
+import { UserRecord } from "../db";
+import { Api, databaseUnavailable, sendError, serverError } from "../http";
+import { authMiddleware, canAccessClient, canManage, requireClientAccess } from "../middleware/auth";
+import { getDatabase } from "../services/database";
+import { createShareLinkId, isLinkUsable, publicClientFields } from "../services/portfolio";
+import { hashSecret } from "../services/security";
+import { getQuotas } from "../services/settings";
+import { getPhotoUrls, getStorage } from "../services/storage";
+import { getUserNames } from "../services/users";
+
+// Job stages: the selection is only open while proofing, downloads only once delivered
+const STATUS_TRANSITIONS: Record<ClientStatus, ClientStatus[]> = {
+  proofing: ['editing', 'delivered'],
+  editing: ['proofing', 'delivered'],
+  delivered: ['editing']
+};
+
+// Helper to get clients from the database
+const getClients = async (user: UserRecord): Promise<AdminClient[]> => {
+  try {
+    const db = getDatabase();
+    if (!db) return [];
+
+    const clients = await db.clients.find({}, { order: [['createdAt', 'desc']] }).catch((err: Error) => {
+      console.error("Error fetching clients:", err);
+      throw new Error(`Falha ao buscar clientes: ${err.message}`);
+    });
+
+    // Unread client comments per client, for the admin badges
+    const unread = await db.comments.find({ author: 'client', readAt: null });
+
+    const unreadByClient: Record<string, number> = {};
+    for (const c of unread) {
+      unreadByClient[c.clientId] = (unreadByClient[c.clientId] || 0) + 1;
+    }
+
+    // First usable share link per client, for the "open portfolio" shortcuts
+    const links = await db.shareLinks.find({ revokedAt: null }, { order: [['createdAt', 'asc']] });
+
+    const activeLinkByClient: Record<string, string> = {};
+    for (const l of links) {
+      if (activeLinkByClient[l.clientId] || !isLinkUsable(l)) continue;
+      activeLinkByClient[l.clientId] = l.id;
+    }
+
+    const userNames = await getUserNames(db);
+    const visible = clients.filter(c => canAccessClient(user, c));
+
+    // Cover thumbnails for the client list
+    const coverPathByClient: Record<string, string> = {};
+    const covers = visible.filter(c => c.coverPhoto).map(c => c.coverPhoto as string);
+    if (covers.length > 0) {
+      const coverRows = await db.photos.find({ filename: { in: covers } });
+      for (const row of coverRows) {
+        coverPathByClient[row.clientId] = row.legacy ? `${row.clientId}/${row.filename}` : `thumbs/${row.clientId}/${row.filename}`;
+      }
+    }
+    const { urls: coverUrls } = await getPhotoUrls(Object.values(coverPathByClient));
+
+    return visible.map(c => ({ 
+      ...publicClientFields(c), 
+      createdByName: c.createdBy ? userNames[c.createdBy] || null : null,
+      coverUrl: coverPathByClient[c.id] ? coverUrls[coverPathByClient[c.id]] || null : null,
+      unreadComments: unreadByClient[c.id] || 0,
+      activeLinkId: activeLinkByClient[c.id] || null
+    }));
+  } catch (e: any) {
+    console.error("Critical error in getClients:", e);
+    throw e; // Relançar para que a rota capture
+  }
+};
+
+export const registerClientRoutes = (api: Api) => {
+  // Create Client
+  api.post("/api/admin/clients", {
+    tag: "Clients",
+    summary: "Create a client with its main share link",
+    access: "admin",
+    body: CreateClientBody,
+    response: Client
+  }, authMiddleware, canManage, async (req, res) => {
+    const { selectionQuota, accessCode, ...details } = req.body;
+    const clientId = uuidv4().slice(0, 8);
+    
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const quotas = await getQuotas(db);
+      if (await db.clients.count() >= quotas.maxClients) {
+        return sendError(res, 409, `Limite de ${quotas.maxClients} clientes atingido`, 'QUOTA_EXCEEDED');
+      }
+
+      const client = await db.clients.insert({
+        id: clientId,
+        selectionQuota,
+        ...details,
+        accessCodeHash: accessCode ? hashSecret(accessCode) : null,
+        createdBy: res.locals.user.id,
+        assignedTo: res.locals.user.role === 'photographer' ? [res.locals.user.id] : [],
+        createdAt: new Date()
+      });
+
+      await db.shareLinks
+        .insert({ id: createShareLinkId(), clientId: clientId, label: 'Link principal', createdAt: new Date() })
+        .catch((linkError: Error) => console.error("Error creating default share link:", linkError));
+
+      res.json(publicClientFields(client));
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Get Clients
+  api.get("/api/admin/clients", {
+    tag: "Clients",
+    summary: "List the clients visible to the current user",
+    access: "admin",
+    response: z.array(AdminClient)
+  }, authMiddleware, async (req, res) => {
+    try {
+      const clients = await getClients(res.locals.user);
+      res.json(clients);
+    } catch (err: any) {
+      console.error("Admin clients route error:", err);
+      serverError(res, err);
+    }
+  });
+
+  // Update client details
+  api.patch("/api/admin/clients/:id", {
+    tag: "Clients",
+    summary: "Update client details",
+    access: "admin",
+    body: UpdateClientBody,
+    response: Client
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const [client] = await db.clients.update({ id }, req.body);
+      if (!client) return sendError(res, 404, "Cliente não encontrado");
+      res.json(publicClientFields(client));
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Delete Client
+  api.delete("/api/admin/clients/:id", {
+    tag: "Clients",
+    summary: "Delete a client and all of its files",
+    access: "admin",
+    response: Success
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+    
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      // Delete photos and derivatives from storage first
+      const storage = getStorage();
+      const published = await storage.list('photos', id);
+      const thumbs = await storage.list('photos', `thumbs/${id}`);
+      await storage.remove('photos', [...published, ...thumbs]);
+
+      const originals = await storage.list('originals', id);
+      const web = await storage.list('originals', `web/${id}`);
+      await storage.remove('originals', [...originals, ...web]);
+
+      await db.clients.remove({ id });
+
+      res.json({ success: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Admin: Job stage (proofing -> editing -> delivered, with the way back allowed)
+  api.put("/api/admin/clients/:id/status", {
+    tag: "Clients",
+    summary: "Move the client to another job stage",
+    access: "admin",
+    body: StatusBody,
+    response: StatusChange
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+    const { status } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const client = await db.clients.get(id);
+      if (!client) return sendError(res, 404, "Cliente não encontrado");
+
+      if (client.status === status) return res.json({ success: true, status });
+      if (!STATUS_TRANSITIONS[client.status]?.includes(status)) {
+        return sendError(res, 409, "Mudança de status não permitida", 'INVALID_STATUS_TRANSITION');
+      }
+
+      const statusChangedAt = new Date().toISOString();
+      await db.clients.update({ id }, { status, statusChangedAt });
+      console.log(`>>> [STATUS] Client ${id}: ${client.status} -> ${status}`);
+      res.json({ success: true, status, statusChangedAt });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+};
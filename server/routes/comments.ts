@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { CommentBody, PhotoComment, Success } from "../../shared";
+import { Api, databaseUnavailable, sendError, serverError } from "../http";
+import { authMiddleware, canManage, requireClientAccess } from "../middleware/auth";
+import { portfolioAccess } from "../middleware/portfolio";
+import { getDatabase } from "../services/database";
+import { notifyStudio } from "../services/mail";
+import { getComments, getPhotoNumbers, photoExists } from "../services/portfolio";
+
+export const registerCommentRoutes = (api: Api) => {
+  // Public: Per-photo comments
+  api.get("/api/client/:id/photos/:filename/comments", {
+    tag: "Comments",
+    summary: "Comment thread of a photo",
+    access: "portfolio",
+    response: z.array(PhotoComment)
+  }, portfolioAccess, async (req, res) => {
+    const { id, filename } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      res.json(await getComments(db, id, filename));
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.post("/api/client/:id/photos/:filename/comments", {
+    tag: "Comments",
+    summary: "Comment on a photo as the client",
+    access: "portfolio",
+    body: CommentBody,
+    response: PhotoComment
+  }, portfolioAccess, async (req, res) => {
+    const { id, filename } = req.params;
+    const { body } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      if (!(await photoExists(db, id, filename))) {
+        return sendError(res, 404, "Foto não encontrada");
+      }
+
+      const comment = await db.comments.insert({ clientId: id, filename, author: 'client', body, createdAt: new Date() });
+
+      const numbers = await getPhotoNumbers(db, id);
+      await notifyStudio(db, 'client_comment', id, {
+        clientName: res.locals.client.name,
+        photoNumber: numbers.get(filename) || '?',
+        body
+      });
+
+      res.json(comment);
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Admin: Comment threads
+  api.get("/api/admin/clients/:id/comments", {
+    tag: "Comments",
+    summary: "Every comment of a client",
+    access: "admin",
+    response: z.array(PhotoComment)
+  }, authMiddleware, requireClientAccess(), async (req, res) => {
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      res.json(await getComments(db, req.params.id));
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.post("/api/admin/clients/:id/photos/:filename/comments", {
+    tag: "Comments",
+    summary: "Reply on a photo as the studio",
+    access: "admin",
+    body: CommentBody,
+    response: PhotoComment
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id, filename } = req.params;
+    const { body } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      res.json(await db.comments.insert({ clientId: id, filename, author: 'studio', body, createdAt: new Date() }));
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.post("/api/admin/clients/:id/photos/:filename/comments/read", {
+    tag: "Comments",
+    summary: "Mark the client comments of a photo as read",
+    access: "admin",
+    response: Success
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id, filename } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      await db.comments.update({ clientId: id, filename, author: 'client', readAt: null }, { readAt: new Date() });
+      res.json({ success: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+};
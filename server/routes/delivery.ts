@@ -0,0 +1,160 @@
+import archiver from "archiver";
+import { z } from "zod";
+import { DeliveryBody, DeliveryChange, DownloadManifest, DownloadQuery, DownloadRecord } from "../../shared";
+import { Api, databaseUnavailable, sendError, serverError } from "../http";
+import { authMiddleware, canManage, requireClientAccess } from "../middleware/auth";
+import { deliveryAccess, portfolioAccess } from "../middleware/portfolio";
+import { getDatabase } from "../services/database";
+import { getDownloadParts, readDeliveryFile, zipFilename } from "../services/delivery";
+import { hashIp } from "../services/security";
+
+export const registerDeliveryRoutes = (api: Api) => {
+  // Admin: Delivery files and download log
+  api.put("/api/admin/clients/:id/delivery", {
+    tag: "Delivery",
+    summary: "Choose the file quality delivered to the client",
+    access: "admin",
+    body: DeliveryBody,
+    response: DeliveryChange
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+    const { quality } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      await db.clients.update({ id }, { deliveryQuality: quality });
+      res.json({ success: true, deliveryQuality: quality });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.get("/api/admin/clients/:id/downloads", {
+    tag: "Delivery",
+    summary: "The 50 most recent downloads of a client",
+    access: "admin",
+    response: z.array(DownloadRecord)
+  }, authMiddleware, requireClientAccess(), async (req, res) => {
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      res.json(await db.downloads.find({ clientId: req.params.id }, { order: [['createdAt', 'desc']], limit: 50 }));
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Manifest: how many ZIP parts to fetch and their approximate sizes
+  api.get("/api/client/:id/download", {
+    tag: "Delivery",
+    summary: "ZIP parts of a delivered portfolio",
+    access: "portfolio",
+    query: DownloadQuery,
+    response: DownloadManifest
+  }, portfolioAccess, deliveryAccess, async (req, res) => {
+    const { client } = res.locals;
+    const { scope } = req.query;
+
+    try {
+      const db = getDatabase()!;
+      const parts = await getDownloadParts(db, client, scope);
+      if (parts.length === 0) {
+        return sendError(res, 400, scope === 'selected' ? "Nenhuma foto selecionada" : "Nenhuma foto para baixar");
+      }
+
+      res.json({
+        scope,
+        quality: client.deliveryQuality,
+        files: parts.reduce((sum, p) => sum + p.length, 0),
+        bytes: parts.flat().reduce((sum, e) => sum + e.bytes, 0),
+        parts: parts.map((entries, i) => ({
+          part: i + 1,
+          files: entries.length,
+          bytes: entries.reduce((sum, e) => sum + e.bytes, 0),
+          filename: zipFilename(client.name, scope, i + 1, parts.length)
+        }))
+      });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Streams one ZIP part. Photos are already compressed, so entries are stored as-is.
+  api.get("/api/client/:id/download/:part", {
+    tag: "Delivery",
+    summary: "Download one ZIP part",
+    access: "portfolio",
+    query: DownloadQuery,
+    produces: "application/zip"
+  }, portfolioAccess, deliveryAccess, async (req, res) => {
+    const { client, link } = res.locals;
+    const { scope } = req.query;
+    const part = Number(req.params.part);
+
+    try {
+      const db = getDatabase()!;
+      const parts = await getDownloadParts(db, client, scope);
+      const entries = Number.isInteger(part) ? parts[part - 1] : undefined;
+      if (!entries) return sendError(res, 404, "Parte do download não encontrada");
+
+      const download = await db.downloads
+        .insert({
+          clientId: client.id,
+          linkId: link.id,
+          scope,
+          quality: client.deliveryQuality,
+          part,
+          parts: parts.length,
+          files: entries.length,
+          userAgent: req.get('user-agent')?.slice(0, 300) || null,
+          ipHash: hashIp(req.ip),
+          createdAt: new Date()
+        })
+        .catch((auditError: Error) => {
+          console.error(">>> [DOWNLOAD] Error logging download:", auditError);
+          return null;
+        });
+
+      const archive = archiver('zip', { store: true });
+      let aborted = false;
+      const closed = new Promise(resolve => res.on('close', () => {
+        if (!res.writableFinished) {
+          aborted = true;
+          archive.abort();
+        }
+        resolve(null);
+      }));
+      archive.on('error', (err) => {
+        console.error(`>>> [DOWNLOAD] Archive error for ${client.id}:`, err);
+        res.destroy(err);
+      });
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${zipFilename(client.name, scope, part, parts.length)}"`);
+      res.setHeader('X-Download-Files', String(entries.length));
+      archive.pipe(res);
+
+      // One file at a time: wait for each entry to be written before reading the next
+      for (const entry of entries) {
+        if (aborted) break;
+        const file = await readDeliveryFile(client.id, entry.row, client.deliveryQuality);
+        const written = new Promise(resolve => archive.once('entry', resolve));
+        archive.append(file, { name: entry.name, date: entry.row.capturedAt || entry.row.createdAt || new Date() });
+        await Promise.race([written, closed]);
+      }
+      if (aborted) return;
+
+      await archive.finalize();
+      if (download) {
+        await db.downloads.update({ id: download.id }, { bytes: archive.pointer(), completedAt: new Date() });
+      }
+    } catch (err: any) {
+      console.error(`>>> [DOWNLOAD] Failed for ${client.id}:`, err);
+      if (!res.headersSent) return serverError(res, err);
+      res.destroy(err);
+    }
+  });
+};
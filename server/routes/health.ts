@@ -0,0 +1,40 @@
+import { Diagnostics, Liveness, Readiness } from "../../shared";
+import { Api, sendError, serverError } from "../http";
+import { authMiddleware, requireRole } from "../middleware/auth";
+import { isReady, runDiagnostics } from "../services/diagnostics";
+
+export const registerHealthRoutes = (api: Api) => {
+  // Liveness: the process is up and serving requests
+  api.get("/api/health", {
+    tag: "Health",
+    summary: "Liveness probe",
+    access: "public",
+    response: Liveness
+  }, (req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  // Readiness: the database answers; 503 otherwise, without details
+  api.get("/api/health/ready", {
+    tag: "Health",
+    summary: "Readiness probe",
+    access: "public",
+    response: Readiness
+  }, async (req, res) => {
+    if (!(await isReady())) return sendError(res, 503, "Serviço indisponível");
+    res.json({ status: 'ready' });
+  });
+
+  api.get("/api/admin/diagnostics", {
+    tag: "Health",
+    summary: "Database, storage, disk and configuration checks with latency history",
+    access: "admin",
+    response: Diagnostics
+  }, authMiddleware, requireRole('owner'), async (req, res) => {
+    try {
+      res.json(await runDiagnostics());
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+};
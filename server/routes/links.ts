@@ -0,0 +1,79 @@
+import { CreateLinkBody, ShareLink, ShareLinks, Success } from "../../shared";
+import { Api, databaseUnavailable, serverError } from "../http";
+import { authMiddleware, canManage, requireClientAccess } from "../middleware/auth";
+import { getDatabase } from "../services/database";
+import { createShareLinkId, isLinkUsable } from "../services/portfolio";
+
+export const registerLinkRoutes = (api: Api) => {
+  // Admin: Share links and access log
+  api.get("/api/admin/clients/:id/links", {
+    tag: "Share links",
+    summary: "Share links of a client and its recent portfolio views",
+    access: "admin",
+    response: ShareLinks
+  }, authMiddleware, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const links = await db.shareLinks.find({ clientId: id }, { order: [['createdAt', 'desc']] });
+      const accesses = await db.linkAccesses.find({ clientId: id }, { order: [['createdAt', 'desc']], limit: 20 });
+
+      res.json({
+        links: links.map(l => ({ ...l, active: isLinkUsable(l) })),
+        accesses
+      });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.post("/api/admin/clients/:id/links", {
+    tag: "Share links",
+    summary: "Create a share link, optionally with an expiry date or view limit",
+    access: "admin",
+    body: CreateLinkBody,
+    response: ShareLink
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+    const { label, expiresAt, maxViews } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const link = await db.shareLinks.insert({
+        id: createShareLinkId(),
+        clientId: id,
+        label,
+        expiresAt,
+        maxViews,
+        createdAt: new Date()
+      });
+      res.json({ ...link, active: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.post("/api/admin/clients/:id/links/:linkId/revoke", {
+    tag: "Share links",
+    summary: "Revoke a share link",
+    access: "admin",
+    response: Success
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id, linkId } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      await db.shareLinks.update({ id: linkId, clientId: id }, { revokedAt: new Date() });
+      res.json({ success: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+};
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { NotificationLogEntry, NotificationRecord, NotifyLinkBody } from "../../shared";
+import { Api, databaseUnavailable, sendError, serverError } from "../http";
+import { authMiddleware, canManage, requireClientAccess } from "../middleware/auth";
+import { getDatabase } from "../services/database";
+import { appUrl, sendNotification } from "../services/mail";
+import { isLinkUsable } from "../services/portfolio";
+import { verifySecret } from "../services/security";
+import { getUserNames } from "../services/users";
+
+export const registerNotificationRoutes = (api: Api) => {
+  // Admin: Email the portfolio link to the client. Only the hash of the access code is stored,
+  // so the studio types the code again to include it; it is checked before sending.
+  api.post("/api/admin/clients/:id/notify/link", {
+    tag: "Notifications",
+    summary: "Email the portfolio link to the client",
+    access: "admin",
+    body: NotifyLinkBody,
+    response: NotificationRecord
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+    const { accessCode, linkId } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const client = await db.clients.get(id);
+      if (!client) return sendError(res, 404, "Cliente não encontrado");
+      if (!client.email) return sendError(res, 400, "Cadastre o e-mail do cliente antes de enviar o link");
+
+      if (client.accessCodeHash) {
+        if (!accessCode) return sendError(res, 400, "Informe o código de acesso para incluí-lo no e-mail", 'ACCESS_CODE_REQUIRED');
+        if (!verifySecret(accessCode, client.accessCodeHash)) return sendError(res, 400, "Código de acesso incorreto");
+      }
+
+      // The link is only built from APP_URL, never from the Host header of the request
+      const base = appUrl();
+      if (!base) return sendError(res, 409, "Defina APP_URL no servidor para enviar links por e-mail");
+
+      const links = await db.shareLinks.find({ clientId: id }, { order: [['createdAt', 'desc']] });
+      const link = links.find(l => isLinkUsable(l) && (!linkId || l.id === linkId));
+      if (!link) return sendError(res, 400, "Este cliente não tem nenhum link ativo");
+
+      const notification = await sendNotification(db, 'portfolio_link', {
+        clientId: id,
+        to: [client.email],
+        data: {
+          clientName: client.name,
+          url: `${base}/portfolio/${id}?link=${link.id}`,
+          accessCode: client.accessCodeHash ? accessCode : null
+        },
+        sentBy: res.locals.user.id
+      });
+
+      if (notification.status === 'failed') return sendError(res, 502, `Falha ao enviar e-mail: ${notification.error}`);
+      // The log row; only the outcome when the row could not be written
+      res.json(notification as NotificationRecord);
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.get("/api/admin/clients/:id/notifications", {
+    tag: "Notifications",
+    summary: "The 50 most recent emails sent about a client",
+    access: "admin",
+    response: z.array(NotificationLogEntry)
+  }, authMiddleware, requireClientAccess(), async (req, res) => {
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const notifications = await db.notifications.find({ clientId: req.params.id }, { order: [['createdAt', 'desc']], limit: 50 });
+      const userNames = await getUserNames(db);
+      res.json(notifications.map(n => ({ ...n, sentByName: n.sentBy ? userNames[n.sentBy] || null : null })));
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+};
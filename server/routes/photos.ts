@@ -0,0 +1,550 @@
+import path from "path";
+import sharp from "sharp";
+import { v4 as uuidv4 } from "uuid";
+import {
+  AdminPortfolio, CaptionBody, CaptureSortResult, ConfirmUploadBody, CoverBody, CoverChange, CreateUploadsBody,
+  DerivativesResult, DirectUploads, MovePhotoBody, PhotoOrderBody, PhotoRecord, Quotas, ReconcileResult, Success,
+  UploadConfirmation, UploadPhotosBody
+} from "../../shared";
+import { Api, databaseUnavailable, sendError, serverError } from "../http";
+import { authMiddleware, canManage, requireClientAccess } from "../middleware/auth";
+import { uploadPhotos } from "../middleware/uploads";
+import { getDatabase } from "../services/database";
+import { getNextPhotoPosition, PhotoProcessingError, processAndStorePhoto, readExif, removePhotoFiles, upgradeLegacyPhoto, usageOf } from "../services/photos";
+import { getAlbums, getPhotoRows, getPortfolio, photoExists, publicClientFields } from "../services/portfolio";
+import { formatBytes, getQuotas } from "../services/settings";
+import { getStorage, UPLOAD_MIME_TYPES } from "../services/storage";
+import { getUserNames } from "../services/users";
+
+export const registerPhotoRoutes = (api: Api) => {
+  // Upload Photos
+  api.post("/api/admin/upload/:client", {
+    tag: "Photos",
+    summary: "Upload photos through the server (multipart field \"photos\")",
+    access: "admin",
+    consumes: "multipart/form-data",
+    body: UploadPhotosBody,
+    response: Success
+  }, authMiddleware, canManage, requireClientAccess('client'), uploadPhotos("photos"), async (req, res) => {
+    const { client } = req.params;
+    const { albumId } = req.body;
+    const files = req.files as Express.Multer.File[];
+    const quotas: Quotas = res.locals.quotas;
+    
+    if (!files || files.length === 0) return sendError(res, 400, "Nenhuma foto enviada");
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const usage = usageOf(await getPhotoRows(db, client));
+      if (usage.photos + files.length > quotas.maxPhotosPerClient) {
+        return sendError(res, 409, `Limite de ${quotas.maxPhotosPerClient} fotos por cliente atingido`, 'QUOTA_EXCEEDED');
+      }
+      const incomingBytes = files.reduce((sum, f) => sum + f.size, 0);
+      if (usage.bytes + incomingBytes > quotas.maxBytesPerClient) {
+        return sendError(res, 409, `Limite de armazenamento de ${formatBytes(quotas.maxBytesPerClient)} por cliente atingido`, 'QUOTA_EXCEEDED');
+      }
+
+      if (albumId) {
+        const album = await db.albums.findOne({ id: albumId, clientId: client });
+        if (!album) return sendError(res, 400, "Álbum não encontrado");
+      }
+
+      // Tenta garantir que os buckets existem antes de subir
+      await getStorage().ensureBuckets();
+
+      // All or nothing: when one file fails, the ones already saved from this request are removed
+      const saved: string[] = [];
+      let position = await getNextPhotoPosition(db, client);
+      for (const file of files) {
+        const ext = path.extname(file.originalname);
+        const filename = `${uuidv4()}${ext}`;
+        
+        try {
+          const { width, height, capturedAt, exif } = await processAndStorePhoto(client, filename, file.buffer, file.mimetype);
+
+          await db.photos.insert({
+            clientId: client,
+            filename,
+            albumId,
+            originalName: file.originalname,
+            mimeType: file.mimetype,
+            size: file.size,
+            width,
+            height,
+            capturedAt,
+            exif,
+            position: position++,
+            uploadedBy: res.locals.user.id,
+            createdAt: new Date()
+          });
+          saved.push(filename);
+        } catch (error: any) {
+          console.error(`>>> [UPLOAD] Could not store ${file.originalname}:`, error);
+          if (saved.length) await db.photos.remove({ clientId: client, filename: { in: saved } }).catch(() => {});
+          await removePhotoFiles(client, [...saved, filename]).catch(() => {});
+
+          if (error instanceof PhotoProcessingError) {
+            return sendError(res, 422, `Não foi possível processar ${file.originalname}: ${error.message}. Nenhuma foto deste envio foi salva.`);
+          }
+          throw error;
+        }
+      }
+      res.json({ success: true });
+    } catch (err: any) {
+      console.error("Erro geral no upload:", err);
+      serverError(res, err);
+    }
+  });
+
+  // Direct uploads: the browser sends each original straight to storage through a signed URL,
+  // then confirms it so the server builds the derivatives and registers the photo
+  api.post("/api/admin/clients/:id/uploads", {
+    tag: "Photos",
+    summary: "Get signed URLs to upload originals directly to storage",
+    access: "admin",
+    body: CreateUploadsBody,
+    response: DirectUploads
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+    const { files } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const quotas = await getQuotas(db);
+      const usage = usageOf(await getPhotoRows(db, id));
+
+      for (const file of files) {
+        if (!UPLOAD_MIME_TYPES.includes(file.type)) {
+          return sendError(res, 400, `Formato não suportado: ${file.name}`);
+        }
+        if (file.size > quotas.maxFileSize) {
+          return sendError(res, 413, `${file.name} está acima do limite de ${formatBytes(quotas.maxFileSize)}`, 'QUOTA_EXCEEDED');
+        }
+      }
+      if (usage.photos + files.length > quotas.maxPhotosPerClient) {
+        return sendError(res, 409, `Limite de ${quotas.maxPhotosPerClient} fotos por cliente atingido`, 'QUOTA_EXCEEDED');
+      }
+      if (usage.bytes + files.reduce((sum, f) => sum + f.size, 0) > quotas.maxBytesPerClient) {
+        return sendError(res, 409, `Limite de armazenamento de ${formatBytes(quotas.maxBytesPerClient)} por cliente atingido`, 'QUOTA_EXCEEDED');
+      }
+
+      const storage = getStorage();
+      await storage.ensureBuckets();
+
+      const uploads = [];
+      for (const file of files) {
+        const filename = `${uuidv4()}${path.extname(file.name)}`;
+        const signedUrl = await storage.signedUploadUrl('originals', `${id}/${filename}`);
+        uploads.push({ name: file.name, filename, signedUrl });
+      }
+
+      res.json({ uploads });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.post("/api/admin/clients/:id/uploads/confirm", {
+    tag: "Photos",
+    summary: "Register a photo uploaded directly to storage",
+    access: "admin",
+    body: ConfirmUploadBody,
+    response: UploadConfirmation
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+    const { filename, albumId } = req.body;
+    const originalName = (req.body.originalName || filename).slice(0, 255);
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      // Confirming twice (a retry after a lost response) is harmless
+      if (await photoExists(db, id, filename)) return res.json({ success: true, filename });
+
+      if (albumId && !(await getAlbums(db, id)).some(a => a.id === albumId)) {
+        return sendError(res, 400, "Álbum não encontrado");
+      }
+
+      const storage = getStorage();
+      const objectPath = `${id}/${filename}`;
+      const file = await storage.get('originals', objectPath);
+      if (!file) {
+        return sendError(res, 404, "Arquivo não encontrado no storage. Envie novamente.");
+      }
+
+      const quotas = await getQuotas(db);
+      const usage = usageOf(await getPhotoRows(db, id));
+      const rejection =
+        file.size > quotas.maxFileSize ? { status: 413, error: `Arquivo acima do limite de ${formatBytes(quotas.maxFileSize)}` } :
+        usage.photos + 1 > quotas.maxPhotosPerClient ? { status: 409, error: `Limite de ${quotas.maxPhotosPerClient} fotos por cliente atingido` } :
+        usage.bytes + file.size > quotas.maxBytesPerClient ? { status: 409, error: `Limite de armazenamento de ${formatBytes(quotas.maxBytesPerClient)} por cliente atingido` } :
+        null;
+      if (rejection) {
+        await storage.remove('originals', [objectPath]);
+        return sendError(res, rejection.status, rejection.error, 'QUOTA_EXCEEDED');
+      }
+
+      try {
+        const { width, height, capturedAt, exif } = await processAndStorePhoto(id, filename, file.body, file.contentType, { storeOriginal: false });
+
+        await db.photos.insert({
+          clientId: id,
+          filename,
+          albumId,
+          originalName,
+          mimeType: file.contentType || null,
+          size: file.size,
+          width,
+          height,
+          capturedAt,
+          exif,
+          position: await getNextPhotoPosition(db, id),
+          uploadedBy: res.locals.user.id,
+          createdAt: new Date()
+        });
+      } catch (error: any) {
+        await removePhotoFiles(id, [filename]).catch(() => {});
+        console.error(`>>> [UPLOAD] Could not process ${objectPath}:`, error);
+        if (!(error instanceof PhotoProcessingError)) throw error;
+        return sendError(res, 422, `Não foi possível processar ${originalName}: ${error.message}`);
+      }
+
+      res.json({ success: true, filename });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Delete Photo
+  api.delete("/api/admin/photos/:client/:filename", {
+    tag: "Photos",
+    summary: "Delete a photo, its files, selection and comments",
+    access: "admin",
+    response: Success
+  }, authMiddleware, canManage, requireClientAccess('client'), async (req, res) => {
+    const { client, filename } = req.params;
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      await removePhotoFiles(client, [filename]);
+
+      await db.selections.remove({ clientId: client, filename });
+      await db.comments.remove({ clientId: client, filename });
+      await db.photos.remove({ clientId: client, filename });
+      await db.clients.update({ id: client, coverPhoto: filename }, { coverPhoto: null });
+      res.json({ success: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Moves photos uploaded before derivatives existed to the private bucket and publishes previews
+  api.post("/api/admin/clients/:id/derivatives", {
+    tag: "Photos",
+    summary: "Build thumbnails and previews for legacy photos",
+    access: "admin",
+    response: DerivativesResult
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      await getStorage().ensureBuckets();
+
+      const legacy = (await getPhotoRows(db, id)).filter(row => row.legacy);
+
+      let processed = 0;
+      for (const { filename } of legacy) {
+        if (await upgradeLegacyPhoto(db, id, filename)) processed++;
+        else console.error(`>>> [DERIVATIVES] Could not download ${id}/${filename}`);
+      }
+
+      res.json({ success: true, processed, total: legacy.length });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Admin: Client Info & Photos (bypasses the access code)
+  api.get("/api/admin/clients/:id/photos", {
+    tag: "Photos",
+    summary: "Client portfolio as the studio sees it",
+    access: "admin",
+    response: AdminPortfolio
+  }, authMiddleware, requireClientAccess(), async (req, res) => {
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const client = await db.clients.get(req.params.id);
+
+      if (!client) return sendError(res, 404, "Cliente não encontrado");
+
+      const portfolio = await getPortfolio(db, publicClientFields(client));
+      const userNames = await getUserNames(db);
+      const rows = await getPhotoRows(db, client.id);
+      const rowByFile = new Map(rows.map(row => [row.filename, row]));
+
+      res.json({
+        ...portfolio,
+        createdByName: client.createdBy ? userNames[client.createdBy] || null : null,
+        usage: usageOf(rows),
+        photos: portfolio.photos.map(p => {
+          const row = rowByFile.get(p.name);
+          return {
+            ...p,
+            originalName: row?.originalName || null,
+            size: row?.size || null,
+            exif: row?.exif || null,
+            createdAt: row?.createdAt || null,
+            uploadedByName: row?.uploadedBy ? userNames[row.uploadedBy] || null : null
+          };
+        })
+      });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Moves a photo to another album (or out of any album with albumId null)
+  api.put("/api/admin/clients/:id/photos/:filename/album", {
+    tag: "Photos",
+    summary: "Move a photo to another album",
+    access: "admin",
+    body: MovePhotoBody,
+    response: Success
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id, filename } = req.params;
+    const { albumId } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      if (albumId) {
+        const albums = await getAlbums(db, id);
+        if (!albums.some(a => a.id === albumId)) {
+          return sendError(res, 400, "Álbum não encontrado");
+        }
+      }
+
+      const [photo] = await db.photos.update({ clientId: id, filename }, { albumId });
+      if (!photo) return sendError(res, 404, "Foto não encontrada");
+      res.json({ success: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.patch("/api/admin/clients/:id/photos/:filename", {
+    tag: "Photos",
+    summary: "Set the caption of a photo",
+    access: "admin",
+    body: CaptionBody,
+    response: PhotoRecord
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id, filename } = req.params;
+    const { caption } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const [photo] = await db.photos.update({ clientId: id, filename }, { caption });
+      if (!photo) return sendError(res, 404, "Foto não encontrada");
+      res.json(photo);
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Saves a manual order: the listed photos swap into the positions they already occupy,
+  // so reordering inside one album leaves the other albums untouched
+  api.put("/api/admin/clients/:id/photos/order", {
+    tag: "Photos",
+    summary: "Reorder photos",
+    access: "admin",
+    body: PhotoOrderBody,
+    response: Success
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+    const { filenames } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const rows = await getPhotoRows(db, id);
+      const rowByFile = new Map(rows.map(row => [row.filename, row]));
+      if (!filenames.every(filename => rowByFile.has(filename))) {
+        return sendError(res, 400, "A nova ordem contém fotos que não pertencem ao cliente");
+      }
+
+      const positions = filenames.map(filename => rowByFile.get(filename)!.position).sort((a, b) => a - b);
+
+      for (const [i, filename] of filenames.entries()) {
+        if (rowByFile.get(filename)!.position === positions[i]) continue;
+        await db.photos.update({ clientId: id, filename }, { position: positions[i] });
+      }
+
+      res.json({ success: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Orders photos by capture time so shots from different camera bodies interleave.
+  // Photos without a capture time keep their relative order after the dated ones.
+  api.post("/api/admin/clients/:id/photos/sort-by-capture", {
+    tag: "Photos",
+    summary: "Order photos by capture time",
+    access: "admin",
+    response: CaptureSortResult
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const rows = await getPhotoRows(db, id);
+
+      // Photos uploaded before EXIF extraction are parsed once from their original
+      let backfilled = 0;
+      for (const row of rows.filter(r => r.exif == null)) {
+        const file = await getStorage().get(row.legacy ? 'photos' : 'originals', `${id}/${row.filename}`);
+        if (!file) continue;
+
+        const meta = await sharp(file.body, { failOn: 'none' }).metadata().catch(() => null);
+        if (!meta) continue;
+        const { capturedAt, exif } = await readExif(meta);
+        await db.photos.update({ clientId: id, filename: row.filename }, { capturedAt, exif });
+        Object.assign(row, { capturedAt, exif });
+        backfilled++;
+      }
+
+      const time = (row: { capturedAt: string | null }) => row.capturedAt ? new Date(row.capturedAt).getTime() : Infinity;
+      const sorted = [...rows].sort((a, b) => (time(a) - time(b)) || (a.position - b.position));
+
+      let moved = 0;
+      for (const [position, row] of sorted.entries()) {
+        if (row.position === position) continue;
+        await db.photos.update({ clientId: id, filename: row.filename }, { position });
+        moved++;
+      }
+
+      res.json({
+        success: true,
+        moved,
+        backfilled,
+        undated: sorted.filter(row => !row.capturedAt).length
+      });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.put("/api/admin/clients/:id/cover", {
+    tag: "Photos",
+    summary: "Set or clear the cover photo",
+    access: "admin",
+    body: CoverBody,
+    response: CoverChange
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+    const { filename } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      if (filename) {
+        if (!(await photoExists(db, id, filename))) return sendError(res, 404, "Foto não encontrada");
+      }
+
+      await db.clients.update({ id }, { coverPhoto: filename });
+      res.json({ success: true, coverPhoto: filename });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Repairs drift between the photos table and the buckets: registers stray previews, rebuilds the
+  // derivatives of photos whose original is still there, and only drops rows with neither file.
+  // Originals are never deleted here.
+  api.post("/api/admin/clients/:id/photos/reconcile", {
+    tag: "Photos",
+    summary: "Sync photo records with the files in storage",
+    access: "admin",
+    response: ReconcileResult
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const storage = getStorage();
+      const names = async (bucket: 'photos' | 'originals', prefix: string) =>
+        new Set((await storage.list(bucket, prefix)).map(p => p.split('/').pop()!));
+      const stored = await names('photos', id);
+      const thumbs = await names('photos', `thumbs/${id}`);
+      const originals = await names('originals', id);
+      const rows = await getPhotoRows(db, id);
+      const known = new Set(rows.map(row => row.filename));
+
+      const missing = [...stored].filter(filename => !known.has(filename));
+      const withoutPreview = rows.filter(row => !stored.has(row.filename));
+      const rebuildable = withoutPreview.filter(row => originals.has(row.filename)).map(row => row.filename);
+      const orphaned = withoutPreview.filter(row => !originals.has(row.filename)).map(row => row.filename);
+      const stale = rows.filter(row => stored.has(row.filename) && !!row.legacy !== !thumbs.has(row.filename));
+
+      if (missing.length > 0) {
+        let position = await getNextPhotoPosition(db, id);
+        await db.photos.insertMany(missing.map(filename => ({
+          clientId: id,
+          filename,
+          originalName: filename,
+          position: position++,
+          legacy: !thumbs.has(filename),
+          createdAt: new Date()
+        })));
+      }
+
+      for (const row of stale) {
+        await db.photos.update({ clientId: id, filename: row.filename }, { legacy: !thumbs.has(row.filename) });
+      }
+
+      let rebuilt = 0;
+      for (const filename of rebuildable) {
+        const original = await storage.get('originals', `${id}/${filename}`);
+        if (!original) continue;
+        const { width, height, capturedAt, exif } = await processAndStorePhoto(id, filename, original.body, original.contentType || 'image/jpeg', { storeOriginal: false });
+        await db.photos.update({ clientId: id, filename }, { legacy: false, width, height, capturedAt, exif });
+        rebuilt++;
+      }
+
+      if (orphaned.length > 0) {
+        // Only derivatives can be left at this point: the thumbnail and the clean web copy
+        await storage.remove('photos', orphaned.map(f => `thumbs/${id}/${f}`));
+        await storage.remove('originals', orphaned.map(f => `web/${id}/${f}`));
+        await db.selections.remove({ clientId: id, filename: { in: orphaned } });
+        await db.comments.remove({ clientId: id, filename: { in: orphaned } });
+        await db.photos.remove({ clientId: id, filename: { in: orphaned } });
+        await db.clients.update({ id, coverPhoto: { in: orphaned } }, { coverPhoto: null });
+      }
+
+      res.json({ success: true, added: missing.length, removed: orphaned.length, rebuilt, updated: stale.length });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+};
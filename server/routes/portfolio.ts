@@ -0,0 +1,256 @@
+import { AccessCodeBody, Photo, PhotoUrls, Portfolio, Selection, SignedToken, SubmittedSelection, Success } from "../../shared";
+import { Api, databaseUnavailable, sendError, serverError } from "../http";
+import { authMiddleware, canManage, requireClientAccess } from "../middleware/auth";
+import { portfolioAccess, portfolioLocked } from "../middleware/portfolio";
+import { getDatabase } from "../services/database";
+import { notifyStudio } from "../services/mail";
+import { upgradeLegacyPhotos } from "../services/photos";
+import { checkShareLink, getPhotoNumbers, getPhotos, getPortfolio, getSelection, photoExists, recordLinkView } from "../services/portfolio";
+import { createAttemptLimiter, createBackoffLimiter, hashIp, signToken, verifySecret, verifyToken } from "../services/security";
+
+// Portfolio access codes and short-lived session tokens
+const PORTFOLIO_SESSION_TTL = 2 * 60 * 60; // 2h, in seconds
+// How long one counted view keeps the page usable (selection, comments, downloads)
+const PORTFOLIO_VIEW_TTL = 12 * 60 * 60; // 12h, in seconds
+
+const accessCodeLimiter = createAttemptLimiter(5, 15 * 60 * 1000);
+// Per portfolio, whatever the caller's IP: short codes must not be guessable from many addresses.
+// A correct code does not clear it, so a visitor signing in does not hand fresh attempts to a guesser.
+const portfolioCodeLimiter = createBackoffLimiter({
+  freeAttempts: 10,
+  baseDelayMs: 2000,
+  maxDelayMs: 15 * 60 * 1000,
+  forgetAfterMs: 24 * 60 * 60 * 1000
+});
+
+export const registerPortfolioRoutes = (api: Api) => {
+  // Public: Exchange a portfolio access code for a short-lived session token
+  api.post("/api/client/:id/access", {
+    tag: "Portfolio",
+    summary: "Exchange the access code for a portfolio token",
+    access: "public",
+    body: AccessCodeBody,
+    response: SignedToken
+  }, async (req, res) => {
+    const id = String(req.params.id).trim();
+    const { code } = req.body;
+    const limiterKey = `${id}:${req.ip}`;
+
+    const retryAfter = portfolioCodeLimiter.retryAfter(id);
+    if (accessCodeLimiter.isBlocked(limiterKey) || retryAfter > 0) {
+      res.setHeader('Retry-After', String(Math.ceil(retryAfter / 1000) || 15 * 60));
+      return sendError(res, 429, "Muitas tentativas. Aguarde alguns minutos e tente novamente.");
+    }
+
+    try {
+      const db = getDatabase();
+      if (!db) return sendError(res, 503, "Serviço temporariamente indisponível (banco de dados não configurado)");
+
+      const client = await db.clients.get(id);
+
+      if (!client) return sendError(res, 404, "Portfólio não encontrado");
+
+      const linkCheck = await checkShareLink(db, id, req.get('x-portfolio-link'), req.get('x-portfolio-view'));
+      if ('error' in linkCheck) return sendError(res, linkCheck.status, linkCheck.error, linkCheck.code);
+
+      if (!client.accessCodeHash) return sendError(res, 400, "Este portfólio não exige código de acesso");
+
+      if (!verifySecret(code, client.accessCodeHash)) {
+        accessCodeLimiter.fail(limiterKey);
+        portfolioCodeLimiter.fail(id);
+        console.warn(`>>> [PORTFOLIO] Wrong access code for ${id}`);
+        return sendError(res, 401, "Código de acesso incorreto");
+      }
+
+      accessCodeLimiter.reset(limiterKey);
+      res.json(signToken(`portfolio:${id}`, PORTFOLIO_SESSION_TTL));
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Public: Get Client Info & Photos
+  api.get("/api/client/:id", {
+    tag: "Portfolio",
+    summary: "Portfolio of a client; counts as a view of the share link unless a view token is sent",
+    access: "portfolio",
+    response: Portfolio
+  }, portfolioAccess, async (req, res) => {
+    const { client, link } = res.locals;
+    console.log(`>>> [PORTFOLIO] Request for ID: "${client.id}"`);
+    
+    try {
+      const db = getDatabase()!;
+
+      // The open page reloading its data (e.g. after the access code is asked again) is the same view
+      const viewToken = req.get('x-portfolio-view');
+      const counted = verifyToken(viewToken) === `view:${link.id}`;
+
+      if (!counted && !(await recordLinkView(db, link))) {
+        return sendError(res, 410, "Este link atingiu o limite de visualizações", 'LINK_EXPIRED');
+      }
+
+      await upgradeLegacyPhotos(db, client.id);
+      const portfolio = await getPortfolio(db, client, { hideLegacy: true });
+
+      // Log the view; a failure here must not block the client
+      if (!counted) {
+        await db.linkAccesses
+          .insert({
+            linkId: link.id,
+            clientId: client.id,
+            userAgent: req.get('user-agent')?.slice(0, 300) || null,
+            ipHash: hashIp(req.ip),
+            createdAt: new Date()
+          })
+          .catch((accessError: Error) => console.error(">>> [PORTFOLIO] Error logging access:", accessError));
+      }
+
+      console.log(`>>> [PORTFOLIO] Success. Photos found: ${portfolio.photos.length}`);
+      res.json({ ...portfolio, viewToken: counted ? viewToken : signToken(`view:${link.id}`, PORTFOLIO_VIEW_TTL).token });
+    } catch (err: any) {
+      console.error(">>> [PORTFOLIO] Critical error:", err);
+      serverError(res, err);
+    }
+  });
+
+  // Public: Fresh photo URLs (signed URLs expire); does not count as a view
+  api.get("/api/client/:id/photo-urls", {
+    tag: "Portfolio",
+    summary: "Fresh photo URLs, for when signed URLs are about to expire",
+    access: "portfolio",
+    response: PhotoUrls
+  }, portfolioAccess, async (req, res) => {
+    try {
+      const db = getDatabase()!;
+      const { client } = res.locals;
+      await upgradeLegacyPhotos(db, client.id);
+      const { photos, urlsExpireAt } = await getPhotos(db, client.id, { clean: client.status === 'delivered', hideLegacy: true });
+      res.json({ photos: photos.map(({ legacy, ...photo }: Photo) => photo), urlsExpireAt });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Public: Client photo selection (favorites)
+  api.put("/api/client/:id/selection/:filename", {
+    tag: "Selection",
+    summary: "Add a photo to the selection",
+    access: "portfolio",
+    response: Selection
+  }, portfolioAccess, async (req, res) => {
+    const { id, filename } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const client = res.locals.client;
+      if (client.status !== 'proofing') return portfolioLocked(res, client.status);
+      if (client.selectionSubmittedAt) {
+        return sendError(res, 409, "A seleção já foi enviada e está bloqueada para alterações.", 'SELECTION_LOCKED');
+      }
+
+      if (!(await photoExists(db, id, filename))) {
+        return sendError(res, 404, "Foto não encontrada");
+      }
+
+      const selection = await getSelection(db, id);
+      if (selection.includes(filename)) return res.json({ selection });
+
+      if (client.selectionQuota && selection.length >= client.selectionQuota) {
+        return sendError(res, 409, `Limite de ${client.selectionQuota} fotos selecionadas atingido.`);
+      }
+
+      await db.selections.insert({ clientId: id, filename, createdAt: new Date() });
+      res.json({ selection: [...selection, filename] });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.delete("/api/client/:id/selection/:filename", {
+    tag: "Selection",
+    summary: "Remove a photo from the selection",
+    access: "portfolio",
+    response: Selection
+  }, portfolioAccess, async (req, res) => {
+    const { id, filename } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const client = res.locals.client;
+      if (client.status !== 'proofing') return portfolioLocked(res, client.status);
+      if (client.selectionSubmittedAt) {
+        return sendError(res, 409, "A seleção já foi enviada e está bloqueada para alterações.", 'SELECTION_LOCKED');
+      }
+
+      await db.selections.remove({ clientId: id, filename });
+      res.json({ selection: await getSelection(db, id) });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.post("/api/client/:id/selection/submit", {
+    tag: "Selection",
+    summary: "Submit the selection to the studio",
+    access: "portfolio",
+    response: SubmittedSelection
+  }, portfolioAccess, async (req, res) => {
+    const { id } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const client = res.locals.client;
+      if (client.status !== 'proofing') return portfolioLocked(res, client.status);
+      if (client.selectionSubmittedAt) {
+        return sendError(res, 409, "A seleção já foi enviada.", 'SELECTION_LOCKED');
+      }
+
+      const selection = await getSelection(db, id);
+      if (selection.length === 0) {
+        return sendError(res, 400, "Selecione ao menos uma foto antes de enviar.");
+      }
+
+      const submittedAt = new Date().toISOString();
+      await db.clients.update({ id }, { selectionSubmittedAt: submittedAt });
+      console.log(`>>> [SELECTION] Client ${id} submitted ${selection.length} photos`);
+
+      const numbers = await getPhotoNumbers(db, id);
+      await notifyStudio(db, 'selection_submitted', id, {
+        clientName: client.name,
+        count: selection.length,
+        numbers: selection.map(filename => `#${numbers.get(filename) || '?'}`)
+      });
+
+      res.json({ selection, selectionSubmittedAt: submittedAt });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Unlock a submitted selection so the client can change it again
+  api.post("/api/admin/clients/:id/selection/unlock", {
+    tag: "Selection",
+    summary: "Reopen a submitted selection",
+    access: "admin",
+    response: Success
+  }, authMiddleware, canManage, requireClientAccess(), async (req, res) => {
+    const { id } = req.params;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      await db.clients.update({ id }, { selectionSubmittedAt: null });
+      res.json({ success: true });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+};
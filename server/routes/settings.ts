@@ -0,0 +1,162 @@
+import path from "path";
+import { Branding, ConfigSummary, QuotasBody, Quotas, QuotaUsage, StorageSetup, UploadSettings, UploadSettingsBody } from "../../shared";
+import { configSummary, getConfig } from "../config";
+import { Api, databaseUnavailable, sendError, serverError } from "../http";
+import { authMiddleware, requireRole } from "../middleware/auth";
+import { upload } from "../middleware/uploads";
+import { getDatabase } from "../services/database";
+import { getQuotas, getSettings } from "../services/settings";
+import { getStorage } from "../services/storage";
+
+export const registerSettingsRoutes = (api: Api) => {
+  // Setup Storage Bucket
+  api.post("/api/admin/setup-storage", {
+    tag: "Settings",
+    summary: "Create the storage buckets",
+    access: "admin",
+    response: StorageSetup
+  }, authMiddleware, requireRole('owner'), async (req, res) => {
+    try {
+      const created = await getStorage().ensureBuckets();
+      if (created.length === 0) {
+        return res.json({ success: true, message: "Buckets já existem" });
+      }
+
+      res.json({ success: true, created });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Branding Routes
+  api.get("/api/settings", {
+    tag: "Settings",
+    summary: "Studio branding",
+    access: "public",
+    response: Branding
+  }, async (req, res) => {
+    try {
+      const settings = await getSettings();
+      res.json(settings);
+    } catch (err: any) {
+      console.error("Settings route error:", err);
+      // Return default branding if DB fails but server is up
+      res.json({ logo: null });
+    }
+  });
+
+  api.post("/api/admin/settings/logo", {
+    tag: "Settings",
+    summary: "Upload the studio logo (multipart field \"logo\")",
+    access: "admin",
+    consumes: "multipart/form-data",
+    response: Branding
+  }, authMiddleware, requireRole('owner'), upload.single("logo"), async (req, res) => {
+    if (!req.file) return sendError(res, 400, "Nenhum arquivo enviado");
+    
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const storage = getStorage();
+      await storage.ensureBuckets();
+
+      const ext = path.extname(req.file.originalname);
+      const filename = `logo${ext}`;
+      await storage.put('branding', filename, req.file.buffer, req.file.mimetype);
+
+      // Same path on every upload: version the URL so browsers and the watermark cache pick up changes
+      const publicUrl = `${storage.publicUrl('branding', filename)}?v=${Date.now()}`;
+
+      await db.settings.set('branding', { logo: publicUrl });
+
+      res.json({ logo: publicUrl });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Upload preferences: default browser-side compression preset (see src/lib/imageCompression.ts)
+  api.get("/api/admin/settings/uploads", {
+    tag: "Settings",
+    summary: "Upload preferences",
+    access: "admin",
+    response: UploadSettings
+  }, authMiddleware, async (req, res) => {
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const uploads = await db.settings.get('uploads');
+      res.json({ compressionPreset: uploads?.compressionPreset || 'balanced' });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.put("/api/admin/settings/uploads", {
+    tag: "Settings",
+    summary: "Change the upload preferences",
+    access: "admin",
+    body: UploadSettingsBody,
+    response: UploadSettings
+  }, authMiddleware, requireRole('owner'), async (req, res) => {
+    const { compressionPreset } = req.body;
+
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      await db.settings.set('uploads', { compressionPreset });
+      res.json({ compressionPreset });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Quotas
+  api.get("/api/admin/quotas", {
+    tag: "Settings",
+    summary: "Plan limits and the current client count",
+    access: "admin",
+    response: QuotaUsage
+  }, authMiddleware, async (req, res) => {
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      const quotas = await getQuotas(db);
+      res.json({ ...quotas, clients: await db.clients.count() });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.put("/api/admin/quotas", {
+    tag: "Settings",
+    summary: "Change the plan limits",
+    access: "admin",
+    body: QuotasBody,
+    response: Quotas
+  }, authMiddleware, requireRole('owner'), async (req, res) => {
+    try {
+      const db = getDatabase();
+      if (!db) return databaseUnavailable(res);
+
+      await db.settings.set('quotas', req.body);
+      res.json(req.body);
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  // Server configuration, without secret values
+  api.get("/api/admin/config", {
+    tag: "Settings",
+    summary: "Redacted server configuration",
+    access: "admin",
+    response: ConfigSummary
+  }, authMiddleware, requireRole('owner'), (req, res) => {
+    res.json(configSummary(getConfig()));
+  });
+};
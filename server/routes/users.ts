@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { Assignees, AssigneesBody, CreateUserBody, StaffUser, UpdateUserBody } from "../../shared";
+import { DatabaseError, UserRecord, Values } from "../db";
+import { Api, sendError, serverError } from "../http";
+import { authMiddleware, requireRole } from "../middleware/auth";
+import { getDatabase } from "../services/database";
+import { hashSecret } from "../services/security";
+import { publicUser } from "../services/users";
+
+// Staff user management (owner only)
+export const registerUserRoutes = (api: Api) => {
+  api.get("/api/admin/users", {
+    tag: "Users",
+    summary: "List staff users",
+    access: "admin",
+    response: z.array(StaffUser)
+  }, authMiddleware, requireRole('owner'), async (req, res) => {
+    try {
+      const users = await getDatabase()!.users.find({}, { order: [['createdAt', 'asc']] });
+      res.json(users.map(publicUser));
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.post("/api/admin/users", {
+    tag: "Users",
+    summary: "Create a staff user",
+    access: "admin",
+    body: CreateUserBody,
+    response: StaffUser
+  }, authMiddleware, requireRole('owner'), async (req, res) => {
+    const { email, name, role, password } = req.body;
+
+    try {
+      const user = await getDatabase()!.users.insert({ email, name, role, passwordHash: hashSecret(password), createdAt: new Date() });
+      res.json(publicUser(user));
+    } catch (err: any) {
+      if (err instanceof DatabaseError && err.code === 'unique_violation') {
+        return sendError(res, 409, "Já existe um usuário com este e-mail");
+      }
+      serverError(res, err);
+    }
+  });
+
+  api.patch("/api/admin/users/:userId", {
+    tag: "Users",
+    summary: "Update, disable or reset the password of a staff user",
+    access: "admin",
+    body: UpdateUserBody,
+    response: StaffUser
+  }, authMiddleware, requireRole('owner'), async (req, res) => {
+    const { userId } = req.params;
+    const { name, role, password, disabled } = req.body;
+    const changes: Values<UserRecord> = {};
+
+    if (name !== undefined) changes.name = name;
+    if (role !== undefined) changes.role = role;
+    if (password !== undefined) changes.passwordHash = hashSecret(password);
+    if (disabled !== undefined) changes.disabledAt = disabled ? new Date() : null;
+
+    try {
+      const db = getDatabase()!;
+
+      // The studio must always keep one active owner
+      if ((changes.role && changes.role !== 'owner') || changes.disabledAt) {
+        const owners = await db.users.find({ role: 'owner', disabledAt: null });
+        if (owners.every(o => o.id === userId)) {
+          return sendError(res, 409, "O estúdio precisa de ao menos um proprietário ativo");
+        }
+      }
+
+      const [user] = await db.users.update({ id: userId }, changes);
+      if (!user) return sendError(res, 404, "Usuário não encontrado");
+
+      if (changes.disabledAt || changes.passwordHash) {
+        await db.sessions.update({ userId, revokedAt: null }, { revokedAt: new Date() });
+      }
+
+      res.json(publicUser(user));
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+
+  api.put("/api/admin/clients/:id/assignees", {
+    tag: "Users",
+    summary: "Assign photographers to a client",
+    access: "admin",
+    body: AssigneesBody,
+    response: Assignees
+  }, authMiddleware, requireRole('owner'), async (req, res) => {
+    try {
+      const [client] = await getDatabase()!.clients.update({ id: req.params.id }, { assignedTo: req.body.userIds });
+      if (!client) return sendError(res, 404, "Cliente não encontrado");
+      res.json({ id: client.id, assignedTo: client.assignedTo });
+    } catch (err: any) {
+      serverError(res, err);
+    }
+  });
+};
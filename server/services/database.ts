@@ -0,0 +1,31 @@
+import { getConfig } from "../config";
+import { Database, createSupabaseDatabase, createSqliteDatabase } from "../db";
+import { getSupabase } from "./supabase";
+
+// DATABASE_DRIVER picks where records live: "supabase" (default) or "sqlite" (DATABASE_FILE, default ./data/portfolio.db).
+// The SQLite file is migrated by openDatabase() at boot, so a broken schema stops the server there.
+export const getDatabaseDriver = () => getConfig().database.driver;
+
+let sqliteDatabase: Database | null = null;
+let supabaseDatabase: { client: any; db: Database } | null = null;
+
+export const openDatabase = () => {
+  const { database } = getConfig();
+  if (database.driver === 'sqlite' && !sqliteDatabase) {
+    sqliteDatabase = createSqliteDatabase(database.file);
+  }
+};
+
+export const getDatabase = (): Database | null => {
+  if (getDatabaseDriver() === 'sqlite') {
+    if (!sqliteDatabase) openDatabase();
+    return sqliteDatabase;
+  }
+
+  const supabase = getSupabase();
+  if (!supabase) return null;
+  if (supabaseDatabase?.client !== supabase) {
+    supabaseDatabase = { client: supabase, db: createSupabaseDatabase(supabase) };
+  }
+  return supabaseDatabase.db;
+};
@@ -0,0 +1,70 @@
+import sharp from "sharp";
+import { Readable } from "stream";
+import type { DownloadScope, PortfolioClient } from "../../shared";
+import { Database, DeliveryQuality, PhotoRecord } from "../db";
+import { getAlbums, getPhotoRows, getSelection, orderPhotoRows } from "./portfolio";
+import { getStorage } from "./storage";
+
+// Delivery downloads: ZIPs are split into parts so an interrupted download only repeats one part
+const HIGH_RES_SIZE = 3000;
+const DOWNLOAD_PART_BYTES = 500 * 1024 * 1024;
+const DOWNLOAD_PART_FILES = 200;
+
+type DownloadEntry = { row: PhotoRecord; name: string; bytes: number };
+
+// Same order and numbering as the portfolio, so "012-IMG_4411.jpg" is photo 12 for the client too
+export const getDownloadParts = async (db: Database, client: PortfolioClient, scope: DownloadScope): Promise<DownloadEntry[][]> => {
+  const { rows } = orderPhotoRows(await getPhotoRows(db, client.id), await getAlbums(db, client.id));
+  const selected = scope === 'selected' ? new Set(await getSelection(db, client.id)) : null;
+  const digits = Math.max(3, String(rows.length).length);
+
+  const entries: DownloadEntry[] = rows
+    .map((row, i) => {
+      const base = (row.originalName || row.filename).replace(/[\\/:*?"<>|]+/g, '_');
+      const name = client.deliveryQuality === 'high' ? base.replace(/\.[^.]+$/, '') + '.jpg' : base;
+      return { row, name: `${String(i + 1).padStart(digits, '0')}-${name}`, bytes: Number(row.size) || 0 };
+    })
+    .filter(entry => !selected || selected.has(entry.row.filename));
+
+  const parts: DownloadEntry[][] = [];
+  let current: DownloadEntry[] = [];
+  let currentBytes = 0;
+  for (const entry of entries) {
+    if (current.length > 0 && (currentBytes + entry.bytes > DOWNLOAD_PART_BYTES || current.length >= DOWNLOAD_PART_FILES)) {
+      parts.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(entry);
+    currentBytes += entry.bytes;
+  }
+  if (current.length > 0) parts.push(current);
+  return parts;
+};
+
+// Originals as uploaded (streamed), or a clean high-res JPEG rendered on the fly
+export const readDeliveryFile = async (clientId: string, row: PhotoRecord, quality: DeliveryQuality): Promise<Buffer | Readable> => {
+  const storage = getStorage();
+  const bucket = row.legacy ? 'photos' : 'originals';
+  const objectPath = `${clientId}/${row.filename}`;
+
+  if (quality !== 'high') {
+    const file = await storage.stream(bucket, objectPath);
+    if (!file) throw new Error(`Arquivo não encontrado: ${row.filename}`);
+    return file.stream;
+  }
+
+  const file = await storage.get(bucket, objectPath);
+  if (!file) throw new Error(`Arquivo não encontrado: ${row.filename}`);
+  return sharp(file.body, { failOn: 'none' })
+    .rotate()
+    .resize({ width: HIGH_RES_SIZE, height: HIGH_RES_SIZE, fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 90, mozjpeg: true })
+    .toBuffer();
+};
+
+export const zipFilename = (clientName: string, scope: DownloadScope, part: number, parts: number) => {
+  const base = clientName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'fotos';
+  const suffix = parts > 1 ? `-parte-${part}-de-${parts}` : '';
+  return `${base}-${scope === 'selected' ? 'selecionadas' : 'todas'}${suffix}.zip`;
+};
@@ -0,0 +1,155 @@
+import fs from "fs";
+import path from "path";
+import type { CheckSample, CheckStatus, DiagnosticCheck, Diagnostics } from "../../shared";
+import { getConfig } from "../config";
+import { getDatabase } from "./database";
+import { getStudioRecipients } from "./mail";
+import { getStorage } from "./storage";
+
+export const APP_VERSION = "2.4.7";
+
+const CHECK_TIMEOUT = 5 * 1000;
+const READINESS_TIMEOUT = 2 * 1000;
+const HISTORY_SIZE = 30;
+// Free space below either limit is reported as a warning
+const LOW_DISK_BYTES = 1024 * 1024 * 1024;
+const LOW_DISK_RATIO = 0.1;
+
+type CheckName = DiagnosticCheck['name'];
+type CheckResult = Omit<DiagnosticCheck, 'name' | 'latencyMs' | 'history'>;
+
+const withTimeout = <T>(work: Promise<T>, ms: number) => {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Sem resposta em ${ms / 1000}s`)), ms);
+  });
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Latency history per check, kept in memory by this server instance
+const history = new Map<CheckName, CheckSample[]>();
+
+const record = (name: CheckName, sample: CheckSample) => {
+  const samples = [...(history.get(name) || []), sample].slice(-HISTORY_SIZE);
+  history.set(name, samples);
+  return samples;
+};
+
+const STATUS_ORDER: CheckStatus[] = ['ok', 'warn', 'error'];
+const worst = (statuses: CheckStatus[]) =>
+  statuses.reduce<CheckStatus>((a, b) => (STATUS_ORDER.indexOf(b) > STATUS_ORDER.indexOf(a) ? b : a), 'ok');
+
+const checkDatabase = async (): Promise<CheckResult> => {
+  const { driver } = getConfig().database;
+  const db = getDatabase();
+  if (!db) return { status: 'error', message: "Banco de dados não configurado", details: { driver } };
+
+  await db.ping();
+  return { status: 'ok', message: `Conectado (${driver})`, details: { driver } };
+};
+
+const checkStorage = async (): Promise<CheckResult> => {
+  const { driver } = getConfig().storage;
+  const missingBuckets = await getStorage().missingBuckets();
+  if (missingBuckets.length > 0) {
+    return { status: 'error', message: `Buckets ausentes: ${missingBuckets.join(', ')}`, details: { driver, missingBuckets } };
+  }
+  return { status: 'ok', message: `Buckets disponíveis (${driver})`, details: { driver, missingBuckets } };
+};
+
+const formatGb = (bytes: number) => `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+
+// Only the folders this server writes to: the SQLite file and local storage
+const checkDisk = async (): Promise<CheckResult> => {
+  const { database, storage } = getConfig();
+  const folders = [
+    ...(database.driver === 'sqlite' ? [{ use: 'database', path: path.dirname(database.file) }] : []),
+    ...(storage.driver === 'local' ? [{ use: 'storage', path: storage.dir }] : [])
+  ];
+  if (folders.length === 0) {
+    return { status: 'ok', message: "Sem disco local: banco e arquivos ficam no Supabase", details: { volumes: [] } };
+  }
+
+  const volumes = [];
+  for (const folder of folders) {
+    // The folder may not exist before the first write; its parent holds the same volume
+    let target = path.resolve(folder.path);
+    while (!fs.existsSync(target) && path.dirname(target) !== target) target = path.dirname(target);
+
+    const stats = await fs.promises.statfs(target);
+    const totalBytes = stats.blocks * stats.bsize;
+    const freeBytes = stats.bavail * stats.bsize;
+    volumes.push({ ...folder, totalBytes, freeBytes, low: freeBytes < LOW_DISK_BYTES || freeBytes < totalBytes * LOW_DISK_RATIO });
+  }
+
+  const low = volumes.filter(v => v.low);
+  return {
+    status: low.length > 0 ? 'warn' : 'ok',
+    message: low.length > 0
+      ? `Pouco espaço livre: ${low.map(v => `${v.path} (${formatGb(v.freeBytes)})`).join(', ')}`
+      : volumes.map(v => `${formatGb(v.freeBytes)} livres em ${v.path}`).join(', '),
+    details: { volumes }
+  };
+};
+
+// Besides the environment, whether studio alerts have anyone to go to (the bootstrap owner has no email)
+const checkConfig = async (): Promise<CheckResult> => {
+  const config = getConfig();
+  const db = getDatabase();
+  const studioRecipients = db ? (await getStudioRecipients(db)).length : null;
+  const warnings = [
+    ...config.warnings,
+    ...(studioRecipients === 0 ? ['Alertas do estúdio desativados: defina STUDIO_EMAIL ou um e-mail para um proprietário'] : [])
+  ];
+  return {
+    status: warnings.length > 0 ? 'warn' : 'ok',
+    message: warnings.length > 0 ? warnings.join(' · ') : "Configuração válida",
+    details: { environment: config.production ? 'production' : 'development', warnings, studioRecipients }
+  };
+};
+
+const CHECKS: Record<CheckName, () => Promise<CheckResult>> = {
+  database: checkDatabase,
+  storage: checkStorage,
+  disk: checkDisk,
+  config: checkConfig
+};
+
+const runCheck = async (name: CheckName): Promise<DiagnosticCheck> => {
+  const start = Date.now();
+  let result: CheckResult;
+  try {
+    result = await withTimeout(CHECKS[name](), CHECK_TIMEOUT);
+  } catch (err: any) {
+    console.error(`>>> [DIAGNOSTICS] ${name} check failed:`, err);
+    result = { status: 'error', message: err?.message || "Falha na verificação", details: {} };
+  }
+
+  const checkedAt = new Date().toISOString();
+  const latencyMs = name === 'config' ? null : Date.now() - start;
+  return { name, ...result, latencyMs, history: record(name, { checkedAt, status: result.status, latencyMs }) };
+};
+
+export const runDiagnostics = async (): Promise<Diagnostics> => {
+  const checks = await Promise.all((Object.keys(CHECKS) as CheckName[]).map(runCheck));
+  return {
+    status: worst(checks.map(c => c.status)),
+    version: APP_VERSION,
+    checkedAt: new Date().toISOString(),
+    uptimeSeconds: Math.round(process.uptime()),
+    checks
+  };
+};
+
+// Ready when the database answers; the reason stays in the server log
+export const isReady = async () => {
+  try {
+    const db = getDatabase();
+    if (!db) return false;
+    await withTimeout(db.ping(), READINESS_TIMEOUT);
+    return true;
+  } catch (err) {
+    console.error(">>> [HEALTH] Not ready:", err);
+    return false;
+  }
+};
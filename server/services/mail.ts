@@ -0,0 +1,218 @@
+import nodemailer from "nodemailer";
+import type { NotificationTemplate } from "../../shared";
+import { getConfig } from "../config";
+import { Database } from "../db";
+
+// Mail transports: SMTP when SMTP_HOST is set (a local catcher such as Mailpit works too),
+// otherwise messages are only printed to the server log
+type MailMessage = { to: string[]; subject: string; text: string; html: string };
+type MailTransport = { name: string; send: (message: MailMessage) => Promise<{ messageId: string | null }> };
+
+const consoleTransport: MailTransport = {
+  name: 'console',
+  send: async (message) => {
+    console.log(`>>> [MAIL] (console) To: ${message.to.join(', ')}\n>>> [MAIL] Subject: ${message.subject}\n${message.text}`);
+    return { messageId: null };
+  }
+};
+
+let smtpTransport: MailTransport | null = null;
+
+const getMailTransport = (): MailTransport => {
+  const { smtp } = getConfig().mail;
+  if (!smtp) return consoleTransport;
+  if (smtpTransport) return smtpTransport;
+
+  const { host, port, secure, user, pass, from } = smtp;
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined,
+    connectionTimeout: 10 * 1000,
+    greetingTimeout: 10 * 1000
+  });
+  smtpTransport = {
+    name: 'smtp',
+    send: async (message) => {
+      const info = await transporter.sendMail({ from, ...message });
+      return { messageId: info.messageId || null };
+    }
+  };
+  return smtpTransport;
+};
+
+// Notification templates (pt-BR). Each returns the subject plus text and HTML bodies.
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const mailLayout = (title: string, paragraphs: string[], action?: { label: string; url: string }) => `
+<div style="font-family:Helvetica,Arial,sans-serif;max-width:560px;margin:0 auto;padding:32px;color:#18181b">
+  <h1 style="font-size:22px;margin:0 0 24px">${escapeHtml(title)}</h1>
+  ${paragraphs.map(p => `<p style="font-size:15px;line-height:1.6;margin:0 0 16px">${escapeHtml(p)}</p>`).join('\n  ')}
+  ${action ? `<p style="margin:32px 0"><a href="${escapeHtml(action.url)}" style="background:#dc2626;color:#fff;padding:14px 24px;border-radius:10px;text-decoration:none;font-weight:bold">${escapeHtml(action.label)}</a></p>` : ''}
+</div>`;
+
+const NOTIFICATION_TEMPLATES: Record<NotificationTemplate, (data: any) => { subject: string; text: string; html: string }> = {
+  portfolio_link: ({ clientName, url, accessCode }) => {
+    const paragraphs = [
+      `Olá, ${clientName}!`,
+      'Suas fotos já estão disponíveis no seu portfólio exclusivo.',
+      ...(accessCode ? [`Código de acesso: ${accessCode}`] : [])
+    ];
+    return {
+      subject: `Seu portfólio está disponível: ${clientName}`,
+      text: `${paragraphs.join('\n\n')}\n\nAcesse: ${url}`,
+      html: mailLayout('Seu portfólio está disponível', paragraphs, { label: 'Ver minhas fotos', url })
+    };
+  },
+  selection_submitted: ({ clientName, count, numbers, url }) => {
+    const paragraphs = [
+      `${clientName} enviou a seleção com ${count} ${count === 1 ? 'foto' : 'fotos'}.`,
+      `Fotos escolhidas: ${numbers.join(', ')}`
+    ];
+    return {
+      subject: `Seleção enviada: ${clientName}`,
+      text: `${paragraphs.join('\n\n')}${url ? `\n\nPainel: ${url}` : ''}`,
+      html: mailLayout('Nova seleção recebida', paragraphs, url ? { label: 'Abrir no painel', url } : undefined)
+    };
+  },
+  // With a batch (comments held back by the studio alert interval), one message lists them all
+  client_comment: ({ clientName, photoNumber, body, batch, total, url }) => {
+    const quote = (text: string) => `“${text.length > 500 ? `${text.slice(0, 500)}…` : text}”`;
+    const digest = batch && total > 1;
+    const paragraphs = digest
+      ? [
+          `${clientName} deixou ${total} comentários:`,
+          ...batch.map((c: any) => `Foto #${c.photoNumber}: ${quote(c.body)}`),
+          ...(total > batch.length ? [`E mais ${total - batch.length} ${total - batch.length === 1 ? 'comentário' : 'comentários'}.`] : [])
+        ]
+      : [`${clientName} comentou na foto #${photoNumber}:`, quote(body)];
+    return {
+      subject: digest ? `${total} novos comentários de ${clientName}` : `Novo comentário de ${clientName} (foto #${photoNumber})`,
+      text: `${paragraphs.join('\n\n')}${url ? `\n\nPainel: ${url}` : ''}`,
+      html: mailLayout(digest ? 'Novos comentários' : 'Novo comentário', paragraphs, url ? { label: 'Responder no painel', url } : undefined)
+    };
+  }
+};
+
+// Public base URL for links in emails. Only APP_URL: the Host header of a request is chosen by
+// the caller, and studio alerts are triggered by public portfolio requests.
+export const appUrl = () => getConfig().mail.appUrl;
+
+// Renders, sends and logs a notification; never throws, the outcome is in the returned log row
+export const sendNotification = async (db: Database, template: NotificationTemplate, { clientId, to, data, sentBy = null }: { clientId: string | null; to: string[]; data: any; sentBy?: string | null }) => {
+  const message = { to, ...NOTIFICATION_TEMPLATES[template](data) };
+  const transport = getMailTransport();
+
+  let messageId: string | null = null;
+  let error: string | null = null;
+  try {
+    ({ messageId } = await transport.send(message));
+  } catch (err: any) {
+    error = err.message || 'Falha ao enviar e-mail';
+    console.error(`>>> [MAIL] Could not send ${template} to ${to.join(', ')}:`, err);
+  }
+
+  const log = await db.notifications
+    .insert({
+      clientId,
+      template,
+      recipient: to.join(', '),
+      subject: message.subject,
+      transport: transport.name,
+      status: error ? 'failed' : 'sent',
+      error,
+      messageId,
+      sentBy,
+      createdAt: new Date()
+    })
+    .catch((logError: Error) => {
+      console.error(">>> [MAIL] Error logging notification:", logError);
+      return null;
+    });
+
+  return log || { template, status: error ? 'failed' : 'sent', error };
+};
+
+// Studio alerts go to STUDIO_EMAIL, or to every active owner when it is not set
+export const getStudioRecipients = async (db: Database): Promise<string[]> => {
+  const configured = getConfig().mail.studioEmails;
+  if (configured.length > 0) return configured;
+
+  const owners = await db.users.find({ role: 'owner', disabledAt: null });
+  return owners.map(u => u.email).filter(email => email.includes('@'));
+};
+
+// Alerts that visitors can trigger at will are sent at most once per client per interval; the ones
+// held back in between go out together when the interval ends
+const STUDIO_ALERT_INTERVALS: Partial<Record<NotificationTemplate, number>> = {
+  client_comment: 10 * 60 * 1000
+};
+const MAX_HELD_ALERTS = 20;
+type HeldAlerts = { items: any[]; total: number; timer: NodeJS.Timeout | null };
+const lastStudioAlerts = new Map<string, number>();
+const heldStudioAlerts = new Map<string, HeldAlerts>();
+let warnedNoRecipients = false;
+
+// Studio alerts link to the panel only when APP_URL is set
+const sendStudioAlert = async (db: Database, template: NotificationTemplate, clientId: string, data: any) => {
+  const to = await getStudioRecipients(db);
+  if (to.length === 0) {
+    if (!warnedNoRecipients) console.warn(">>> [MAIL] Studio alerts are off: set STUDIO_EMAIL or an owner email address");
+    warnedNoRecipients = true;
+    return;
+  }
+
+  const base = appUrl();
+  await sendNotification(db, template, { clientId, to, data: { ...data, url: base ? `${base}/admin` : null } });
+};
+
+const holdStudioAlert = (key: string, data: any) => {
+  const held = heldStudioAlerts.get(key) || { items: [], total: 0, timer: null };
+  held.total++;
+  if (held.items.length < MAX_HELD_ALERTS) held.items.push(data);
+  heldStudioAlerts.set(key, held);
+  return held;
+};
+
+// Sends the held alerts as one message and starts a new interval
+const flushStudioAlerts = async (db: Database, template: NotificationTemplate, clientId: string) => {
+  const key = `${template}:${clientId}`;
+  const held = heldStudioAlerts.get(key);
+  if (!held) return;
+  heldStudioAlerts.delete(key);
+  if (held.timer) clearTimeout(held.timer);
+  lastStudioAlerts.set(key, Date.now());
+
+  await sendStudioAlert(db, template, clientId, { ...held.items[held.items.length - 1], batch: held.items, total: held.total });
+};
+
+export const notifyStudio = async (db: Database, template: NotificationTemplate, clientId: string, data: any) => {
+  try {
+    const interval = STUDIO_ALERT_INTERVALS[template];
+    if (!interval) return await sendStudioAlert(db, template, clientId, data);
+
+    const key = `${template}:${clientId}`;
+    const wait = (lastStudioAlerts.get(key) || 0) + interval - Date.now();
+    if (wait > 0) {
+      const held = holdStudioAlert(key, data);
+      held.timer ??= setTimeout(() => {
+        flushStudioAlerts(db, template, clientId).catch(err => console.error(`>>> [MAIL] Could not notify the studio (${template}):`, err));
+      }, wait);
+      held.timer.unref?.();
+      return;
+    }
+
+    // A serverless instance may have been frozen before the timer fired: send what it held along
+    if (heldStudioAlerts.has(key)) {
+      holdStudioAlert(key, data);
+      return await flushStudioAlerts(db, template, clientId);
+    }
+
+    lastStudioAlerts.set(key, Date.now());
+    await sendStudioAlert(db, template, clientId, data);
+  } catch (err: any) {
+    console.error(`>>> [MAIL] Could not notify the studio (${template}):`, err);
+  }
+};
@@ -0,0 +1,239 @@
+import sharp from "sharp";
+import exifr from "exifr";
+import { Database, PhotoRecord } from "../db";
+import { parseLocalUrl } from "../storage";
+import { getSettings } from "./settings";
+import { getStorage } from "./storage";
+
+// Watermark logo comes from the branding settings; cached per URL
+let watermarkLogo: { url: string; buffer: Buffer | null } | null = null;
+
+const getWatermarkLogo = async () => {
+  const settings = await getSettings().catch(() => ({ logo: null }));
+  if (!settings.logo) return null;
+  if (watermarkLogo?.url === settings.logo) return watermarkLogo.buffer;
+
+  let buffer: Buffer | null = null;
+  try {
+    // Local storage hands out relative URLs, which the server reads from disk instead
+    const local = parseLocalUrl(settings.logo);
+    if (local) {
+      buffer = (await getStorage().get(local.bucket, local.objectPath))?.body || null;
+    } else {
+      const response = await fetch(settings.logo);
+      if (response.ok) buffer = Buffer.from(await response.arrayBuffer());
+    }
+  } catch (e) {
+    console.error(">>> [WATERMARK] Could not load logo:", e);
+  }
+  watermarkLogo = { url: settings.logo, buffer };
+  return buffer;
+};
+
+// Applies a fixed opacity to an image by masking its alpha channel
+const withOpacity = async (image: sharp.Sharp, opacity: number) => {
+  return image
+    .ensureAlpha()
+    .composite([{ 
+      input: Buffer.from([255, 255, 255, Math.round(255 * opacity)]), 
+      raw: { width: 1, height: 1, channels: 4 }, 
+      tile: true, 
+      blend: 'dest-in' 
+    }])
+    .png()
+    .toBuffer();
+};
+
+const buildWatermark = async (width: number, height: number) => {
+  const layers: sharp.OverlayOptions[] = [];
+  const fontSize = Math.round(width / 22);
+
+  const text = `
+    <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+      <text x="50%" y="${Math.round(height * 0.62)}" text-anchor="middle" font-family="sans-serif" font-weight="700"
+        font-size="${fontSize}" letter-spacing="${Math.round(fontSize / 3)}" fill="#ffffff" fill-opacity="0.22"
+        transform="rotate(-30 ${width / 2} ${height / 2})">PROPRIEDADE DO ESTÚDIO</text>
+    </svg>`;
+  layers.push({ input: Buffer.from(text), top: 0, left: 0 });
+
+  const logo = await getWatermarkLogo();
+  if (logo) {
+    try {
+      const centerLogo = sharp(logo).resize({ width: Math.round(width * 0.45), height: Math.round(height * 0.3), fit: 'inside' }).grayscale();
+      layers.push({ input: await withOpacity(centerLogo, 0.2), gravity: 'centre' });
+
+      const cornerLogo = sharp(logo).resize({ width: Math.round(width * 0.15), height: Math.round(height * 0.08), fit: 'inside' }).grayscale();
+      const corner = await withOpacity(cornerLogo, 0.45);
+      const { width: cw = 0, height: ch = 0 } = await sharp(corner).metadata();
+      const margin = Math.round(width * 0.03);
+      layers.push({ input: corner, left: Math.max(0, width - cw - margin), top: Math.max(0, height - ch - margin) });
+    } catch (e) {
+      console.error(">>> [WATERMARK] Invalid logo image:", e);
+    }
+  }
+
+  return layers;
+};
+
+const THUMB_SIZE = 600;
+const WEB_SIZE = 1600;
+
+// Camera metadata kept from the original. An empty object means "parsed, nothing found";
+// a null column means the photo predates EXIF extraction.
+type PhotoExif = {
+  make: string | null;
+  model: string | null;
+  serialNumber: string | null;
+  lens: string | null;
+  lensSerialNumber: string | null;
+  focalLength: number | null;
+  fNumber: number | null;
+  exposureTime: number | null;
+  iso: number | null;
+  orientation: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null;
+};
+
+const exifText = (value: any) => typeof value === 'string' && value.trim() ? value.trim() : null;
+const exifNumber = (value: any) => typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// sharp exposes the raw EXIF block for every format it reads (JPEG, WebP, HEIC...);
+// exifr parses it as a TIFF once the "Exif\0\0" header is dropped
+export const readExif = async (meta: sharp.Metadata): Promise<{ capturedAt: string | null; exif: Partial<PhotoExif> }> => {
+  if (!meta.exif) return { capturedAt: null, exif: {} };
+  try {
+    const raw = meta.exif.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? meta.exif.subarray(6) : meta.exif;
+    const tags = await exifr.parse(raw, { gps: true, translateValues: false });
+    if (!tags) return { capturedAt: null, exif: {} };
+
+    const taken = tags.DateTimeOriginal || tags.CreateDate;
+    const exif: PhotoExif = {
+      make: exifText(tags.Make),
+      model: exifText(tags.Model),
+      serialNumber: exifText(tags.BodySerialNumber ?? tags.SerialNumber),
+      lens: exifText(tags.LensModel ?? tags.Lens),
+      lensSerialNumber: exifText(tags.LensSerialNumber),
+      focalLength: exifNumber(tags.FocalLength),
+      fNumber: exifNumber(tags.FNumber),
+      exposureTime: exifNumber(tags.ExposureTime),
+      iso: exifNumber(tags.ISO),
+      orientation: exifNumber(tags.Orientation) ?? meta.orientation ?? null,
+      latitude: exifNumber(tags.latitude),
+      longitude: exifNumber(tags.longitude),
+      altitude: exifNumber(tags.GPSAltitude)
+    };
+    return {
+      capturedAt: taken instanceof Date && !isNaN(taken.getTime()) ? taken.toISOString() : null,
+      exif: Object.fromEntries(Object.entries(exif).filter(([, value]) => value !== null))
+    };
+  } catch (err: any) {
+    console.error(">>> [EXIF] Could not parse metadata:", err.message);
+    return { capturedAt: null, exif: {} };
+  }
+};
+
+// The file itself could not be read or re-encoded (unsupported or corrupt image), as opposed to
+// a storage or database failure
+export class PhotoProcessingError extends Error {}
+
+const decoding = <T>(step: Promise<T>) => step.catch((err: Error) => {
+  throw new PhotoProcessingError(err.message || "Imagem ilegível");
+});
+
+// Stores the original privately and publishes thumbnail + watermarked preview; returns the upright
+// dimensions and the EXIF of the original. Derivatives are re-encoded without any metadata.
+// Direct uploads already put the original in place, so they skip that step.
+export const processAndStorePhoto = async (client: string, filename: string, buffer: Buffer, contentType: string, { storeOriginal = true } = {}) => {
+  const source = sharp(buffer, { failOn: 'none' }).rotate();
+  const meta = await decoding(sharp(buffer, { failOn: 'none' }).metadata());
+  const swapped = (meta.orientation || 1) >= 5;
+  const { capturedAt, exif } = await readExif(meta);
+
+  const web = await decoding(source.clone()
+    .resize({ width: WEB_SIZE, height: WEB_SIZE, fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 85, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true }));
+
+  const thumb = await decoding(source.clone()
+    .resize({ width: THUMB_SIZE, height: THUMB_SIZE, fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 75, mozjpeg: true })
+    .toBuffer());
+
+  const watermark = await buildWatermark(web.info.width, web.info.height);
+  const watermarked = await decoding(sharp(web.data)
+    .composite(watermark)
+    .jpeg({ quality: 80, mozjpeg: true })
+    .toBuffer());
+
+  const storage = getStorage();
+  if (storeOriginal) await storage.put('originals', `${client}/${filename}`, buffer, contentType);
+  await storage.put('originals', `web/${client}/${filename}`, web.data, 'image/jpeg');
+  await storage.put('photos', `thumbs/${client}/${filename}`, thumb, 'image/jpeg');
+  await storage.put('photos', `${client}/${filename}`, watermarked, 'image/jpeg');
+
+  return {
+    width: (swapped ? meta.height : meta.width) || null,
+    height: (swapped ? meta.width : meta.height) || null,
+    capturedAt,
+    exif
+  };
+};
+
+// Photos uploaded before derivatives existed are the raw file (full EXIF included) in the photos bucket.
+// Building their derivatives moves the original to the private bucket and puts the preview in its place.
+export const upgradeLegacyPhoto = async (db: Database, clientId: string, filename: string) => {
+  const storage = getStorage();
+  const objectPath = `${clientId}/${filename}`;
+  // The public copy is read first: a parallel upgrade stores the original before it overwrites that copy,
+  // so when the original is not there yet, what was read is still the original
+  const legacyFile = await storage.get('photos', objectPath);
+  const original = await storage.get('originals', objectPath);
+  const file = original || legacyFile;
+  if (!file) return false;
+
+  const { width, height, capturedAt, exif } = await processAndStorePhoto(clientId, filename, file.body, file.contentType || 'image/jpeg', { storeOriginal: !original });
+  await db.photos.update({ clientId, filename }, { legacy: false, width, height, capturedAt, exif, size: file.size });
+  return true;
+};
+
+// Public portfolios upgrade their legacy photos before serving them; one run per client at a time
+const legacyUpgrades = new Map<string, Promise<void>>();
+
+export const upgradeLegacyPhotos = (db: Database, clientId: string) => {
+  const running = legacyUpgrades.get(clientId);
+  if (running) return running;
+
+  const run = (async () => {
+    const legacy = await db.photos.find({ clientId, legacy: true });
+    if (legacy.length === 0) return;
+    await getStorage().ensureBuckets();
+    for (const { filename } of legacy) {
+      await upgradeLegacyPhoto(db, clientId, filename).catch((err: Error) => {
+        console.error(`>>> [DERIVATIVES] Could not upgrade ${clientId}/${filename}:`, err);
+      });
+    }
+  })().finally(() => legacyUpgrades.delete(clientId));
+
+  legacyUpgrades.set(clientId, run);
+  return run;
+};
+
+export const getNextPhotoPosition = async (db: Database, clientId: string) => {
+  const [last] = await db.photos.find({ clientId }, { order: [['position', 'desc']], limit: 1 });
+  return last ? last.position + 1 : 0;
+};
+
+export const removePhotoFiles = async (client: string, filenames: string[]) => {
+  if (filenames.length === 0) return;
+  const storage = getStorage();
+  await storage.remove('photos', filenames.flatMap(f => [`${client}/${f}`, `thumbs/${client}/${f}`]));
+  await storage.remove('originals', filenames.flatMap(f => [`${client}/${f}`, `web/${client}/${f}`])).catch(() => {});
+};
+
+// Photo count and bytes stored for a client, from its photo rows
+export const usageOf = (rows: Pick<PhotoRecord, 'size'>[]) => ({
+  photos: rows.length,
+  bytes: rows.reduce((sum, row) => sum + (Number(row.size) || 0), 0)
+});
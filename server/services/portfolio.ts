@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import type { Album, Client, ErrorCode, Photo, PhotoExif, PortfolioClient } from "../../shared";
+import { AlbumRecord, ClientRecord, Database, PhotoRecord, ShareLinkRecord } from "../db";
+import { verifyToken } from "./security";
+import { getCleanUrls, getPhotoUrls } from "./storage";
+
+export const isLinkUsable = (link: Pick<ShareLinkRecord, 'revokedAt' | 'expiresAt' | 'maxViews' | 'views'>) => {
+  if (link.revokedAt) return false;
+  if (link.expiresAt && new Date(link.expiresAt).getTime() < Date.now()) return false;
+  if (link.maxViews && link.views >= link.maxViews) return false;
+  return true;
+};
+
+// Never expose the access code hash outside the server
+export const publicClientFields = (client: ClientRecord): Client => {
+  const { accessCodeHash, ...rest } = client;
+  return { ...rest, hasAccessCode: !!accessCodeHash };
+};
+
+// Studio-only client data stays out of the public portfolio
+export const portfolioClientFields = (client: ClientRecord): PortfolioClient => {
+  const { email, phone, notes, tags, createdBy, assignedTo, ...fields } = publicClientFields(client);
+  return fields;
+};
+
+// Share links: every public request must carry a valid link of the client
+export const createShareLinkId = () => crypto.randomBytes(12).toString('hex');
+
+type LinkCheck = { link: ShareLinkRecord } | { status: number; error: string; code?: ErrorCode };
+
+// A view already counted (its token, from GET /api/client/:id) keeps working after the link runs out of views
+export const checkShareLink = async (
+  db: Database,
+  clientId: string,
+  linkId: string | undefined,
+  viewToken?: string
+): Promise<LinkCheck> => {
+  if (!linkId) return { status: 404, error: "Portfólio não encontrado" };
+
+  const link = await db.shareLinks.findOne({ id: linkId, clientId });
+
+  if (!link) return { status: 404, error: "Portfólio não encontrado" };
+  if (link.revokedAt) {
+    return { status: 410, error: "Este link foi desativado pelo estúdio", code: 'LINK_REVOKED' };
+  }
+  if (link.expiresAt && new Date(link.expiresAt).getTime() < Date.now()) {
+    return { status: 410, error: "Este link expirou", code: 'LINK_EXPIRED' };
+  }
+  if (link.maxViews && link.views >= link.maxViews && verifyToken(viewToken) !== `view:${link.id}`) {
+    return { status: 410, error: "Este link atingiu o limite de visualizações", code: 'LINK_EXPIRED' };
+  }
+  return { link };
+};
+
+// Counts a view only if the counter is still the one read (compare-and-swap), so parallel opens
+// cannot go past maxViews. False when the link ran out of views in the meantime.
+export const recordLinkView = async (db: Database, link: ShareLinkRecord) => {
+  let current: ShareLinkRecord | null = link;
+  for (let attempt = 0; attempt < 5; attempt++) {
+    if (!current || !isLinkUsable(current)) return false;
+    const [updated] = await db.shareLinks.update(
+      { id: current.id, views: current.views },
+      { views: current.views + 1, lastAccessAt: new Date() }
+    );
+    if (updated) return true;
+    current = await db.shareLinks.findOne({ id: link.id });
+  }
+  throw new Error("Falha ao registrar a visualização: acessos simultâneos demais");
+};
+
+export const getAlbums = (db: Database, clientId: string) =>
+  db.albums.find({ clientId }, { order: [['position', 'asc']] }).catch((err: Error) => {
+    throw new Error(`Falha ao buscar álbuns: ${err.message}`);
+  });
+
+export const getPhotoRows = (db: Database, clientId: string) =>
+  db.photos.find({ clientId }, { order: [['position', 'asc'], ['createdAt', 'asc']] }).catch((err: Error) => {
+    throw new Error(`Falha ao buscar fotos: ${err.message}`);
+  });
+
+export const photoExists = async (db: Database, clientId: string, filename: string) =>
+  !!(await db.photos.findOne({ clientId, filename }));
+
+const PRIVATE_EXIF_FIELDS = ['serialNumber', 'lensSerialNumber', 'latitude', 'longitude', 'altitude'];
+
+// What /api/client/:id may show: no location, no serial numbers
+const publicExif = (exif: PhotoExif | null): PhotoExif | null => {
+  if (!exif) return null;
+  const visible = Object.fromEntries(Object.entries(exif).filter(([key]) => !PRIVATE_EXIF_FIELDS.includes(key)));
+  return Object.keys(visible).length > 0 ? visible : null;
+};
+
+// Groups photo rows by album order (photos without an album last), so numbering is global
+export const orderPhotoRows = (rows: PhotoRecord[], albums: AlbumRecord[]) => {
+  const albumRank = new Map<string, number>(albums.map((a, i) => [a.id, i]));
+  const albumOf = (row: PhotoRecord): string | null => row.albumId && albumRank.has(row.albumId) ? row.albumId : null;
+  const rank = (row: PhotoRecord) => albumOf(row) ? albumRank.get(albumOf(row)!)! : albums.length;
+
+  return {
+    rows: [...rows].sort((a, b) => rank(a) - rank(b)),
+    albumOf
+  };
+};
+
+// Display numbers ("#07") as the client sees them, zero-padded like the portfolio badges
+export const getPhotoNumbers = async (db: Database, clientId: string) => {
+  const { rows } = orderPhotoRows(await getPhotoRows(db, clientId), await getAlbums(db, clientId));
+  return new Map<string, string>(rows.map((row, i) => [row.filename, String(i + 1).padStart(2, '0')]));
+};
+
+// Delivered portfolios show the clean web copy instead of the watermarked preview. Public views hide
+// legacy photos: their file is still the raw upload, with its full EXIF (see upgradeLegacyPhotos).
+export const getPhotos = async (db: Database, clientId: string, { clean = false, hideLegacy = false } = {}) => {
+  const albums = await getAlbums(db, clientId);
+  const { rows, albumOf } = orderPhotoRows(await getPhotoRows(db, clientId), albums);
+
+  // Photos uploaded before derivatives existed have no thumbnail and are still the raw file
+  const entries = rows.filter(row => !hideLegacy || !row.legacy).map(row => ({
+    row,
+    objectPath: `${clientId}/${row.filename}`,
+    thumbPath: row.legacy ? `${clientId}/${row.filename}` : `thumbs/${clientId}/${row.filename}`
+  }));
+
+  const { urls, expiresAt } = await getPhotoUrls([...new Set<string>(entries.flatMap(e => [e.objectPath, e.thumbPath]))]);
+  const cleanPath = (row: PhotoRecord) => `web/${clientId}/${row.filename}`;
+  const cleanUrls = clean
+    ? await getCleanUrls(entries.filter(e => !e.row.legacy).map(e => cleanPath(e.row)))
+    : { urls: {} as Record<string, string>, expiresAt: null };
+
+  const photos: Photo[] = entries.map(({ row, objectPath, thumbPath }) => ({
+    url: cleanUrls.urls[cleanPath(row)] || urls[objectPath],
+    thumbUrl: urls[thumbPath],
+    name: row.filename,
+    caption: row.caption || null,
+    width: row.width || null,
+    height: row.height || null,
+    capturedAt: row.capturedAt || null,
+    exif: publicExif(row.exif),
+    albumId: albumOf(row),
+    legacy: !!row.legacy
+  }));
+  const albumList: Album[] = albums.map(a => ({
+    id: a.id,
+    name: a.name,
+    position: a.position,
+    filenames: photos.filter(p => p.albumId === a.id).map(p => p.name)
+  }));
+  const urlsExpireAt = [expiresAt, cleanUrls.expiresAt].filter(Boolean).sort()[0] || null;
+  return { photos, albums: albumList, urlsExpireAt };
+};
+
+// Builds the portfolio payload (client, albums, photos and selection)
+export const getPortfolio = async <C extends Pick<Client, 'id' | 'status'>>(db: Database, client: C, { hideLegacy = false } = {}) => {
+  const { photos, albums, urlsExpireAt } = await getPhotos(db, client.id, { clean: client.status === 'delivered', hideLegacy });
+  const selection = await getSelection(db, client.id);
+  return { ...client, albums, photos, urlsExpireAt, selection };
+};
+
+// Helper for per-photo comment threads
+export const getComments = (db: Database, clientId: string, filename?: string) =>
+  db.comments.find({ clientId, filename }, { order: [['createdAt', 'asc']] }).catch((err: Error) => {
+    throw new Error(`Falha ao buscar comentários: ${err.message}`);
+  });
+
+// Helpers for the client photo selection
+export const getSelection = async (db: Database, clientId: string): Promise<string[]> => {
+  const rows = await db.selections.find({ clientId }, { order: [['createdAt', 'asc']] }).catch((err: Error) => {
+    throw new Error(`Falha ao buscar seleção: ${err.message}`);
+  });
+  return rows.map(s => s.filename);
+};
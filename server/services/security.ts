@@ -0,0 +1,126 @@
+import crypto from "crypto";
+import { getConfig } from "../config";
+
+// Secrets (scrypt hashes), signed tokens and attempt limiting
+export const hashSecret = (secret: string) => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(secret, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+};
+
+export const verifySecret = (secret: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(secret, salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+};
+
+// Tokens are signed with SESSION_SECRET, or a key derived from the service key when it is not set
+const getTokenSecret = () => {
+  const { auth, supabase } = getConfig();
+  return auth.sessionSecret || crypto
+    .createHash('sha256')
+    .update(`cineport:${supabase?.serviceRoleKey || auth.adminPassword}`)
+    .digest('hex');
+};
+
+export const signToken = (subject: string, ttlSeconds: number) => {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const payload = `${Buffer.from(subject).toString('base64url')}.${expiresAt}`;
+  const signature = crypto.createHmac('sha256', getTokenSecret()).update(payload).digest('base64url');
+  return { token: `${payload}.${signature}`, expiresAt: new Date(expiresAt * 1000).toISOString() };
+};
+
+export const verifyToken = (token: string | undefined): string | null => {
+  if (!token) return null;
+  const [subject, expiresAt, signature] = token.split('.');
+  if (!subject || !expiresAt || !signature) return null;
+
+  const expected = crypto.createHmac('sha256', getTokenSecret()).update(`${subject}.${expiresAt}`).digest('base64url');
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null;
+  }
+  if (Number(expiresAt) * 1000 < Date.now()) return null;
+  return Buffer.from(subject, 'base64url').toString();
+};
+
+export const hashIp = (ip: string | undefined) => {
+  if (!ip) return null;
+  return crypto.createHmac('sha256', getTokenSecret()).update(ip).digest('hex').slice(0, 32);
+};
+
+// In-memory attempt limiter (per server instance)
+export const createAttemptLimiter = (maxAttempts: number, windowMs: number) => {
+  const attempts = new Map<string, { count: number; resetAt: number }>();
+
+  const current = (key: string) => {
+    const entry = attempts.get(key);
+    if (entry && entry.resetAt < Date.now()) {
+      attempts.delete(key);
+      return null;
+    }
+    return entry || null;
+  };
+
+  return {
+    isBlocked: (key: string) => (current(key)?.count || 0) >= maxAttempts,
+    fail: (key: string) => {
+      const entry = current(key) || { count: 0, resetAt: Date.now() + windowMs };
+      entry.count++;
+      attempts.set(key, entry);
+    },
+    reset: (key: string) => {
+      attempts.delete(key);
+    }
+  };
+};
+
+// In-memory backoff per key (per server instance): the first failures are free, then each one doubles
+// the wait up to maxDelayMs. Attempts made while waiting are rejected without counting, so a lock can
+// never be stretched beyond maxDelayMs, and a success clears the key.
+export const createBackoffLimiter = ({ freeAttempts, baseDelayMs, maxDelayMs, forgetAfterMs }: {
+  freeAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  forgetAfterMs: number;
+}) => {
+  const entries = new Map<string, { failures: number; blockedUntil: number; lastFailureAt: number }>();
+
+  const current = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.lastFailureAt + forgetAfterMs < Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry || null;
+  };
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.lastFailureAt + forgetAfterMs < now) entries.delete(key);
+    }
+  };
+
+  return {
+    // Milliseconds until the key may try again; 0 when it may try now
+    retryAfter: (key: string) => Math.max(0, (current(key)?.blockedUntil || 0) - Date.now()),
+    fail: (key: string) => {
+      if (entries.size > 10000) prune();
+      const entry = current(key) || { failures: 0, blockedUntil: 0, lastFailureAt: 0 };
+      entry.failures++;
+      entry.lastFailureAt = Date.now();
+      if (entry.failures > freeAttempts) {
+        entry.blockedUntil = Date.now() + Math.min(baseDelayMs * 2 ** (entry.failures - freeAttempts - 1), maxDelayMs);
+      }
+      entries.set(key, entry);
+    },
+    reset: (key: string) => {
+      entries.delete(key);
+    }
+  };
+};
+
+// Legacy single admin password; it seeds the owner account and the token secret fallback
+export const getAdminPassword = () => getConfig().auth.adminPassword;
@@ -0,0 +1,60 @@
+import type { Branding, Quotas } from "../../shared";
+import { getConfig } from "../config";
+import { Database } from "../db";
+import { getDatabase } from "./database";
+import { getStorage } from "./storage";
+
+// Logos uploaded before the branding bucket existed live at photos/branding/logo.<ext>, which stops
+// resolving once the photos bucket is private. They are copied to the branding bucket on first read.
+const LEGACY_LOGO = /\/photos\/branding\/(logo[^/?]*)/;
+
+const moveLegacyLogo = async (db: Database, branding: Branding): Promise<Branding> => {
+  const filename = branding.logo && LEGACY_LOGO.exec(branding.logo)?.[1];
+  if (!filename) return branding;
+
+  try {
+    const storage = getStorage();
+    const file = await storage.get('photos', `branding/${filename}`);
+    if (!file) return branding;
+
+    await storage.ensureBuckets();
+    await storage.put('branding', filename, file.body, file.contentType || 'image/png');
+    const logo = `${storage.publicUrl('branding', filename)}?v=${Date.now()}`;
+    await db.settings.set('branding', { logo });
+    console.log(`>>> [SETTINGS] Studio logo moved to branding/${filename}`);
+    return { logo };
+  } catch (err) {
+    console.error(">>> [SETTINGS] Could not move the studio logo to the branding bucket:", err);
+    return branding;
+  }
+};
+
+// Branding settings (studio logo)
+export const getSettings = async (): Promise<Branding> => {
+  try {
+    const db = getDatabase();
+    if (!db) throw new Error("Banco de dados não inicializado");
+
+    const branding = await db.settings.get('branding').catch((err: Error) => {
+      console.error("Error fetching settings from DB:", err);
+      throw new Error(`Falha ao buscar configurações: ${err.message}`);
+    });
+    return branding ? await moveLegacyLogo(db, branding) : { logo: null };
+  } catch (e: any) {
+    console.error("Critical error in getSettings:", e);
+    throw e;
+  }
+};
+
+// Plan limits, stored in settings under 'quotas'; missing keys fall back to the configured defaults
+export const getQuotas = async (db: Database): Promise<Quotas> => {
+  const stored = await db.settings.get('quotas').catch((err: Error) => {
+    throw new Error(`Falha ao buscar limites: ${err.message}`);
+  });
+  return { ...getConfig().defaultQuotas, ...(stored || {}) };
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+    : `${Math.round(bytes / (1024 * 1024))} MB`;
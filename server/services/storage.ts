@@ -0,0 +1,85 @@
+import { MAX_FILE_SIZE_CEILING } from "../../shared";
+import { getConfig } from "../config";
+import { StorageDriver, BucketSpec, createSupabaseStorage, createLocalStorage } from "../storage";
+import { signToken, verifyToken } from "./security";
+import { getSupabase } from "./supabase";
+
+// Storage layout:
+//   photos/<client>/<file>         watermarked preview (public, or signed URLs when private)
+//   photos/thumbs/<client>/<file>  thumbnail (same as above)
+//   branding/logo.<ext>            studio logo (always public)
+//   originals/<client>/<file>      original upload (private)
+//   originals/web/<client>/<file>  clean web-size preview (private)
+export const UPLOAD_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Photo URLs: public links, or signed links that expire when STORAGE_PRIVATE is on
+export const isPrivateStorage = () => getConfig().storage.private;
+const getPhotoUrlTtl = () => getConfig().storage.photoUrlTtl; // seconds
+
+// Originals are uploaded directly by the browser, so the bucket allows the largest configurable file
+const bucketSpecs = (): BucketSpec[] => [
+  { name: 'photos', public: !isPrivateStorage(), allowedMimeTypes: UPLOAD_MIME_TYPES, fileSizeLimit: 5 * 1024 * 1024 },
+  { name: 'branding', public: true, allowedMimeTypes: [...UPLOAD_MIME_TYPES, 'image/svg+xml'] },
+  { name: 'originals', public: false, allowedMimeTypes: UPLOAD_MIME_TYPES, fileSizeLimit: MAX_FILE_SIZE_CEILING }
+];
+
+// STORAGE_DRIVER picks where files live: "supabase" (default) or "local" (STORAGE_DIR, default ./storage).
+// Local files are served by this server (see createApp), so it also works offline or on a studio NAS.
+export const getStorageDriver = () => getConfig().storage.driver;
+
+let localFiles: ReturnType<typeof createLocalStorage> | null = null;
+let supabaseStorage: { client: any; driver: StorageDriver } | null = null;
+
+export const openStorage = () => {
+  const { storage } = getConfig();
+  if (storage.driver === 'local' && !localFiles) {
+    localFiles = createLocalStorage({
+      root: storage.dir,
+      buckets: bucketSpecs,
+      sign: (subject, ttl) => signToken(subject, ttl).token,
+      verify: verifyToken
+    });
+  }
+  return localFiles;
+};
+
+export const getLocalFiles = () => {
+  if (getStorageDriver() !== 'local') return null;
+  return localFiles || openStorage();
+};
+
+export const getStorage = (): StorageDriver => {
+  const local = getLocalFiles();
+  if (local) return local.driver;
+
+  const supabase = getSupabase();
+  if (!supabase) throw new Error("Storage não configurado: defina o Supabase ou STORAGE_DRIVER=local");
+  if (supabaseStorage?.client !== supabase) {
+    supabaseStorage = { client: supabase, driver: createSupabaseStorage(supabase, bucketSpecs) };
+  }
+  return supabaseStorage.driver;
+};
+
+export const getPhotoUrls = async (objectPaths: string[]) => {
+  const storage = getStorage();
+  const urls: Record<string, string> = {};
+
+  if (!isPrivateStorage()) {
+    for (const objectPath of objectPaths) {
+      urls[objectPath] = storage.publicUrl('photos', objectPath);
+    }
+    return { urls, expiresAt: null };
+  }
+
+  const ttl = getPhotoUrlTtl();
+  const expiresAt = new Date(Date.now() + ttl * 1000).toISOString();
+  return { urls: await storage.signedUrls('photos', objectPaths, ttl), expiresAt };
+};
+
+// Clean copies live in the private originals bucket, so their URLs are always signed
+export const getCleanUrls = async (objectPaths: string[]) => {
+  const ttl = getPhotoUrlTtl();
+  const expiresAt = new Date(Date.now() + ttl * 1000).toISOString();
+  if (objectPaths.length === 0) return { urls: {} as Record<string, string>, expiresAt: null };
+  return { urls: await getStorage().signedUrls('originals', objectPaths, ttl), expiresAt };
+};
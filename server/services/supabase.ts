@@ -0,0 +1,18 @@
+import { createClient } from "@supabase/supabase-js";
+import { getConfig } from "../config";
+
+// Supabase client, created on first use from SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+let supabaseClient: any = null;
+
+export const getSupabase = () => {
+  const { supabase } = getConfig();
+  if (!supabase) return null;
+
+  try {
+    if (!supabaseClient) supabaseClient = createClient(supabase.url, supabase.serviceRoleKey);
+    return supabaseClient;
+  } catch (e) {
+    console.error(">>> [SUPABASE INITIALIZATION ERROR]", e);
+    return null;
+  }
+};
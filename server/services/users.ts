@@ -0,0 +1,52 @@
+import type { StaffUser } from "../../shared";
+import { getConfig } from "../config";
+import { Database, UserRecord } from "../db";
+import { getAdminPassword, hashSecret, verifySecret } from "./security";
+
+// Admin password hash: ADMIN_PASSWORD_HASH, else the hash stored in settings,
+// which is created from ADMIN_PASSWORD on first use so the plain value is never compared directly
+export const getAdminPasswordHash = async (db: Database) => {
+  const envHash = getConfig().auth.adminPasswordHash;
+  if (envHash) return envHash;
+
+  const stored = await db.settings.get('admin');
+  if (stored?.passwordHash) return stored.passwordHash;
+
+  const passwordHash = hashSecret(getAdminPassword());
+  await db.settings.set('admin', { passwordHash }).catch((err: Error) => {
+    throw new Error(`Falha ao salvar credenciais: ${err.message}`);
+  });
+  return passwordHash;
+};
+
+export const publicUser = (user: UserRecord): StaffUser => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  createdAt: user.createdAt,
+  disabledAt: user.disabledAt || null
+});
+
+// An install without users gets its owner on the first login with the legacy admin password
+export const bootstrapOwner = async (db: Database, email: string, password: string) => {
+  if (await db.users.count() > 0) return null;
+
+  const passwordHash = await getAdminPasswordHash(db);
+  if (!verifySecret(password, passwordHash)) return null;
+
+  const owner = await db.users
+    .insert({ email, name: 'Proprietário', role: 'owner', passwordHash, createdAt: new Date() })
+    .catch((err: Error) => {
+      throw new Error(`Falha ao criar proprietário: ${err.message}`);
+    });
+
+  console.log(">>> [AUTH] Owner account created from the admin password");
+  return owner;
+};
+
+export const getUserNames = async (db: Database) => {
+  const names: Record<string, string> = {};
+  for (const u of await db.users.find()) names[u.id] = u.name;
+  return names;
+};
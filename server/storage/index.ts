@@ -0,0 +1,3 @@
+export type { Bucket, BucketSpec, StorageDriver, StoredObject, ObjectStream } from "./types";
+export { createSupabaseStorage } from "./supabase";
+export { createLocalStorage, parseLocalUrl, LOCAL_STORAGE_ROUTE } from "./local";
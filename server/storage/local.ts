@@ -0,0 +1,218 @@
+import express from "express";
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { Bucket, BucketSpec, StorageDriver } from "./types";
+
+// Files under <root>/<bucket>/<object path>, served by the API itself:
+//   GET /api/storage/<bucket>/<path>              public buckets
+//   GET /api/storage/<bucket>/<path>?token=...    private buckets (signed, expiring)
+//   PUT /api/storage/<bucket>/<path>?token=...    direct uploads from the browser
+export const LOCAL_STORAGE_ROUTE = '/api/storage';
+
+export interface LocalStorageOptions {
+  root: string;
+  buckets: () => BucketSpec[];
+  sign: (subject: string, ttlSeconds: number) => string;
+  verify: (token: string | undefined) => string | null;
+}
+
+const UPLOAD_URL_TTL = 2 * 60 * 60; // seconds, same as Supabase signed upload URLs
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml'
+};
+
+const contentTypeOf = (objectPath: string) => CONTENT_TYPES[path.extname(objectPath).toLowerCase()] || 'application/octet-stream';
+
+const encodePath = (objectPath: string) => objectPath.split('/').map(encodeURIComponent).join('/');
+
+// Subjects bind a token to one object and one operation
+const readSubject = (bucket: string, objectPath: string) => `storage:get:${bucket}/${objectPath}`;
+const writeSubject = (bucket: string, objectPath: string) => `storage:put:${bucket}/${objectPath}`;
+
+export const createLocalStorage = ({ root, buckets, sign, verify }: LocalStorageOptions) => {
+  const baseDir = path.resolve(root);
+
+  const specOf = (bucket: string) => buckets().find(b => b.name === bucket);
+
+  // Rejects anything that would escape the bucket directory
+  const resolve = (bucket: string, objectPath: string) => {
+    if (!specOf(bucket)) throw new Error(`Bucket desconhecido: ${bucket}`);
+    const bucketDir = path.join(baseDir, bucket);
+    const file = path.resolve(bucketDir, objectPath);
+    if (!objectPath || !file.startsWith(bucketDir + path.sep)) throw new Error(`Caminho inválido: ${objectPath}`);
+    return file;
+  };
+
+  const urlOf = (bucket: string, objectPath: string) => `${LOCAL_STORAGE_ROUTE}/${bucket}/${encodePath(objectPath)}`;
+
+  const exists = (file: string) => fs.promises.stat(file).then(stat => stat.isFile() ? stat : null, () => null);
+
+  const driver: StorageDriver = {
+    name: 'local',
+
+    async ensureBuckets() {
+      const created: string[] = [];
+      for (const spec of buckets()) {
+        const dir = path.join(baseDir, spec.name);
+        if (!fs.existsSync(dir)) created.push(spec.name);
+        await fs.promises.mkdir(dir, { recursive: true });
+      }
+      return created;
+    },
+
+    async missingBuckets() {
+      return buckets().map(spec => spec.name).filter(name => !fs.existsSync(path.join(baseDir, name)));
+    },
+
+    // Written to a temporary file first so readers never see half a file
+    async put(bucket, objectPath, body) {
+      const file = resolve(bucket, objectPath);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      const temp = `${file}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+      await fs.promises.writeFile(temp, body);
+      await fs.promises.rename(temp, file);
+    },
+
+    async get(bucket, objectPath) {
+      const file = resolve(bucket, objectPath);
+      const stat = await exists(file);
+      if (!stat) return null;
+      return { body: await fs.promises.readFile(file), contentType: contentTypeOf(file), size: stat.size };
+    },
+
+    async stream(bucket, objectPath) {
+      const file = resolve(bucket, objectPath);
+      const stat = await exists(file);
+      if (!stat) return null;
+      return { stream: fs.createReadStream(file), contentType: contentTypeOf(file), size: stat.size };
+    },
+
+    async remove(bucket, objectPaths) {
+      for (const objectPath of objectPaths) {
+        await fs.promises.rm(resolve(bucket, objectPath), { force: true });
+      }
+    },
+
+    async list(bucket, prefix) {
+      const dir = path.join(baseDir, bucket, prefix);
+      // A missing folder is an empty listing; any other failure must not look like one
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch((err: NodeJS.ErrnoException) => {
+        if (err.code === 'ENOENT') return [];
+        throw err;
+      });
+      return entries
+        .filter(entry => entry.isFile() && !entry.name.endsWith('.tmp'))
+        .map(entry => `${prefix}/${entry.name}`);
+    },
+
+    publicUrl(bucket, objectPath) {
+      return urlOf(bucket, objectPath);
+    },
+
+    async signedUrls(bucket, objectPaths, ttlSeconds) {
+      const urls: Record<string, string> = {};
+      for (const objectPath of objectPaths) {
+        resolve(bucket, objectPath);
+        urls[objectPath] = `${urlOf(bucket, objectPath)}?token=${sign(readSubject(bucket, objectPath), ttlSeconds)}`;
+      }
+      return urls;
+    },
+
+    async signedUploadUrl(bucket, objectPath) {
+      resolve(bucket, objectPath);
+      return `${urlOf(bucket, objectPath)}?token=${sign(writeSubject(bucket, objectPath), UPLOAD_URL_TTL)}`;
+    }
+  };
+
+  // Same rules as the Supabase buckets: public buckets are open, private ones need a signed URL,
+  // uploads need a signed upload URL and respect the bucket's MIME types and size limit
+  const router = express.Router();
+
+  router.get('/:bucket/*', async (req, res) => {
+    const bucket = req.params.bucket;
+    const objectPath = (req.params as any)[0] as string;
+    const spec = specOf(bucket);
+    if (!spec) return res.status(404).json({ error: "Arquivo não encontrado" });
+
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+    if (!spec.public && verify(token) !== readSubject(bucket, objectPath)) {
+      return res.status(403).json({ error: "Link expirado ou inválido" });
+    }
+
+    try {
+      const file = resolve(bucket, objectPath);
+      if (!(await exists(file))) return res.status(404).json({ error: "Arquivo não encontrado" });
+      res.setHeader('Cache-Control', spec.public ? 'public, max-age=3600' : 'private, max-age=3600');
+      res.sendFile(file, { headers: { 'Content-Type': contentTypeOf(file) } });
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  router.put('/:bucket/*', async (req, res) => {
+    const bucket = req.params.bucket as Bucket;
+    const objectPath = (req.params as any)[0] as string;
+    const spec = specOf(bucket);
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+    if (!spec || verify(token) !== writeSubject(bucket, objectPath)) {
+      return res.status(403).json({ error: "Link de envio expirado ou inválido" });
+    }
+
+    const contentType = String(req.get('content-type') || '').split(';')[0].trim();
+    if (!spec.allowedMimeTypes.includes(contentType)) {
+      return res.status(415).json({ error: `Formato não suportado: ${contentType || 'desconhecido'}` });
+    }
+    const declared = Number(req.get('content-length'));
+    if (spec.fileSizeLimit && declared > spec.fileSizeLimit) {
+      return res.status(413).json({ error: "Arquivo acima do limite" });
+    }
+
+    let file: string;
+    try {
+      file = resolve(bucket, objectPath);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+
+    // Streamed to disk with a running size check, never buffered in memory
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    let received = 0;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (spec.fileSizeLimit && received > spec.fileSizeLimit) return callback(new Error("Arquivo acima do limite"));
+        callback(null, chunk);
+      }
+    });
+
+    try {
+      await pipeline(req, limit, fs.createWriteStream(temp));
+      await fs.promises.rename(temp, file);
+      res.json({ Key: `${bucket}/${objectPath}` });
+    } catch (err: any) {
+      await fs.promises.rm(temp, { force: true });
+      if (res.headersSent) return;
+      const tooLarge = !!spec.fileSizeLimit && received > spec.fileSizeLimit;
+      res.status(tooLarge ? 413 : 500).set('Connection', 'close').json({ error: err.message });
+    }
+  });
+
+  return { driver, router };
+};
+
+// Object behind a URL this driver handed out, e.g. the stored logo URL (server-side fetch needs an absolute URL)
+export const parseLocalUrl = (url: string): { bucket: Bucket; objectPath: string } | null => {
+  if (!url.startsWith(`${LOCAL_STORAGE_ROUTE}/`)) return null;
+  const [bucket, ...rest] = url.slice(LOCAL_STORAGE_ROUTE.length + 1).split('?')[0].split('/');
+  if (!bucket || rest.length === 0) return null;
+  return { bucket: bucket as Bucket, objectPath: rest.map(decodeURIComponent).join('/') };
+};
@@ -0,0 +1,115 @@
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { BucketSpec, StorageDriver } from "./types";
+
+const LIST_PAGE_SIZE = 1000;
+
+// Supabase Storage buckets; the service role key bypasses RLS
+export const createSupabaseStorage = (supabase: SupabaseClient, buckets: () => BucketSpec[]): StorageDriver => {
+  const from = (bucket: string) => supabase.storage.from(bucket);
+
+  return {
+    name: 'supabase',
+
+    async ensureBuckets() {
+      const { data: existing } = await supabase.storage.listBuckets();
+      const created: string[] = [];
+
+      for (const spec of buckets()) {
+        const options = {
+          public: spec.public,
+          allowedMimeTypes: spec.allowedMimeTypes,
+          ...(spec.fileSizeLimit ? { fileSizeLimit: spec.fileSizeLimit } : {})
+        };
+        const bucket = existing?.find(b => b.name === spec.name);
+
+        if (!bucket) {
+          const { error } = await supabase.storage.createBucket(spec.name, options);
+          if (error && !error.message.includes('already exists')) throw new Error(error.message);
+          created.push(spec.name);
+        } else if (bucket.public !== spec.public || (spec.fileSizeLimit && bucket.file_size_limit && bucket.file_size_limit < spec.fileSizeLimit)) {
+          const { error } = await supabase.storage.updateBucket(spec.name, options);
+          if (error) throw new Error(error.message);
+        }
+      }
+      return created;
+    },
+
+    async missingBuckets() {
+      const { data: existing, error } = await supabase.storage.listBuckets();
+      if (error) throw new Error(error.message);
+      return buckets().map(spec => spec.name).filter(name => !existing?.some(b => b.name === name));
+    },
+
+    async put(bucket, objectPath, body, contentType) {
+      const { error } = await from(bucket).upload(objectPath, body, { contentType, upsert: true });
+      if (error) {
+        const msg = error.message || "Erro desconhecido";
+        const hint = msg.includes("security policy") ? " Erro de Permissão (RLS). Use a chave 'service_role'." : "";
+        throw new Error(`${msg}${hint}`);
+      }
+    },
+
+    async get(bucket, objectPath) {
+      const { data: blob, error } = await from(bucket).download(objectPath);
+      if (error || !blob) return null;
+      return { body: Buffer.from(await blob.arrayBuffer()), contentType: blob.type, size: blob.size };
+    },
+
+    // download() buffers the whole file, so streams go through a short-lived signed URL
+    async stream(bucket, objectPath) {
+      const { data, error } = await from(bucket).createSignedUrl(objectPath, 60);
+      if (error || !data) return null;
+      const response = await fetch(data.signedUrl);
+      if (!response.ok || !response.body) return null;
+      const length = Number(response.headers.get('content-length'));
+      return {
+        stream: Readable.fromWeb(response.body as WebReadableStream),
+        contentType: response.headers.get('content-type') || 'application/octet-stream',
+        size: Number.isFinite(length) && length > 0 ? length : null
+      };
+    },
+
+    async remove(bucket, objectPaths) {
+      if (objectPaths.length === 0) return;
+      const { error } = await from(bucket).remove(objectPaths);
+      if (error) throw new Error(error.message);
+    },
+
+    // Paged: a listing is used to decide what exists, so it must be complete or fail
+    async list(bucket, prefix) {
+      const paths: string[] = [];
+      for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const { data, error } = await from(bucket).list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+        if (error) throw new Error(`Falha ao listar ${bucket}/${prefix}: ${error.message}`);
+        for (const f of data || []) {
+          if (f.id && f.name !== '.emptyFolderPlaceholder') paths.push(`${prefix}/${f.name}`);
+        }
+        if (!data || data.length < LIST_PAGE_SIZE) return paths;
+      }
+    },
+
+    publicUrl(bucket, objectPath) {
+      return from(bucket).getPublicUrl(objectPath).data.publicUrl;
+    },
+
+    async signedUrls(bucket, objectPaths, ttlSeconds) {
+      const urls: Record<string, string> = {};
+      if (objectPaths.length === 0) return urls;
+
+      const { data, error } = await from(bucket).createSignedUrls(objectPaths, ttlSeconds);
+      if (error) throw new Error(`Falha ao assinar URLs das fotos: ${error.message}`);
+      for (const item of data || []) {
+        if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+      }
+      return urls;
+    },
+
+    async signedUploadUrl(bucket, objectPath) {
+      const { data, error } = await from(bucket).createSignedUploadUrl(objectPath);
+      if (error) throw new Error(`Falha ao preparar envio: ${error.message}`);
+      return data.signedUrl;
+    }
+  };
+};
@@ -0,0 +1,42 @@
+import type { Readable } from "stream";
+
+export type Bucket = 'photos' | 'originals' | 'branding';
+
+export interface BucketSpec {
+  name: Bucket;
+  public: boolean;
+  allowedMimeTypes: string[];
+  fileSizeLimit?: number;
+}
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+  size: number;
+}
+
+export interface ObjectStream {
+  stream: Readable;
+  contentType: string;
+  size: number | null;
+}
+
+// Everything the server does with files. Object paths are relative to the bucket ("<client>/<file>").
+export interface StorageDriver {
+  readonly name: 'supabase' | 'local';
+  // Creates missing buckets (and fixes their settings); returns the names it created
+  ensureBuckets(): Promise<string[]>;
+  // Buckets that do not exist yet; read-only, for diagnostics
+  missingBuckets(): Promise<Bucket[]>;
+  put(bucket: Bucket, objectPath: string, body: Buffer, contentType: string): Promise<void>;
+  get(bucket: Bucket, objectPath: string): Promise<StoredObject | null>;
+  stream(bucket: Bucket, objectPath: string): Promise<ObjectStream | null>;
+  remove(bucket: Bucket, objectPaths: string[]): Promise<void>;
+  // Full paths of the files directly under the prefix; complete, or throws
+  list(bucket: Bucket, prefix: string): Promise<string[]>;
+  publicUrl(bucket: Bucket, objectPath: string): string;
+  // Keyed by object path; paths that do not exist may be missing
+  signedUrls(bucket: Bucket, objectPaths: string[], ttlSeconds: number): Promise<Record<string, string>>;
+  // URL the browser PUTs a file to
+  signedUploadUrl(bucket: Bucket, objectPath: string): Promise<string>;
+}
@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+// Every error response is { error, code }: a pt-BR message for people and a stable code for the UI
+export const ERROR_CODES = [
+  // Generic codes, one per HTTP status
+  'VALIDATION_ERROR',
+  'BAD_REQUEST',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'CONFLICT',
+  'GONE',
+  'PAYLOAD_TOO_LARGE',
+  'UNPROCESSABLE',
+  'TOO_MANY_REQUESTS',
+  'INTERNAL_ERROR',
+  'DATABASE_ERROR',
+  'BAD_GATEWAY',
+  'SERVICE_UNAVAILABLE',
+  // Codes the UI reacts to
+  'ACCESS_CODE_REQUIRED',
+  'LINK_EXPIRED',
+  'LINK_REVOKED',
+  'PORTFOLIO_LOCKED',
+  'SELECTION_LOCKED',
+  'QUOTA_EXCEEDED',
+  'INVALID_STATUS_TRANSITION',
+  'DELIVERY_DISABLED'
+] as const;
+
+export const ErrorCode = z.enum(ERROR_CODES).meta({ id: 'ErrorCode' });
+export type ErrorCode = z.infer<typeof ErrorCode>;
+
+export const ValidationIssue = z.object({
+  path: z.string(),
+  message: z.string()
+});
+export type ValidationIssue = z.infer<typeof ValidationIssue>;
+
+export const ApiError = z.object({
+  error: z.string(),
+  code: ErrorCode,
+  // Only on VALIDATION_ERROR: one entry per invalid field
+  issues: z.array(ValidationIssue).optional()
+}).meta({ id: 'ApiError' });
+export type ApiError = z.infer<typeof ApiError>;
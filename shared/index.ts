@@ -0,0 +1,4 @@
+// Contracts shared by the server (api/, server/) and the UI (src/)
+export * from "./errors";
+export * from "./models";
+export * from "./requests";
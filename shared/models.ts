@@ -0,0 +1,499 @@
+import { z } from "zod";
+
+// Response bodies of the API. The server documents them in /api/docs and the UI uses the inferred types.
+
+// Timestamps are ISO 8601 strings; event dates are plain YYYY-MM-DD
+const Timestamp = z.string().meta({ format: 'date-time' });
+const CalendarDate = z.string().meta({ format: 'date' });
+
+export const ClientStatus = z.enum(['proofing', 'editing', 'delivered']).meta({ id: 'ClientStatus' });
+export type ClientStatus = z.infer<typeof ClientStatus>;
+
+export const DeliveryQuality = z.enum(['original', 'high']).meta({ id: 'DeliveryQuality' });
+export type DeliveryQuality = z.infer<typeof DeliveryQuality>;
+
+export const UserRole = z.enum(['owner', 'photographer', 'viewer']).meta({ id: 'UserRole' });
+export type UserRole = z.infer<typeof UserRole>;
+
+export const DownloadScope = z.enum(['all', 'selected']).meta({ id: 'DownloadScope' });
+export type DownloadScope = z.infer<typeof DownloadScope>;
+
+export const CompressionPresetId = z.enum(['original', 'high', 'balanced', 'web']).meta({ id: 'CompressionPresetId' });
+export type CompressionPresetId = z.infer<typeof CompressionPresetId>;
+
+export const NotificationTemplate = z.enum(['portfolio_link', 'selection_submitted', 'client_comment']).meta({ id: 'NotificationTemplate' });
+export type NotificationTemplate = z.infer<typeof NotificationTemplate>;
+
+export const Success = z.object({ success: z.literal(true) }).meta({ id: 'Success' });
+export type Success = z.infer<typeof Success>;
+
+// Staff
+
+export const StaffUser = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  role: UserRole,
+  createdAt: Timestamp,
+  disabledAt: Timestamp.nullable()
+}).meta({ id: 'StaffUser' });
+export type StaffUser = z.infer<typeof StaffUser>;
+
+export const SignedToken = z.object({
+  token: z.string(),
+  expiresAt: Timestamp
+}).meta({ id: 'SignedToken' });
+export type SignedToken = z.infer<typeof SignedToken>;
+
+export const AdminSession = SignedToken.extend({ user: StaffUser }).meta({ id: 'AdminSession' });
+export type AdminSession = z.infer<typeof AdminSession>;
+
+// Clients
+
+export const ClientDetails = z.object({
+  name: z.string(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  eventType: z.string().nullable(),
+  eventDate: CalendarDate.nullable(),
+  notes: z.string().nullable(),
+  tags: z.array(z.string())
+}).meta({ id: 'ClientDetails' });
+export type ClientDetails = z.infer<typeof ClientDetails>;
+
+// A client as the studio sees it; the access code hash never leaves the server
+export const Client = ClientDetails.extend({
+  id: z.string(),
+  createdAt: Timestamp,
+  selectionQuota: z.number().int().nullable(),
+  selectionSubmittedAt: Timestamp.nullable(),
+  hasAccessCode: z.boolean(),
+  createdBy: z.string().nullable(),
+  assignedTo: z.array(z.string()),
+  coverPhoto: z.string().nullable(),
+  status: ClientStatus,
+  statusChangedAt: Timestamp.nullable(),
+  deliveryQuality: DeliveryQuality
+}).meta({ id: 'Client' });
+export type Client = z.infer<typeof Client>;
+
+// Row of the admin client list
+export const AdminClient = Client.extend({
+  createdByName: z.string().nullable(),
+  coverUrl: z.string().nullable(),
+  unreadComments: z.number().int(),
+  activeLinkId: z.string().nullable()
+}).meta({ id: 'AdminClient' });
+export type AdminClient = z.infer<typeof AdminClient>;
+
+export const Assignees = z.object({
+  id: z.string(),
+  assignedTo: z.array(z.string())
+}).meta({ id: 'Assignees' });
+export type Assignees = z.infer<typeof Assignees>;
+
+// Photos and albums
+
+// Camera metadata; the public portfolio never includes serial numbers or location
+export const PhotoExif = z.object({
+  make: z.string(),
+  model: z.string(),
+  serialNumber: z.string(),
+  lens: z.string(),
+  lensSerialNumber: z.string(),
+  focalLength: z.number(),
+  fNumber: z.number(),
+  exposureTime: z.number(),
+  iso: z.number(),
+  orientation: z.number(),
+  latitude: z.number(),
+  longitude: z.number(),
+  altitude: z.number()
+}).partial().meta({ id: 'PhotoExif' });
+export type PhotoExif = z.infer<typeof PhotoExif>;
+
+export const Photo = z.object({
+  url: z.string(),
+  thumbUrl: z.string(),
+  name: z.string(),
+  caption: z.string().nullable(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  capturedAt: Timestamp.nullable(),
+  exif: PhotoExif.nullable(),
+  albumId: z.string().nullable(),
+  // Uploaded before derivatives existed: the preview is the raw file
+  legacy: z.boolean()
+}).meta({ id: 'Photo' });
+export type Photo = z.infer<typeof Photo>;
+
+export const Album = z.object({
+  id: z.string(),
+  name: z.string(),
+  position: z.number().int(),
+  filenames: z.array(z.string())
+}).meta({ id: 'Album' });
+export type Album = z.infer<typeof Album>;
+
+export const AlbumRecord = z.object({
+  id: z.string(),
+  clientId: z.string(),
+  name: z.string(),
+  position: z.number().int(),
+  createdAt: Timestamp
+}).meta({ id: 'AlbumRecord' });
+export type AlbumRecord = z.infer<typeof AlbumRecord>;
+
+export const PhotoRecord = z.object({
+  clientId: z.string(),
+  filename: z.string(),
+  albumId: z.string().nullable(),
+  originalName: z.string().nullable(),
+  mimeType: z.string().nullable(),
+  size: z.number().int().nullable(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  position: z.number().int(),
+  caption: z.string().nullable(),
+  legacy: z.boolean(),
+  capturedAt: Timestamp.nullable(),
+  exif: PhotoExif.nullable(),
+  uploadedBy: z.string().nullable(),
+  createdAt: Timestamp
+}).meta({ id: 'PhotoRecord' });
+export type PhotoRecord = z.infer<typeof PhotoRecord>;
+
+// Results of the photo maintenance actions
+
+export const StorageSetup = z.object({
+  success: z.literal(true),
+  message: z.string().optional(),
+  created: z.array(z.string()).optional()
+}).meta({ id: 'StorageSetup' });
+export type StorageSetup = z.infer<typeof StorageSetup>;
+
+export const DirectUploads = z.object({
+  // One signed URL per requested file, in the same order
+  uploads: z.array(z.object({ name: z.string(), filename: z.string(), signedUrl: z.string() }))
+}).meta({ id: 'DirectUploads' });
+export type DirectUploads = z.infer<typeof DirectUploads>;
+
+export const UploadConfirmation = z.object({
+  success: z.literal(true),
+  filename: z.string()
+}).meta({ id: 'UploadConfirmation' });
+export type UploadConfirmation = z.infer<typeof UploadConfirmation>;
+
+export const DerivativesResult = z.object({
+  success: z.literal(true),
+  processed: z.number().int(),
+  total: z.number().int()
+}).meta({ id: 'DerivativesResult' });
+export type DerivativesResult = z.infer<typeof DerivativesResult>;
+
+export const CaptureSortResult = z.object({
+  success: z.literal(true),
+  moved: z.number().int(),
+  backfilled: z.number().int(),
+  undated: z.number().int()
+}).meta({ id: 'CaptureSortResult' });
+export type CaptureSortResult = z.infer<typeof CaptureSortResult>;
+
+export const ReconcileResult = z.object({
+  success: z.literal(true),
+  added: z.number().int(),
+  removed: z.number().int(),
+  rebuilt: z.number().int(),
+  updated: z.number().int()
+}).meta({ id: 'ReconcileResult' });
+export type ReconcileResult = z.infer<typeof ReconcileResult>;
+
+export const CoverChange = z.object({
+  success: z.literal(true),
+  coverPhoto: z.string().nullable()
+}).meta({ id: 'CoverChange' });
+export type CoverChange = z.infer<typeof CoverChange>;
+
+// Portfolio
+
+// A client as its portfolio visitors see it: no contact data, notes or staff fields
+export const PortfolioClient = Client.omit({
+  email: true, phone: true, notes: true, tags: true, createdBy: true, assignedTo: true
+}).meta({ id: 'PortfolioClient' });
+export type PortfolioClient = z.infer<typeof PortfolioClient>;
+
+export const Portfolio = PortfolioClient.extend({
+  albums: z.array(Album),
+  photos: z.array(Photo),
+  // When private storage is on, photo URLs are signed and must be refreshed before this
+  urlsExpireAt: Timestamp.nullable(),
+  selection: z.array(z.string()),
+  // Sent back as X-Portfolio-View: keeps this page working once the link has used its last view
+  viewToken: z.string()
+}).meta({ id: 'Portfolio' });
+export type Portfolio = z.infer<typeof Portfolio>;
+
+export const PhotoUrls = z.object({
+  photos: z.array(Photo.omit({ legacy: true })),
+  urlsExpireAt: Timestamp.nullable()
+}).meta({ id: 'PhotoUrls' });
+export type PhotoUrls = z.infer<typeof PhotoUrls>;
+
+export const AdminPhoto = Photo.extend({
+  originalName: z.string().nullable(),
+  size: z.number().int().nullable(),
+  createdAt: Timestamp.nullable(),
+  uploadedByName: z.string().nullable()
+}).meta({ id: 'AdminPhoto' });
+export type AdminPhoto = z.infer<typeof AdminPhoto>;
+
+export const StorageUsage = z.object({
+  photos: z.number().int(),
+  bytes: z.number().int()
+}).meta({ id: 'StorageUsage' });
+export type StorageUsage = z.infer<typeof StorageUsage>;
+
+export const AdminPortfolio = Client.extend({
+  albums: z.array(Album),
+  photos: z.array(AdminPhoto),
+  urlsExpireAt: Timestamp.nullable(),
+  selection: z.array(z.string()),
+  createdByName: z.string().nullable(),
+  usage: StorageUsage
+}).meta({ id: 'AdminPortfolio' });
+export type AdminPortfolio = z.infer<typeof AdminPortfolio>;
+
+export const Selection = z.object({
+  selection: z.array(z.string())
+}).meta({ id: 'Selection' });
+export type Selection = z.infer<typeof Selection>;
+
+export const SubmittedSelection = Selection.extend({
+  selectionSubmittedAt: Timestamp
+}).meta({ id: 'SubmittedSelection' });
+export type SubmittedSelection = z.infer<typeof SubmittedSelection>;
+
+export const StatusChange = z.object({
+  success: z.literal(true),
+  status: ClientStatus,
+  // Missing when the client already had this status
+  statusChangedAt: Timestamp.optional()
+}).meta({ id: 'StatusChange' });
+export type StatusChange = z.infer<typeof StatusChange>;
+
+export const DeliveryChange = z.object({
+  success: z.literal(true),
+  deliveryQuality: DeliveryQuality
+}).meta({ id: 'DeliveryChange' });
+export type DeliveryChange = z.infer<typeof DeliveryChange>;
+
+// Comments
+
+export const PhotoComment = z.object({
+  id: z.string(),
+  clientId: z.string(),
+  filename: z.string(),
+  author: z.enum(['client', 'studio']),
+  body: z.string(),
+  createdAt: Timestamp,
+  readAt: Timestamp.nullable()
+}).meta({ id: 'PhotoComment' });
+export type PhotoComment = z.infer<typeof PhotoComment>;
+
+// Share links
+
+export const ShareLink = z.object({
+  id: z.string(),
+  clientId: z.string(),
+  label: z.string().nullable(),
+  expiresAt: Timestamp.nullable(),
+  maxViews: z.number().int().nullable(),
+  views: z.number().int(),
+  lastAccessAt: Timestamp.nullable(),
+  revokedAt: Timestamp.nullable(),
+  createdAt: Timestamp,
+  // Not revoked, not expired and under its view limit
+  active: z.boolean()
+}).meta({ id: 'ShareLink' });
+export type ShareLink = z.infer<typeof ShareLink>;
+
+export const LinkAccess = z.object({
+  id: z.string(),
+  linkId: z.string(),
+  clientId: z.string(),
+  userAgent: z.string().nullable(),
+  ipHash: z.string().nullable(),
+  createdAt: Timestamp
+}).meta({ id: 'LinkAccess' });
+export type LinkAccess = z.infer<typeof LinkAccess>;
+
+export const ShareLinks = z.object({
+  links: z.array(ShareLink),
+  // The 20 most recent portfolio views
+  accesses: z.array(LinkAccess)
+}).meta({ id: 'ShareLinks' });
+export type ShareLinks = z.infer<typeof ShareLinks>;
+
+// Delivery
+
+export const DownloadRecord = z.object({
+  id: z.string(),
+  clientId: z.string(),
+  linkId: z.string().nullable(),
+  scope: DownloadScope,
+  quality: DeliveryQuality,
+  part: z.number().int(),
+  parts: z.number().int(),
+  files: z.number().int(),
+  bytes: z.number().int().nullable(),
+  userAgent: z.string().nullable(),
+  ipHash: z.string().nullable(),
+  completedAt: Timestamp.nullable(),
+  createdAt: Timestamp
+}).meta({ id: 'DownloadRecord' });
+export type DownloadRecord = z.infer<typeof DownloadRecord>;
+
+export const DownloadPart = z.object({
+  part: z.number().int(),
+  files: z.number().int(),
+  // Size of the photos in the part; the ZIP adds a little on top
+  bytes: z.number().int(),
+  filename: z.string()
+}).meta({ id: 'DownloadPart' });
+export type DownloadPart = z.infer<typeof DownloadPart>;
+
+export const DownloadManifest = z.object({
+  scope: DownloadScope,
+  quality: DeliveryQuality,
+  files: z.number().int(),
+  bytes: z.number().int(),
+  parts: z.array(DownloadPart)
+}).meta({ id: 'DownloadManifest' });
+export type DownloadManifest = z.infer<typeof DownloadManifest>;
+
+// Notifications
+
+export const NotificationRecord = z.object({
+  id: z.string(),
+  clientId: z.string().nullable(),
+  template: NotificationTemplate,
+  recipient: z.string(),
+  subject: z.string(),
+  transport: z.string(),
+  status: z.enum(['sent', 'failed']),
+  error: z.string().nullable(),
+  messageId: z.string().nullable(),
+  sentBy: z.string().nullable(),
+  createdAt: Timestamp
+}).meta({ id: 'NotificationRecord' });
+export type NotificationRecord = z.infer<typeof NotificationRecord>;
+
+export const NotificationLogEntry = NotificationRecord.extend({
+  sentByName: z.string().nullable()
+}).meta({ id: 'NotificationLogEntry' });
+export type NotificationLogEntry = z.infer<typeof NotificationLogEntry>;
+
+// Settings
+
+export const Branding = z.object({
+  logo: z.string().nullable()
+}).meta({ id: 'Branding' });
+export type Branding = z.infer<typeof Branding>;
+
+export const UploadSettings = z.object({
+  compressionPreset: CompressionPresetId
+}).meta({ id: 'UploadSettings' });
+export type UploadSettings = z.infer<typeof UploadSettings>;
+
+export const Quotas = z.object({
+  maxClients: z.number().int(),
+  maxPhotosPerClient: z.number().int(),
+  maxBytesPerClient: z.number().int(),
+  maxFileSize: z.number().int()
+}).meta({ id: 'Quotas' });
+export type Quotas = z.infer<typeof Quotas>;
+
+export const QuotaUsage = Quotas.extend({
+  clients: z.number().int()
+}).meta({ id: 'QuotaUsage' });
+export type QuotaUsage = z.infer<typeof QuotaUsage>;
+
+// Server configuration as seen by owners: secrets only say whether they are set
+export const ConfigSummary = z.object({
+  environment: z.enum(['production', 'development']),
+  trustProxy: z.number().int(),
+  database: z.object({
+    driver: z.enum(['supabase', 'sqlite']),
+    file: z.string().nullable()
+  }),
+  storage: z.object({
+    driver: z.enum(['supabase', 'local']),
+    dir: z.string().nullable(),
+    private: z.boolean(),
+    photoUrlTtl: z.number().int()
+  }),
+  supabase: z.object({
+    url: z.string(),
+    serviceRoleKey: z.boolean()
+  }).nullable(),
+  auth: z.object({
+    adminPassword: z.enum(['hash', 'env', 'default']),
+    sessionSecret: z.enum(['env', 'derived'])
+  }),
+  mail: z.object({
+    transport: z.enum(['smtp', 'console']),
+    host: z.string().nullable(),
+    port: z.number().int().nullable(),
+    secure: z.boolean(),
+    authenticated: z.boolean(),
+    from: z.string().nullable(),
+    studioEmails: z.array(z.string()),
+    appUrl: z.string().nullable()
+  }),
+  defaultQuotas: Quotas,
+  warnings: z.array(z.string())
+}).meta({ id: 'ConfigSummary' });
+export type ConfigSummary = z.infer<typeof ConfigSummary>;
+
+// Health
+
+// Public probes: no configuration or infrastructure details
+export const Liveness = z.object({
+  status: z.literal('ok')
+}).meta({ id: 'Liveness' });
+export type Liveness = z.infer<typeof Liveness>;
+
+export const Readiness = z.object({
+  status: z.literal('ready')
+}).meta({ id: 'Readiness' });
+export type Readiness = z.infer<typeof Readiness>;
+
+export const CheckStatus = z.enum(['ok', 'warn', 'error']).meta({ id: 'CheckStatus' });
+export type CheckStatus = z.infer<typeof CheckStatus>;
+
+export const CheckSample = z.object({
+  checkedAt: Timestamp,
+  status: CheckStatus,
+  latencyMs: z.number().int().nullable()
+}).meta({ id: 'CheckSample' });
+export type CheckSample = z.infer<typeof CheckSample>;
+
+export const DiagnosticCheck = z.object({
+  name: z.enum(['database', 'storage', 'disk', 'config']),
+  status: CheckStatus,
+  latencyMs: z.number().int().nullable(),
+  message: z.string(),
+  details: z.record(z.string(), z.unknown()),
+  // Earlier runs of this check on this server instance, oldest first
+  history: z.array(CheckSample)
+}).meta({ id: 'DiagnosticCheck' });
+export type DiagnosticCheck = z.infer<typeof DiagnosticCheck>;
+
+export const Diagnostics = z.object({
+  status: CheckStatus,
+  version: z.string(),
+  checkedAt: Timestamp,
+  uptimeSeconds: z.number().int(),
+  checks: z.array(DiagnosticCheck)
+}).meta({ id: 'Diagnostics' });
+export type Diagnostics = z.infer<typeof Diagnostics>;
@@ -0,0 +1,245 @@
+import { z } from "zod";
+import { ClientStatus, CompressionPresetId, DeliveryQuality, DownloadScope, UserRole } from "./models";
+
+// Request bodies and queries. The server parses every request with these before the handler runs,
+// so handlers get trimmed strings, defaults filled in and unknown keys dropped.
+
+export const MAX_CLIENT_NAME = 120;
+export const MAX_EVENT_TYPE = 60;
+export const MAX_CLIENT_NOTES = 5000;
+export const MAX_CLIENT_TAGS = 20;
+export const MAX_TAG_LENGTH = 30;
+export const MAX_ALBUM_NAME_LENGTH = 80;
+export const MAX_CAPTION_LENGTH = 300;
+export const MAX_COMMENT_LENGTH = 2000;
+export const MAX_LINK_LABEL_LENGTH = 80;
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Files are buffered in memory during upload, so the per-file limit has a hard ceiling
+export const MAX_FILE_SIZE_CEILING = 50 * 1024 * 1024;
+// ...and so is the number of files per request, whatever the client quota allows
+export const MAX_FILES_PER_UPLOAD = 10;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{8,20}$/;
+
+const isValidDate = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+// Optional text where an empty string or null clears the stored value
+const clearable = (text: z.ZodType<string, string>) =>
+  text.nullable().transform(value => value || null);
+
+// An id, or null/empty for "none"
+const optionalId = z.string().nullish().transform(value => value || null);
+
+// Auth and staff
+
+export const LoginBody = z.object({
+  // Installs from before staff accounts sign in with the password only
+  email: z.string().trim().toLowerCase().optional().transform(email => email || 'admin'),
+  password: z.string({ error: "Senha é obrigatória" }).min(1, "Senha é obrigatória")
+});
+export type LoginBody = z.input<typeof LoginBody>;
+
+const Password = (message: string) =>
+  z.string({ error: message }).min(MIN_PASSWORD_LENGTH, message);
+
+export const ChangePasswordBody = z.object({
+  // Checked against the stored hash by the handler, which answers 401 when it does not match
+  currentPassword: z.string().default(''),
+  newPassword: Password(`A nova senha deve ter ao menos ${MIN_PASSWORD_LENGTH} caracteres`)
+});
+export type ChangePasswordBody = z.input<typeof ChangePasswordBody>;
+
+export const CreateUserBody = z.object({
+  email: z.string({ error: "Nome e e-mail são obrigatórios" }).trim().toLowerCase().min(1, "Nome e e-mail são obrigatórios"),
+  name: z.string({ error: "Nome e e-mail são obrigatórios" }).trim().min(1, "Nome e e-mail são obrigatórios"),
+  role: z.enum(UserRole.options, { error: "Perfil inválido" }),
+  password: Password(`A senha deve ter ao menos ${MIN_PASSWORD_LENGTH} caracteres`)
+});
+export type CreateUserBody = z.input<typeof CreateUserBody>;
+
+export const UpdateUserBody = z.object({
+  name: z.string().trim().min(1, "O nome não pode ficar vazio").optional(),
+  role: z.enum(UserRole.options, { error: "Perfil inválido" }).optional(),
+  password: Password(`A senha deve ter ao menos ${MIN_PASSWORD_LENGTH} caracteres`).optional(),
+  disabled: z.boolean().optional()
+});
+export type UpdateUserBody = z.input<typeof UpdateUserBody>;
+
+export const AssigneesBody = z.object({
+  userIds: z.array(z.string(), { error: "Lista de usuários inválida" })
+});
+export type AssigneesBody = z.input<typeof AssigneesBody>;
+
+// Clients
+
+const ClientName = z.string({ error: "Informe o nome do cliente" })
+  .trim()
+  .min(1, "Informe o nome do cliente")
+  .max(MAX_CLIENT_NAME, `O nome deve ter no máximo ${MAX_CLIENT_NAME} caracteres`);
+
+const Tags = z.array(z.string(), { error: "Tags inválidas" })
+  .nullable()
+  .transform(tags => [...new Set((tags || []).map(tag => tag.trim().toLowerCase()).filter(Boolean))])
+  .pipe(z.array(z.string().max(MAX_TAG_LENGTH, `Cada tag deve ter no máximo ${MAX_TAG_LENGTH} caracteres`))
+    .max(MAX_CLIENT_TAGS, `Use no máximo ${MAX_CLIENT_TAGS} tags`));
+
+// Editable client fields
+const ClientDetailsFields = {
+  email: clearable(z.string().trim().toLowerCase().refine(email => !email || EMAIL_PATTERN.test(email), "E-mail inválido")),
+  phone: clearable(z.string().trim().refine(phone => !phone || PHONE_PATTERN.test(phone), "Telefone inválido")),
+  eventType: clearable(z.string().trim().max(MAX_EVENT_TYPE, `O tipo de evento deve ter no máximo ${MAX_EVENT_TYPE} caracteres`)),
+  eventDate: clearable(z.string().trim().refine(date => !date || isValidDate(date), "Data do evento inválida")),
+  notes: clearable(z.string().trim().max(MAX_CLIENT_NOTES, `As anotações devem ter no máximo ${MAX_CLIENT_NOTES} caracteres`)),
+  tags: Tags
+};
+
+export const CreateClientBody = z.object({
+  name: ClientName,
+  ...ClientDetailsFields,
+  // Photos the client may pick; empty or zero means no limit
+  selectionQuota: z.union([z.number(), z.string()]).nullish()
+    .transform(quota => Number(quota) > 0 ? Math.floor(Number(quota)) : null),
+  accessCode: z.string().trim()
+    .refine(code => !code || (code.length >= 4 && code.length <= 32), "O código de acesso deve ter entre 4 e 32 caracteres")
+    .nullish()
+    .transform(code => code || null)
+}).partial({ email: true, phone: true, eventType: true, eventDate: true, notes: true, tags: true });
+export type CreateClientBody = z.input<typeof CreateClientBody>;
+
+// Only the keys present are changed
+export const UpdateClientBody = z.object({ name: ClientName, ...ClientDetailsFields })
+  .partial()
+  .refine(changes => Object.values(changes).some(value => value !== undefined), "Nada para atualizar");
+export type UpdateClientBody = z.input<typeof UpdateClientBody>;
+
+export const StatusBody = z.object({
+  status: z.enum(ClientStatus.options, { error: "Status inválido" })
+});
+export type StatusBody = z.input<typeof StatusBody>;
+
+export const DeliveryBody = z.object({
+  quality: z.enum(DeliveryQuality.options, { error: "Qualidade de entrega inválida" }).default('original')
+});
+export type DeliveryBody = z.input<typeof DeliveryBody>;
+
+// Photos and albums
+
+// Multipart field sent along with the files
+export const UploadPhotosBody = z.object({
+  albumId: optionalId
+});
+export type UploadPhotosBody = z.input<typeof UploadPhotosBody>;
+
+export const CreateUploadsBody = z.object({
+  files: z.array(z.object({
+    name: z.string(),
+    size: z.coerce.number(),
+    type: z.string()
+  }), { error: "Nenhuma foto enviada" }).min(1, "Nenhuma foto enviada")
+});
+export type CreateUploadsBody = z.input<typeof CreateUploadsBody>;
+
+export const ConfirmUploadBody = z.object({
+  // The name handed out by POST /uploads
+  filename: z.string({ error: "Arquivo inválido" }).regex(/^[0-9a-f-]{36}(\.[A-Za-z0-9]+)?$/, "Arquivo inválido"),
+  originalName: z.string().optional(),
+  albumId: optionalId
+});
+export type ConfirmUploadBody = z.input<typeof ConfirmUploadBody>;
+
+const AlbumName = z.string({ error: `O nome do álbum deve ter entre 1 e ${MAX_ALBUM_NAME_LENGTH} caracteres` })
+  .trim()
+  .min(1, `O nome do álbum deve ter entre 1 e ${MAX_ALBUM_NAME_LENGTH} caracteres`)
+  .max(MAX_ALBUM_NAME_LENGTH, `O nome do álbum deve ter entre 1 e ${MAX_ALBUM_NAME_LENGTH} caracteres`);
+
+export const AlbumBody = z.object({ name: AlbumName });
+export type AlbumBody = z.input<typeof AlbumBody>;
+
+export const AlbumOrderBody = z.object({
+  albumIds: z.array(z.string(), { error: "A nova ordem deve conter todos os álbuns do cliente" })
+});
+export type AlbumOrderBody = z.input<typeof AlbumOrderBody>;
+
+export const MovePhotoBody = z.object({ albumId: optionalId });
+export type MovePhotoBody = z.input<typeof MovePhotoBody>;
+
+export const CaptionBody = z.object({
+  caption: clearable(z.string().trim().max(MAX_CAPTION_LENGTH, `A legenda pode ter no máximo ${MAX_CAPTION_LENGTH} caracteres`)).optional()
+    .transform(caption => caption ?? null)
+});
+export type CaptionBody = z.input<typeof CaptionBody>;
+
+export const PhotoOrderBody = z.object({
+  filenames: z.array(z.string(), { error: "Informe a nova ordem das fotos" })
+    .min(1, "Informe a nova ordem das fotos")
+    .refine(filenames => new Set(filenames).size === filenames.length, "Informe a nova ordem das fotos")
+});
+export type PhotoOrderBody = z.input<typeof PhotoOrderBody>;
+
+export const CoverBody = z.object({ filename: optionalId });
+export type CoverBody = z.input<typeof CoverBody>;
+
+// Portfolio
+
+export const AccessCodeBody = z.object({
+  code: z.string({ error: "Informe o código de acesso" }).trim().min(1, "Informe o código de acesso")
+});
+export type AccessCodeBody = z.input<typeof AccessCodeBody>;
+
+export const CommentBody = z.object({
+  body: z.string({ error: "O comentário não pode ficar vazio" })
+    .trim()
+    .min(1, "O comentário não pode ficar vazio")
+    .max(MAX_COMMENT_LENGTH, `O comentário deve ter no máximo ${MAX_COMMENT_LENGTH} caracteres`)
+});
+export type CommentBody = z.input<typeof CommentBody>;
+
+export const DownloadQuery = z.object({
+  scope: z.enum(DownloadScope.options, { error: "Escopo de download inválido" }).default('all')
+});
+export type DownloadQuery = z.input<typeof DownloadQuery>;
+
+// Share links and notifications
+
+export const CreateLinkBody = z.object({
+  label: z.string().nullish().transform(label => label ? label.slice(0, MAX_LINK_LABEL_LENGTH) : null),
+  expiresAt: z.string().nullish()
+    .transform(date => date ? new Date(date) : null)
+    .refine(date => !date || (!isNaN(date.getTime()) && date.getTime() >= Date.now()), "A data de expiração deve estar no futuro"),
+  maxViews: z.union([z.number(), z.string()]).nullish()
+    .transform(views => views ? Math.floor(Number(views)) : null)
+    .refine(views => views === null || views > 0, "O limite de visualizações deve ser um número positivo")
+});
+export type CreateLinkBody = z.input<typeof CreateLinkBody>;
+
+export const NotifyLinkBody = z.object({
+  // Only the hash is stored, so the studio types the code again to include it in the email
+  accessCode: z.string().trim().default(''),
+  linkId: optionalId
+});
+export type NotifyLinkBody = z.input<typeof NotifyLinkBody>;
+
+// Settings
+
+export const UploadSettingsBody = z.object({
+  compressionPreset: z.enum(CompressionPresetId.options, { error: "Predefinição de compressão inválida" })
+});
+export type UploadSettingsBody = z.input<typeof UploadSettingsBody>;
+
+const QuotaValue = (key: string) =>
+  z.coerce.number({ error: `Valor inválido para ${key}` }).int(`Valor inválido para ${key}`).min(1, `Valor inválido para ${key}`);
+
+export const QuotasBody = z.object({
+  maxClients: QuotaValue('maxClients'),
+  maxPhotosPerClient: QuotaValue('maxPhotosPerClient'),
+  maxBytesPerClient: QuotaValue('maxBytesPerClient'),
+  maxFileSize: QuotaValue('maxFileSize')
+    .max(MAX_FILE_SIZE_CEILING, `O tamanho máximo por arquivo não pode passar de ${MAX_FILE_SIZE_CEILING / (1024 * 1024)} MB`)
+});
+export type QuotasBody = z.input<typeof QuotasBody>;
@@ -1,7 +1,6 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import AdminPanel from './components/AdminPanel';
 import ClientView from './components/ClientView';
-import StatusIndicator from './components/StatusIndicator';
 
 export default function App() {
   return (
@@ -13,7 +12,6 @@ export default function App() {
           <Route path="/" element={<Navigate to="/admin" replace />} />
           <Route path="*" element={<div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center text-white">404 - Página não encontrada</div>} />
         </Routes>
-        <StatusIndicator />
       </Router>
     </div>
   );
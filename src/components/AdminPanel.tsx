@@ -1,34 +1,107 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'motion/react';
-import { Trash2, Plus, Upload, LogOut, Link as LinkIcon, Image as ImageIcon, Maximize2 } from 'lucide-react';
+import { Trash2, Plus, Upload, LogOut, Link as LinkIcon, Image as ImageIcon, Maximize2, Heart, Unlock, Copy, MessageCircle, X, Lock, Users, KeyRound, Type, RefreshCw, Star, CalendarClock } from 'lucide-react';
+import CommentThread from './CommentThread';
+import ShareLinksCard, { portfolioUrl } from './ShareLinksCard';
+import UserManagement, { ROLE_LABELS } from './UserManagement';
+import AlbumsBar from './AlbumsBar';
+import QuotaSettings, { formatBytes } from './QuotaSettings';
+import DeliveryCard from './DeliveryCard';
+import NotificationsCard from './NotificationsCard';
+import ClientDetailsCard, { EVENT_TYPES } from './ClientDetailsCard';
+import ClientFilters, { ClientFilterState, DEFAULT_CLIENT_FILTERS, filterClients } from './ClientFilters';
+import ClientStatusStepper, { CLIENT_STATUS_LABELS, CLIENT_STATUS_STYLES } from './ClientStatusStepper';
+import UploadPanel from './UploadPanel';
+import StatusIndicator from './StatusIndicator';
+import { UploadItem, UploadError, createUploadItems, runUploadQueue } from '../lib/uploadQueue';
+import { COMPRESSION_PRESETS, DEFAULT_COMPRESSION_PRESET, compressImage, getPreset } from '../lib/imageCompression';
+import type {
+  AdminClient, AdminPhoto, Album, ClientDetails, ClientStatus, CompressionPresetId, DeliveryQuality, DownloadRecord,
+  LinkAccess, NotificationLogEntry, PhotoComment, PhotoExif, Quotas, QuotaUsage, ShareLink, StaffUser
+} from '../../shared';
 
-interface Client {
-  id: string;
-  name: string;
-  createdAt: string;
-}
+// "EOS R5 · 50mm f/1.8 1/200s ISO 400"
+const describeCamera = (exif: PhotoExif | null) => {
+  if (!exif) return null;
+  const exposure = [
+    exif.focalLength && `${Math.round(exif.focalLength)}mm`,
+    exif.fNumber && `f/${exif.fNumber}`,
+    exif.exposureTime && (exif.exposureTime < 1 ? `1/${Math.round(1 / exif.exposureTime)}s` : `${exif.exposureTime}s`),
+    exif.iso && `ISO ${exif.iso}`
+  ].filter(Boolean).join(' ');
+  return [exif.model || exif.make, exposure].filter(Boolean).join(' · ') || null;
+};
 
 export default function AdminPanel() {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [clients, setClients] = useState<Client[]>([]);
+  const [me, setMe] = useState<StaffUser | null>(null);
+  const [view, setView] = useState<'clients' | 'team'>('clients');
+  const [token, setToken] = useState('');
+  const [loggingIn, setLoggingIn] = useState(false);
+  const [clients, setClients] = useState<AdminClient[]>([]);
   const [newClientName, setNewClientName] = useState('');
+  const [newClientQuota, setNewClientQuota] = useState('');
+  const [newClientCode, setNewClientCode] = useState('');
+  const [newClientEmail, setNewClientEmail] = useState('');
+  const [newClientPhone, setNewClientPhone] = useState('');
+  const [newClientEventType, setNewClientEventType] = useState('');
+  const [newClientEventDate, setNewClientEventDate] = useState('');
+  const [clientFilters, setClientFilters] = useState<ClientFilterState>(DEFAULT_CLIENT_FILTERS);
   const [selectedClient, setSelectedClient] = useState<string | null>(null);
-  const [photos, setPhotos] = useState<{url: string, name: string}[]>([]);
+  const [photos, setPhotos] = useState<AdminPhoto[]>([]);
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [activeAlbum, setActiveAlbum] = useState('');
+  const [draggedPhoto, setDraggedPhoto] = useState<string | null>(null);
+  const [protecting, setProtecting] = useState(false);
+  const [selection, setSelection] = useState<string[]>([]);
+  const [comments, setComments] = useState<PhotoComment[]>([]);
+  const [commentPhoto, setCommentPhoto] = useState<string | null>(null);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [accesses, setAccesses] = useState<LinkAccess[]>([]);
+  const [downloads, setDownloads] = useState<DownloadRecord[]>([]);
+  const [notifications, setNotifications] = useState<NotificationLogEntry[]>([]);
+  const [quotas, setQuotas] = useState<QuotaUsage | null>(null);
+  const [usage, setUsage] = useState({ photos: 0, bytes: 0 });
   const [uploading, setUploading] = useState(false);
+  const [uploadItems, setUploadItems] = useState<UploadItem[]>([]);
+  const [uploadAlbumId, setUploadAlbumId] = useState<string | null>(null);
+  const [defaultPreset, setDefaultPreset] = useState<CompressionPresetId>(DEFAULT_COMPRESSION_PRESET);
+  const [compressionPreset, setCompressionPreset] = useState<CompressionPresetId>(DEFAULT_COMPRESSION_PRESET);
   const [logo, setLogo] = useState<string | null>(null);
 
   useEffect(() => {
-    const savedPass = localStorage.getItem('admin_pass');
-    if (savedPass) {
-      setPassword(savedPass);
-      setIsLoggedIn(true);
-    }
+    // Older versions kept the plain password here
+    localStorage.removeItem('admin_pass');
+
+    const restoreSession = async () => {
+      const savedToken = localStorage.getItem('admin_token');
+      if (!savedToken) return;
+
+      try {
+        const res = await fetch('/api/admin/session', {
+          headers: { 'Authorization': `Bearer ${savedToken}` }
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setMe(data.user);
+          setToken(savedToken);
+          setIsLoggedIn(true);
+        } else {
+          localStorage.removeItem('admin_token');
+        }
+      } catch (e) {
+        console.error('Error restoring session:', e);
+      }
+    };
+
+    restoreSession();
     fetchSettings();
   }, []);
 
-  const [supabaseStatus, setSupabaseStatus] = useState<'loading' | 'connected' | 'error'>('loading');
-  const [supabaseError, setSupabaseError] = useState<string | null>(null);
+  const [serverStatus, setServerStatus] = useState<'loading' | 'connected' | 'error'>('loading');
+  const [serverError, setServerError] = useState<string | null>(null);
 
   const fetchSettings = async () => {
     try {
@@ -49,7 +122,7 @@ export default function AdminPanel() {
 
     const res = await fetch('/api/admin/settings/logo', {
       method: 'POST',
-      headers: { 'Authorization': `Bearer ${password}` },
+      headers: { 'Authorization': `Bearer ${token}` },
       body: formData
     });
 
@@ -63,38 +136,49 @@ export default function AdminPanel() {
   useEffect(() => {
     const checkStatus = async () => {
       try {
-        const res = await fetch('/api/health');
-        const data = await res.json();
-        setSupabaseStatus(data.supabaseConnected ? 'connected' : 'error');
-        setSupabaseError(data.errorDetail || null);
+        const res = await fetch('/api/health/ready');
+        if (res.ok) {
+          setServerStatus('connected');
+          setServerError(null);
+        } else {
+          const data = await res.json().catch(() => ({}));
+          setServerStatus('error');
+          setServerError(data.error || 'Serviço indisponível');
+        }
       } catch (e) {
-        setSupabaseStatus('error');
-        setSupabaseError('Servidor inacessível');
+        setServerStatus('error');
+        setServerError('Servidor inacessível');
       }
     };
     checkStatus();
   }, []);
 
   useEffect(() => {
-    if (isLoggedIn) {
-      localStorage.setItem('admin_pass', password);
+    if (isLoggedIn && token) {
       fetchClients();
       fetchSettings();
+      fetchQuotas();
+      fetchUploadSettings();
     }
-  }, [isLoggedIn]);
+  }, [isLoggedIn, token]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
+    setLoggingIn(true);
     try {
-      const res = await fetch('/api/admin/verify', {
+      const res = await fetch('/api/admin/login', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password })
+        body: JSON.stringify({ email, password })
       });
 
       if (res.ok) {
+        const data = await res.json();
+        localStorage.setItem('admin_token', data.token);
+        setPassword('');
+        setMe(data.user);
+        setToken(data.token);
         setIsLoggedIn(true);
-        fetchClients();
       } else {
         const status = res.status;
         let errorMessage = `Erro ${status}`;
@@ -103,7 +187,7 @@ export default function AdminPanel() {
           const text = await res.text();
           try {
             const err = JSON.parse(text);
-            errorMessage = `${err.error || 'Senha incorreta'}\n\n${err.hint || ''}`;
+            errorMessage = err.error || 'Senha incorreta';
           } catch (e) {
             errorMessage = `Erro ${status}: ${text.slice(0, 100)}...`;
           }
@@ -116,38 +200,116 @@ export default function AdminPanel() {
     } catch (error) {
       console.error('Login error:', error);
       alert('Não foi possível conectar ao servidor. Verifique se o backend está rodando.');
+    } finally {
+      setLoggingIn(false);
     }
   };
 
   const fetchClients = async () => {
     try {
       const res = await fetch('/api/admin/clients', {
-        headers: { 'Authorization': `Bearer ${password}` }
+        headers: { 'Authorization': `Bearer ${token}` }
       });
       if (res.ok) {
         const data = await res.json();
         setClients(data);
       } else if (res.status === 401) {
+        localStorage.removeItem('admin_token');
         setIsLoggedIn(false);
+        setToken('');
+        setMe(null);
       }
     } catch (e) {
       console.error('Error fetching clients:', e);
     }
   };
 
+  const fetchQuotas = async () => {
+    try {
+      const res = await fetch('/api/admin/quotas', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (res.ok) setQuotas(await res.json());
+    } catch (e) {
+      console.error('Error fetching quotas:', e);
+    }
+  };
+
+  const saveQuotas = async (next: Quotas) => {
+    const res = await fetch('/api/admin/quotas', {
+      method: 'PUT',
+      headers: { 
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}` 
+      },
+      body: JSON.stringify(next)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    fetchQuotas();
+  };
+
+  const fetchUploadSettings = async () => {
+    try {
+      const res = await fetch('/api/admin/settings/uploads', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setDefaultPreset(data.compressionPreset);
+        setCompressionPreset(data.compressionPreset);
+      }
+    } catch (e) {
+      console.error('Error fetching upload settings:', e);
+    }
+  };
+
+  const saveDefaultPreset = async (preset: CompressionPresetId) => {
+    const res = await fetch('/api/admin/settings/uploads', {
+      method: 'PUT',
+      headers: { 
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}` 
+      },
+      body: JSON.stringify({ compressionPreset: preset })
+    });
+    if (res.ok) {
+      setDefaultPreset(preset);
+      setCompressionPreset(preset);
+    } else {
+      const err = await res.json();
+      alert(err.error);
+    }
+  };
+
   const createClient = async (e: React.FormEvent) => {
     e.preventDefault();
     const res = await fetch('/api/admin/clients', {
       method: 'POST',
       headers: { 
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${password}` 
+        'Authorization': `Bearer ${token}` 
       },
-      body: JSON.stringify({ name: newClientName })
+      body: JSON.stringify({ 
+        name: newClientName, 
+        selectionQuota: newClientQuota ? Number(newClientQuota) : null,
+        accessCode: newClientCode || null,
+        email: newClientEmail,
+        phone: newClientPhone,
+        eventType: newClientEventType,
+        eventDate: newClientEventDate
+      })
     });
     if (res.ok) {
       setNewClientName('');
+      setNewClientQuota('');
+      setNewClientCode('');
+      setNewClientEmail('');
+      setNewClientPhone('');
+      setNewClientEventType('');
+      setNewClientEventDate('');
       fetchClients();
+      fetchQuotas();
     } else {
       const err = await res.json();
       alert(err.error);
@@ -158,104 +320,570 @@ export default function AdminPanel() {
     if (!confirm('Tem certeza que deseja excluir este cliente e todas as suas fotos?')) return;
     const res = await fetch(`/api/admin/clients/${id}`, {
       method: 'DELETE',
-      headers: { 'Authorization': `Bearer ${password}` }
+      headers: { 'Authorization': `Bearer ${token}` }
     });
     if (res.ok) {
       fetchClients();
+      fetchQuotas();
       if (selectedClient === id) {
         setSelectedClient(null);
         setPhotos([]);
+        setAlbums([]);
+        setSelection([]);
+        setComments([]);
+        setCommentPhoto(null);
+        setLinks([]);
+        setAccesses([]);
+        setDownloads([]);
+        setNotifications([]);
       }
     }
   };
 
   const fetchPhotos = async (clientId: string) => {
     try {
-      const res = await fetch(`/api/client/${clientId}`);
+      const res = await fetch(`/api/admin/clients/${clientId}/photos`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
       if (!res.ok) throw new Error('Falha ao buscar fotos');
       const data = await res.json();
       setPhotos(data.photos || []);
+      setAlbums(data.albums || []);
+      setUsage(data.usage || { photos: 0, bytes: 0 });
+      if (clientId !== selectedClient) setActiveAlbum('');
+      setSelection(data.selection || []);
+      setClients(prev => prev.map(c => c.id === clientId ? { ...c, selectionQuota: data.selectionQuota, selectionSubmittedAt: data.selectionSubmittedAt, coverPhoto: data.coverPhoto } : c));
       setSelectedClient(clientId);
+      fetchComments(clientId);
+      fetchLinks(clientId);
+      fetchDownloads(clientId);
+      fetchNotifications(clientId);
     } catch (e) {
       console.error('Error fetching photos:', e);
       alert('Erro ao carregar fotos do cliente');
     }
   };
 
-  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!selectedClient || !e.target.files) return;
-    
-    setUploading(true);
-    const files = Array.from(e.target.files);
-    let successCount = 0;
-    let failCount = 0;
-    let lastError = '';
-
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i] as File;
-      
-      // Check file size (max 5MB)
-      if (file.size > 5 * 1024 * 1024) {
-        failCount++;
-        lastError = `Arquivo ${file.name} é muito grande (máx 5MB)`;
-        continue;
-      }
+  const albumRequest = async (path: string, method: string, body?: unknown) => {
+    if (!selectedClient) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}/albums${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    fetchPhotos(selectedClient);
+    return data;
+  };
 
-      const formData = new FormData();
-      formData.append('photos', file);
+  const createAlbum = async (name: string) => {
+    const album = await albumRequest('', 'POST', { name });
+    if (album) setActiveAlbum(album.id);
+  };
 
-      try {
-        const res = await fetch(`/api/admin/upload/${selectedClient}`, {
-          method: 'POST',
-          headers: { 'Authorization': `Bearer ${password}` },
-          body: formData
-        });
+  const renameAlbum = async (albumId: string, name: string) => {
+    await albumRequest(`/${albumId}`, 'PATCH', { name });
+  };
 
-        if (res.ok) {
-          successCount++;
-        } else {
-          const errorData = await res.json().catch(() => ({ error: 'Erro no servidor' }));
-          console.error('Upload failed:', errorData);
-          failCount++;
-          lastError = errorData.error || 'Erro desconhecido';
-        }
-      } catch (error: any) {
-        console.error('Upload error:', error);
-        failCount++;
-        lastError = error.message || 'Erro de conexão';
+  const deleteAlbum = async (albumId: string) => {
+    await albumRequest(`/${albumId}`, 'DELETE');
+    setActiveAlbum('');
+  };
+
+  const reorderAlbums = async (albumIds: string[]) => {
+    await albumRequest('/order', 'PUT', { albumIds });
+  };
+
+  const movePhotoToAlbum = async (filename: string, albumId: string | null) => {
+    if (!selectedClient) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}/photos/${encodeURIComponent(filename)}/album`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ albumId })
+    });
+    if (res.ok) {
+      fetchPhotos(selectedClient);
+    } else {
+      const err = await res.json();
+      alert(err.error);
+    }
+  };
+
+  const fetchComments = async (clientId: string) => {
+    try {
+      const res = await fetch(`/api/admin/clients/${clientId}/comments`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (res.ok) setComments(await res.json());
+    } catch (e) {
+      console.error('Error fetching comments:', e);
+    }
+  };
+
+  const fetchLinks = async (clientId: string) => {
+    try {
+      const res = await fetch(`/api/admin/clients/${clientId}/links`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setLinks(data.links);
+        setAccesses(data.accesses);
       }
-      
-      // Small delay between uploads to prevent rate limiting/timeout
-      await new Promise(resolve => setTimeout(resolve, 500));
+    } catch (e) {
+      console.error('Error fetching links:', e);
     }
+  };
 
-    if (failCount > 0) {
-      alert(`Envio finalizado com alguns erros.\n\nSucesso: ${successCount}\nFalha: ${failCount}\n\nÚltimo erro: ${lastError}\n\nDica: Tente enviar as fotos que falharam novamente em grupos menores.`);
-    } else if (successCount > 0) {
-      alert('Todas as fotos foram enviadas com sucesso!');
+  const fetchDownloads = async (clientId: string) => {
+    try {
+      const res = await fetch(`/api/admin/clients/${clientId}/downloads`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (res.ok) setDownloads(await res.json());
+    } catch (e) {
+      console.error('Error fetching downloads:', e);
     }
-    
+  };
+
+  const fetchNotifications = async (clientId: string) => {
+    try {
+      const res = await fetch(`/api/admin/clients/${clientId}/notifications`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (res.ok) setNotifications(await res.json());
+    } catch (e) {
+      console.error('Error fetching notifications:', e);
+    }
+  };
+
+  const saveDetails = async (details: ClientDetails) => {
+    if (!selectedClient) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify(details)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    setClients(prev => prev.map(c => c.id === selectedClient ? {
+      ...c,
+      name: data.name,
+      email: data.email,
+      phone: data.phone,
+      eventType: data.eventType,
+      eventDate: data.eventDate,
+      notes: data.notes,
+      tags: data.tags || []
+    } : c));
+  };
+
+  const sendPortfolioLink = async (accessCode: string | null) => {
+    if (!selectedClient) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}/notify/link`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ linkId: activeLink?.id, accessCode })
+    });
+    const data = await res.json();
+    fetchNotifications(selectedClient);
+    if (!res.ok) throw new Error(data.error);
+  };
+
+  const saveDeliveryQuality = async (quality: DeliveryQuality) => {
+    if (!selectedClient) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}/delivery`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ quality })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    setClients(prev => prev.map(c => c.id === selectedClient ? { ...c, deliveryQuality: data.deliveryQuality } : c));
+  };
+
+  const saveStatus = async (status: ClientStatus) => {
+    if (!selectedClient) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}/status`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ status })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    setClients(prev => prev.map(c => c.id === selectedClient ? { ...c, status: data.status } : c));
     fetchPhotos(selectedClient);
+  };
+
+  const createLink = async (link: { label: string; expiresAt: string | null; maxViews: number | null }) => {
+    if (!selectedClient) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}/links`, {
+      method: 'POST',
+      headers: { 
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}` 
+      },
+      body: JSON.stringify(link)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    fetchLinks(selectedClient);
+    fetchClients();
+  };
+
+  const revokeLink = async (linkId: string) => {
+    if (!selectedClient) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}/links/${linkId}/revoke`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    if (res.ok) {
+      fetchLinks(selectedClient);
+      fetchClients();
+    } else {
+      const err = await res.json();
+      alert(err.error);
+    }
+  };
+
+  const openPortfolio = (clientId: string, linkId: string | null | undefined) => {
+    if (!linkId) {
+      alert('Este cliente não tem nenhum link ativo. Crie um novo link no card "Status do Link".');
+      return;
+    }
+    window.open(portfolioUrl(clientId, linkId), '_blank');
+  };
+
+  const openComments = async (filename: string) => {
+    if (!selectedClient) return;
+    setCommentPhoto(filename);
+
+    const hasUnread = comments.some(c => c.filename === filename && c.author === 'client' && !c.readAt);
+    if (!hasUnread || !canManage) return;
+
+    const res = await fetch(`/api/admin/clients/${selectedClient}/photos/${encodeURIComponent(filename)}/comments/read`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    if (res.ok) {
+      fetchComments(selectedClient);
+      fetchClients();
+    }
+  };
+
+  const sendComment = async (body: string) => {
+    if (!selectedClient || !commentPhoto) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}/photos/${encodeURIComponent(commentPhoto)}/comments`, {
+      method: 'POST',
+      headers: { 
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}` 
+      },
+      body: JSON.stringify({ body })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    setComments(prev => [...prev, data]);
+  };
+
+  // Errors from the upload routes; quota and validation errors are not worth retrying
+  const uploadRequest = async (path: string, body: unknown) => {
+    const res = await fetch(`/api/admin/clients/${selectedClient}/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify(body)
+    });
+    const data = await res.json().catch(() => ({ error: `Erro ${res.status}` }));
+    if (!res.ok) throw new UploadError(data.error || 'Erro desconhecido', res.status >= 400 && res.status < 500 && res.status !== 429);
+    return data;
+  };
+
+  const runUploads = async (items: UploadItem[], albumId: string | null) => {
+    if (!selectedClient) return;
+    const clientId = selectedClient;
+    const preset = getPreset(compressionPreset);
+    setUploading(true);
+
+    await runUploadQueue(items, {
+      prepare: async (file) => {
+        const prepared = await compressImage(file, preset);
+        if (quotas && prepared.size > quotas.maxFileSize) {
+          throw new UploadError(`Arquivo muito grande (máx ${formatBytes(quotas.maxFileSize)})`, true);
+        }
+        return prepared;
+      },
+      requestTarget: async (file) => {
+        const data = await uploadRequest('uploads', { files: [{ name: file.name, size: file.size, type: file.type }] });
+        return data.uploads[0];
+      },
+      confirm: async (file, filename) => {
+        await uploadRequest('uploads/confirm', { filename, originalName: file.name, albumId });
+      }
+    }, {
+      concurrency: 3,
+      retries: 3,
+      onChange: (changed) => setUploadItems(prev => prev.map(i => i.id === changed.id ? changed : i))
+    });
+
     setUploading(false);
+    fetchPhotos(clientId);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!selectedClient || !e.target.files) return;
+
+    const items = createUploadItems(Array.from(e.target.files));
+    e.target.value = '';
+    const albumId = albums.some(a => a.id === activeAlbum) ? activeAlbum : null;
+
+    // Without compression, files over the limit fail right away instead of being sent
+    for (const item of items) {
+      if (compressionPreset === 'original' && quotas && item.file.size > quotas.maxFileSize) {
+        Object.assign(item, { status: 'error', error: `Arquivo muito grande (máx ${formatBytes(quotas.maxFileSize)})` });
+      }
+    }
+
+    setUploadItems(items);
+    setUploadAlbumId(albumId);
+    await runUploads(items.filter(i => i.status !== 'error'), albumId);
+  };
+
+  const retryUploads = () => {
+    runUploads(uploadItems.filter(i => i.status === 'error'), uploadAlbumId);
   };
 
   const deletePhoto = async (filename: string) => {
     if (!selectedClient) return;
     const res = await fetch(`/api/admin/photos/${selectedClient}/${filename}`, {
       method: 'DELETE',
-      headers: { 'Authorization': `Bearer ${password}` }
+      headers: { 'Authorization': `Bearer ${token}` }
     });
     if (res.ok) {
       fetchPhotos(selectedClient);
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('admin_pass');
+  // Drag-and-drop ordering: the grid reorders locally while dragging and the order is saved on drop
+  const dragOverPhoto = (target: string) => {
+    if (!draggedPhoto || draggedPhoto === target) return;
+    setPhotos(prev => {
+      const from = prev.findIndex(p => p.name === draggedPhoto);
+      const to = prev.findIndex(p => p.name === target);
+      // Photos only move inside their own album
+      if (from < 0 || to < 0 || prev[from].albumId !== prev[to].albumId) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const savePhotoOrder = async () => {
+    if (!selectedClient || !draggedPhoto) return;
+    const albumId = photos.find(p => p.name === draggedPhoto)?.albumId ?? null;
+    setDraggedPhoto(null);
+
+    const res = await fetch(`/api/admin/clients/${selectedClient}/photos/order`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ filenames: photos.filter(p => p.albumId === albumId).map(p => p.name) })
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      alert(err.error);
+      fetchPhotos(selectedClient);
+    }
+  };
+
+  const sortByCapture = async () => {
+    if (!selectedClient) return;
+    if (!confirm('Reordenar todas as fotos pela data de captura? A ordem manual atual será substituída.')) return;
+
+    const res = await fetch(`/api/admin/clients/${selectedClient}/photos/sort-by-capture`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      alert(data.error);
+      return;
+    }
+    if (data.undated > 0) alert(`${data.undated} foto(s) sem data de captura foram mantidas no final.`);
+    fetchPhotos(selectedClient);
+  };
+
+  const setCover = async (filename: string | null) => {
+    if (!selectedClient) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}/cover`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ filename })
+    });
+    if (res.ok) {
+      fetchClients();
+      setClients(prev => prev.map(c => c.id === selectedClient ? { ...c, coverPhoto: filename } : c));
+    } else {
+      const err = await res.json();
+      alert(err.error);
+    }
+  };
+
+  const editCaption = async (filename: string, current: string | null) => {
+    if (!selectedClient) return;
+    const caption = prompt('Legenda da foto (deixe em branco para remover):', current || '');
+    if (caption === null) return;
+
+    const res = await fetch(`/api/admin/clients/${selectedClient}/photos/${encodeURIComponent(filename)}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ caption })
+    });
+    if (res.ok) {
+      fetchPhotos(selectedClient);
+    } else {
+      const err = await res.json();
+      alert(err.error);
+    }
+  };
+
+  const reconcilePhotos = async () => {
+    if (!selectedClient) return;
+    if (!confirm('Sincronizar com o storage? Fotos sem prévia são reconstruídas a partir do original; registros sem nenhum arquivo são removidos junto com a seleção e os comentários dessas fotos.')) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}/photos/reconcile`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      alert(data.error);
+      return;
+    }
+    alert(`Sincronização concluída.\n\nAdicionadas: ${data.added}\nReconstruídas: ${data.rebuilt}\nRemovidas: ${data.removed}\nAtualizadas: ${data.updated}`);
+    fetchPhotos(selectedClient);
+  };
+
+  const protectLegacyPhotos = async () => {
+    if (!selectedClient) return;
+    setProtecting(true);
+    try {
+      const res = await fetch(`/api/admin/clients/${selectedClient}/derivatives`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      alert(`${data.processed} de ${data.total} fotos protegidas com marca d'água.`);
+      fetchPhotos(selectedClient);
+    } catch (e: any) {
+      alert(e.message || 'Erro ao processar fotos antigas');
+    } finally {
+      setProtecting(false);
+    }
+  };
+
+  const unlockSelection = async () => {
+    if (!selectedClient) return;
+    if (!confirm('Desbloquear a seleção? O cliente poderá alterar as fotos escolhidas e enviar novamente.')) return;
+    const res = await fetch(`/api/admin/clients/${selectedClient}/selection/unlock`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    if (res.ok) {
+      fetchPhotos(selectedClient);
+    } else {
+      const err = await res.json();
+      alert(err.error);
+    }
+  };
+
+  const copySelection = () => {
+    const numbers = photos
+      .map((photo, index) => selection.includes(photo.name) ? `FOTO #${String(index + 1).padStart(2, '0')}` : null)
+      .filter(Boolean);
+    navigator.clipboard.writeText(numbers.join('\n'));
+    alert('Lista de fotos selecionadas copiada!');
+  };
+
+  const changeOwnPassword = async () => {
+    const currentPassword = prompt('Senha atual:');
+    if (!currentPassword) return;
+    const newPassword = prompt('Nova senha (mínimo 8 caracteres):');
+    if (!newPassword) return;
+
+    const res = await fetch('/api/admin/me/password', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ currentPassword, newPassword })
+    });
+    if (res.ok) {
+      alert('Senha alterada com sucesso!');
+    } else {
+      const err = await res.json();
+      alert(err.error);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/admin/logout', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+    } catch (e) {
+      console.error('Logout error:', e);
+    }
+    localStorage.removeItem('admin_token');
     setIsLoggedIn(false);
-    setPassword('');
+    setToken('');
+    setMe(null);
+    setView('clients');
+    setSelectedClient(null);
   };
 
+  const isOwner = me?.role === 'owner';
+  const canManage = isOwner || me?.role === 'photographer';
+  const currentClient = clients.find(c => c.id === selectedClient);
+  const visibleClients = filterClients<AdminClient>(clients, clientFilters);
+  const clientTags = Array.from(new Set<string>(clients.flatMap((c: AdminClient) => c.tags || []))).sort();
+  const visiblePhotos = activeAlbum === ''
+    ? photos
+    : photos.filter(p => activeAlbum === 'unsorted' ? !p.albumId : p.albumId === activeAlbum);
+  const activeLink = links.find(l => l.active);
+
   if (!isLoggedIn) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-[#0a0a0a] p-4 font-sans">
@@ -274,6 +902,17 @@ export default function AdminPanel() {
           <p className="text-zinc-500 text-center text-sm mb-10 uppercase tracking-[0.2em] font-medium">Acesso Restrito</p>
           
           <form onSubmit={handleLogin} className="space-y-6">
+            <div className="space-y-2">
+              <label className="block text-[10px] uppercase tracking-widest text-zinc-500 font-bold ml-1">Usuário</label>
+              <input 
+                type="text" 
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full bg-white/5 border border-white/10 rounded-2xl p-4 text-white focus:outline-none focus:border-red-600/50 focus:bg-white/10 transition-all text-center"
+                placeholder="E-mail (ou deixe em branco para admin)"
+                autoComplete="username"
+              />
+            </div>
             <div className="space-y-2">
               <label className="block text-[10px] uppercase tracking-widest text-zinc-500 font-bold ml-1">Senha de Segurança</label>
               <input 
@@ -285,8 +924,11 @@ export default function AdminPanel() {
                 required
               />
             </div>
-            <button className="w-full bg-red-600 hover:bg-red-700 text-white font-bold py-4 rounded-2xl transition-all shadow-lg shadow-red-600/20 active:scale-[0.98]">
-              AUTENTICAR
+            <button 
+              disabled={loggingIn}
+              className="w-full bg-red-600 hover:bg-red-700 disabled:bg-zinc-800 text-white font-bold py-4 rounded-2xl transition-all shadow-lg shadow-red-600/20 active:scale-[0.98]"
+            >
+              {loggingIn ? 'VERIFICANDO...' : 'AUTENTICAR'}
             </button>
           </form>
           
@@ -302,37 +944,15 @@ export default function AdminPanel() {
       <div className="w-full md:w-80 bg-[#0a0a0a] border-r border-white/5 p-8 flex flex-col relative z-20">
         <div className="mb-6 flex flex-col gap-1">
           <div className="flex items-center gap-2">
-            <div className={`w-2 h-2 rounded-full ${supabaseStatus === 'connected' ? 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.5)]' : supabaseStatus === 'loading' ? 'bg-zinc-500 animate-pulse' : 'bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.5)]'}`} />
+            <div className={`w-2 h-2 rounded-full ${serverStatus === 'connected' ? 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.5)]' : serverStatus === 'loading' ? 'bg-zinc-500 animate-pulse' : 'bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.5)]'}`} />
             <span className="text-[10px] uppercase tracking-widest font-bold text-zinc-500">
-              {supabaseStatus === 'connected' ? 'Supabase Online' : supabaseStatus === 'loading' ? 'Verificando...' : 'Supabase Offline'}
+              {serverStatus === 'connected' ? 'Servidor Online' : serverStatus === 'loading' ? 'Verificando...' : 'Servidor Indisponível'}
             </span>
           </div>
-          {supabaseStatus === 'error' && supabaseError && (
-            <div className="flex flex-col gap-2 ml-4">
-              <span className="text-[9px] text-red-500/70 leading-tight">
-                {supabaseError}
-              </span>
-              {supabaseError.includes('photos') && (
-                <button 
-                  onClick={async () => {
-                    const res = await fetch('/api/admin/setup-storage', {
-                      method: 'POST',
-                      headers: { 'Authorization': `Bearer ${password}` }
-                    });
-                    if (res.ok) {
-                      alert('Storage configurado com sucesso! Recarregando...');
-                      window.location.reload();
-                    } else {
-                      const err = await res.json();
-                      alert('Erro ao configurar: ' + err.error + '\n\nCertifique-se de que a chave SUPABASE_SERVICE_ROLE_KEY está configurada nos Secrets.');
-                    }
-                  }}
-                  className="text-[8px] bg-red-600/20 hover:bg-red-600/40 text-red-500 px-2 py-1 rounded border border-red-500/30 transition-all w-fit uppercase font-bold"
-                >
-                  Consertar Storage
-                </button>
-              )}
-            </div>
+          {serverStatus === 'error' && serverError && (
+            <span className="text-[9px] text-red-500/70 leading-tight ml-4">
+              {serverError}
+            </span>
           )}
         </div>
         <div className="flex items-center justify-between mb-12">
@@ -347,7 +967,49 @@ export default function AdminPanel() {
           </button>
         </div>
 
-        <div className="mb-10">
+        {me && (
+          <div className="mb-10 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-sm font-bold truncate">{me.name}</p>
+              <p className="text-[10px] uppercase tracking-widest text-zinc-500 font-bold">{ROLE_LABELS[me.role]}</p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <button onClick={changeOwnPassword} className="text-zinc-600 hover:text-white transition-colors p-2 hover:bg-white/5 rounded-lg" title="Alterar senha">
+                <KeyRound size={16} />
+              </button>
+              {isOwner && (
+                <button
+                  onClick={() => { setView('team'); setSelectedClient(null); }}
+                  className={`transition-colors p-2 rounded-lg ${view === 'team' ? 'bg-red-600 text-white' : 'text-zinc-600 hover:text-white hover:bg-white/5'}`}
+                  title="Equipe"
+                >
+                  <Users size={16} />
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {isOwner && quotas && (
+          <div className="mb-10">
+            <h3 className="text-xs uppercase tracking-widest text-zinc-500 font-bold mb-4">Plano e Limites</h3>
+            <QuotaSettings quotas={quotas} onSave={saveQuotas} />
+            <label className="block mt-4 text-[10px] uppercase tracking-widest text-zinc-500 font-bold">
+              Compressão padrão
+              <select
+                value={defaultPreset}
+                onChange={(e) => saveDefaultPreset(e.target.value as CompressionPresetId)}
+                className="w-full mt-2 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs normal-case tracking-normal font-medium focus:outline-none focus:border-red-600/50"
+              >
+                {COMPRESSION_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id} className="bg-zinc-900">{preset.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+
+        {isOwner && <div className="mb-10">
           <h3 className="text-xs uppercase tracking-widest text-zinc-500 font-bold mb-4">Identidade Visual</h3>
           <div className="bg-white/5 border border-white/10 rounded-2xl p-5 shadow-inner">
             <div className="flex items-center justify-between mb-4">
@@ -365,9 +1027,9 @@ export default function AdminPanel() {
               <input type="file" accept="image/*" className="hidden" onChange={handleLogoUpload} />
             </label>
           </div>
-        </div>
+        </div>}
 
-        <div className="mb-10">
+        {canManage && <div className="mb-10">
           <h3 className="text-xs uppercase tracking-widest text-zinc-500 font-bold mb-4">Novo Cliente</h3>
           <form onSubmit={createClient} className="relative">
             <input 
@@ -378,41 +1040,126 @@ export default function AdminPanel() {
               className="w-full bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-sm focus:outline-none focus:border-red-600/50 transition-all pr-12"
               required
             />
-            <button className="absolute right-2 top-1/2 -translate-y-1/2 bg-red-600 p-2 rounded-xl hover:bg-red-700 transition-all shadow-lg shadow-red-600/20 active:scale-90">
+            <button className="absolute right-2 top-2 bg-red-600 p-2 rounded-xl hover:bg-red-700 transition-all shadow-lg shadow-red-600/20 active:scale-90">
               <Plus size={18} />
             </button>
+            <input 
+              type="number" 
+              min={1}
+              value={newClientQuota}
+              onChange={(e) => setNewClientQuota(e.target.value)}
+              placeholder="Fotos para seleção (opcional)"
+              className="w-full mt-3 bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-sm focus:outline-none focus:border-red-600/50 transition-all"
+            />
+            <input 
+              type="text" 
+              value={newClientCode}
+              onChange={(e) => setNewClientCode(e.target.value)}
+              placeholder="Código de acesso (opcional)"
+              minLength={4}
+              maxLength={32}
+              autoComplete="off"
+              className="w-full mt-3 bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-sm focus:outline-none focus:border-red-600/50 transition-all"
+            />
+            <input 
+              type="email" 
+              value={newClientEmail}
+              onChange={(e) => setNewClientEmail(e.target.value)}
+              placeholder="E-mail do cliente (opcional)"
+              className="w-full mt-3 bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-sm focus:outline-none focus:border-red-600/50 transition-all"
+            />
+            <input 
+              type="tel" 
+              value={newClientPhone}
+              onChange={(e) => setNewClientPhone(e.target.value)}
+              placeholder="Telefone (opcional)"
+              className="w-full mt-3 bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-sm focus:outline-none focus:border-red-600/50 transition-all"
+            />
+            <div className="flex gap-3 mt-3">
+              <input 
+                type="text" 
+                list="new-client-event-types"
+                value={newClientEventType}
+                onChange={(e) => setNewClientEventType(e.target.value)}
+                placeholder="Tipo de evento"
+                maxLength={60}
+                className="min-w-0 flex-1 bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-sm focus:outline-none focus:border-red-600/50 transition-all"
+              />
+              <datalist id="new-client-event-types">
+                {EVENT_TYPES.map(type => <option key={type} value={type} />)}
+              </datalist>
+              <input 
+                type="date" 
+                value={newClientEventDate}
+                onChange={(e) => setNewClientEventDate(e.target.value)}
+                title="Data do evento"
+                className="min-w-0 flex-1 bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-sm focus:outline-none focus:border-red-600/50 transition-all"
+              />
+            </div>
           </form>
-          <p className="text-[10px] text-zinc-600 mt-3 uppercase tracking-widest font-medium">Limite: 4 clientes</p>
-        </div>
+          {quotas && (
+            <p className="text-[10px] text-zinc-600 mt-3 uppercase tracking-widest font-medium">Limite: {quotas.clients}/{quotas.maxClients} clientes</p>
+          )}
+        </div>}
 
         <div className="flex-1 overflow-y-auto">
-          <h3 className="text-xs uppercase tracking-widest text-zinc-500 font-bold mb-4">Clientes ({clients.length}/4)</h3>
+          <h3 className="text-xs uppercase tracking-widest text-zinc-500 font-bold mb-4">
+            Clientes ({visibleClients.length === clients.length ? clients.length : `${visibleClients.length}/${clients.length}`})
+          </h3>
+          {clients.length > 0 && (
+            <ClientFilters filters={clientFilters} tags={clientTags} onChange={setClientFilters} />
+          )}
           <div className="space-y-3">
-            {clients.map(client => (
+            {visibleClients.length === 0 && clients.length > 0 && (
+              <p className="text-zinc-600 text-xs text-center py-6">Nenhum cliente encontrado</p>
+            )}
+            {visibleClients.map(client => (
               <div 
                 key={client.id}
-                onClick={() => fetchPhotos(client.id)}
+                onClick={() => { setView('clients'); fetchPhotos(client.id); }}
                 className={`group flex items-center justify-between p-4 rounded-2xl cursor-pointer transition-all ${selectedClient === client.id ? 'bg-red-600 text-white shadow-lg shadow-red-600/20' : 'bg-white/5 hover:bg-white/10 border border-white/5'}`}
               >
-                <div className="flex flex-col">
-                  <span className={`font-bold text-sm ${selectedClient === client.id ? 'text-white' : 'text-zinc-200'}`}>{client.name}</span>
-                  <span className={`text-[10px] font-mono ${selectedClient === client.id ? 'text-white/60' : 'text-zinc-500'}`}>{client.id}</span>
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="w-10 h-10 shrink-0 rounded-lg overflow-hidden bg-black/30 border border-white/10 flex items-center justify-center">
+                    {client.coverUrl ? (
+                      <img src={client.coverUrl} alt="" className="w-full h-full object-cover" />
+                    ) : (
+                      <ImageIcon size={14} className="text-zinc-600" />
+                    )}
+                  </div>
+                  <div className="flex flex-col min-w-0">
+                    <span className={`font-bold text-sm flex items-center gap-2 ${selectedClient === client.id ? 'text-white' : 'text-zinc-200'}`}>
+                      {client.name}
+                      {client.hasAccessCode && (
+                        <Lock size={12} className={selectedClient === client.id ? 'text-white/70' : 'text-zinc-500'} aria-label="Protegido por código" />
+                      )}
+                      {client.unreadComments > 0 && (
+                        <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded-full flex items-center gap-1 ${selectedClient === client.id ? 'bg-white text-red-600' : 'bg-red-600 text-white'}`} title="Comentários não lidos">
+                          <MessageCircle size={10} />
+                          {client.unreadComments}
+                        </span>
+                      )}
+                    </span>
+                    <span className={`text-[10px] font-mono ${selectedClient === client.id ? 'text-white/60' : 'text-zinc-500'}`}>{client.id} · {CLIENT_STATUS_LABELS[client.status]}</span>
+                  </div>
                 </div>
                 <div className="flex items-center gap-2">
                   <button 
-                    onClick={(e) => { e.stopPropagation(); window.open(`/portfolio/${client.id}`, '_blank'); }}
+                    onClick={(e) => { e.stopPropagation(); openPortfolio(client.id, client.activeLinkId); }}
                     className={`transition-all ${selectedClient === client.id ? 'text-white/70 hover:text-white' : 'opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-white'}`}
                     title="Visualizar Portfólio"
                   >
                     <Maximize2 size={16} />
                   </button>
-                  <button 
-                    onClick={(e) => { e.stopPropagation(); deleteClient(client.id); }}
-                    className={`transition-all ${selectedClient === client.id ? 'text-white/70 hover:text-white' : 'opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-500'}`}
-                    title="Excluir Cliente"
-                  >
-                    <Trash2 size={16} />
-                  </button>
+                  {canManage && (
+                    <button 
+                      onClick={(e) => { e.stopPropagation(); deleteClient(client.id); }}
+                      className={`transition-all ${selectedClient === client.id ? 'text-white/70 hover:text-white' : 'opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-500'}`}
+                      title="Excluir Cliente"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
@@ -422,7 +1169,14 @@ export default function AdminPanel() {
 
       {/* Main Content */}
       <div className="flex-1 p-6 md:p-12 overflow-y-auto bg-[#0f0f0f]">
-        {selectedClient ? (
+        {view === 'team' && isOwner && me ? (
+          <UserManagement
+            token={token}
+            currentUserId={me.id}
+            clients={clients}
+            onClientsChanged={fetchClients}
+          />
+        ) : selectedClient ? (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
@@ -431,33 +1185,67 @@ export default function AdminPanel() {
             <div className="flex flex-col lg:flex-row lg:items-center justify-between mb-12 gap-6">
               <div>
                 <div className="flex items-center gap-3 mb-2">
-                  <span className="bg-red-600/20 text-red-500 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider">Cliente Ativo</span>
+                  {currentClient && (
+                    <span className={`text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider ${CLIENT_STATUS_STYLES[currentClient.status]}`}>
+                      {CLIENT_STATUS_LABELS[currentClient.status]}
+                    </span>
+                  )}
                   <span className="text-zinc-600 text-[10px] font-mono">{selectedClient}</span>
                 </div>
                 <h2 className="text-4xl md:text-5xl font-bold font-display tracking-tight">{clients.find(c => c.id === selectedClient)?.name}</h2>
-                <div className="flex items-center gap-3 text-zinc-500 mt-4 group cursor-pointer" onClick={() => {
-                  const url = `${window.location.origin}/portfolio/${selectedClient}`;
-                  navigator.clipboard.writeText(url);
-                  alert('Link copiado!');
-                }}>
-                  <div className="bg-zinc-800 p-2 rounded-lg group-hover:bg-zinc-700 transition-colors">
-                    <LinkIcon size={16} />
+                {currentClient?.createdByName && (
+                  <p className="text-zinc-600 text-xs mt-2">Criado por {currentClient.createdByName}</p>
+                )}
+                {currentClient && (
+                  <div className="mt-4">
+                    <ClientStatusStepper status={currentClient.status} onChange={saveStatus} readOnly={!canManage} />
                   </div>
-                  <span className="text-sm font-mono opacity-60 group-hover:opacity-100 transition-opacity">/portfolio/{selectedClient}</span>
-                  <span className="text-[10px] bg-zinc-800 px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity">Copiar Link</span>
-                </div>
+                )}
+                {activeLink ? (
+                  <div className="flex items-center gap-3 text-zinc-500 mt-4 group cursor-pointer" onClick={() => {
+                    navigator.clipboard.writeText(portfolioUrl(selectedClient, activeLink.id));
+                    alert('Link copiado!');
+                  }}>
+                    <div className="bg-zinc-800 p-2 rounded-lg group-hover:bg-zinc-700 transition-colors">
+                      <LinkIcon size={16} />
+                    </div>
+                    <span className="text-sm font-mono opacity-60 group-hover:opacity-100 transition-opacity">/portfolio/{selectedClient}?link={activeLink.id.slice(0, 6)}…</span>
+                    <span className="text-[10px] bg-zinc-800 px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity">Copiar Link</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-3 text-zinc-600 mt-4">
+                    <div className="bg-zinc-900 p-2 rounded-lg">
+                      <LinkIcon size={16} />
+                    </div>
+                    <span className="text-sm">Nenhum link ativo</span>
+                  </div>
+                )}
               </div>
 
               <div className="flex flex-wrap items-center gap-4">
                 <button 
-                  onClick={() => window.open(`/portfolio/${selectedClient}`, '_blank')}
+                  onClick={() => openPortfolio(selectedClient, activeLink?.id)}
                   className="flex items-center gap-3 px-8 py-4 rounded-xl font-bold bg-red-600 text-white hover:bg-red-700 transition-all shadow-xl shadow-red-600/20 active:scale-95"
                 >
                   <Maximize2 size={20} />
                   <span className="text-sm">Abrir Portfólio</span>
                 </button>
 
-                <label className={`flex items-center gap-3 px-8 py-4 rounded-xl font-bold cursor-pointer transition-all shadow-xl ${uploading ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed' : 'bg-white text-black hover:scale-105 active:scale-95'}`}>
+                {canManage && (
+                  <select
+                    value={compressionPreset}
+                    onChange={(e) => setCompressionPreset(e.target.value as CompressionPresetId)}
+                    disabled={uploading}
+                    className="bg-zinc-900 border border-white/10 rounded-xl px-4 py-4 text-xs font-bold focus:outline-none focus:border-red-600/50"
+                    title="Compressão antes do envio"
+                  >
+                    {COMPRESSION_PRESETS.map(preset => (
+                      <option key={preset.id} value={preset.id}>{preset.label}</option>
+                    ))}
+                  </select>
+                )}
+
+                {canManage && <label className={`flex items-center gap-3 px-8 py-4 rounded-xl font-bold cursor-pointer transition-all shadow-xl ${uploading ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed' : 'bg-white text-black hover:scale-105 active:scale-95'}`}>
                   <Upload size={20} className={uploading ? 'animate-bounce' : ''} />
                   <span className="text-sm">{uploading ? 'Enviando fotos...' : 'Adicionar Fotos'}</span>
                   <input 
@@ -466,71 +1254,266 @@ export default function AdminPanel() {
                     accept="image/jpeg,image/png,image/webp" 
                     className="hidden" 
                     onChange={handleUpload}
-                    disabled={uploading || photos.length >= 30}
+                    disabled={uploading || (!!quotas && usage.photos >= quotas.maxPhotosPerClient)}
                   />
-                </label>
+                </label>}
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-12">
+            <div className="grid grid-cols-1 md:grid-cols-2 items-start gap-6 mb-12">
               <div className="bg-zinc-900/50 border border-zinc-800 p-6 rounded-2xl">
-                <p className="text-zinc-500 text-xs uppercase tracking-widest font-bold mb-1">Armazenamento</p>
+                <div className="flex items-center justify-between">
+                  <p className="text-zinc-500 text-xs uppercase tracking-widest font-bold mb-1">Armazenamento</p>
+                  {canManage && (
+                    <button onClick={reconcilePhotos} className="text-zinc-600 hover:text-white transition-colors p-1" title="Sincronizar com o storage">
+                      <RefreshCw size={14} />
+                    </button>
+                  )}
+                </div>
                 <div className="flex items-end gap-2">
-                  <span className="text-3xl font-bold font-display">{photos.length}</span>
-                  <span className="text-zinc-600 mb-1">/ 30 fotos</span>
+                  <span className="text-3xl font-bold font-display">{usage.photos}</span>
+                  <span className="text-zinc-600 mb-1">{quotas ? `/ ${quotas.maxPhotosPerClient} fotos` : 'fotos'}</span>
                 </div>
                 <div className="w-full bg-zinc-800 h-1.5 rounded-full mt-4 overflow-hidden">
                   <motion.div 
                     initial={{ width: 0 }}
-                    animate={{ width: `${(photos.length / 30) * 100}%` }}
-                    className={`h-full rounded-full ${photos.length >= 25 ? 'bg-red-600' : 'bg-zinc-400'}`}
+                    animate={{ width: `${quotas ? Math.min(usage.photos / quotas.maxPhotosPerClient, 1) * 100 : 0}%` }}
+                    className={`h-full rounded-full ${quotas && usage.photos >= quotas.maxPhotosPerClient * 0.85 ? 'bg-red-600' : 'bg-zinc-400'}`}
+                  />
+                </div>
+                <div className="flex items-center justify-between mt-4 text-xs">
+                  <span className="text-zinc-400 font-mono">{formatBytes(usage.bytes)}</span>
+                  <span className="text-zinc-600">{quotas ? `de ${formatBytes(quotas.maxBytesPerClient)}` : ''}</span>
+                </div>
+                <div className="w-full bg-zinc-800 h-1.5 rounded-full mt-2 overflow-hidden">
+                  <motion.div 
+                    initial={{ width: 0 }}
+                    animate={{ width: `${quotas ? Math.min(usage.bytes / quotas.maxBytesPerClient, 1) * 100 : 0}%` }}
+                    className={`h-full rounded-full ${quotas && usage.bytes >= quotas.maxBytesPerClient * 0.85 ? 'bg-red-600' : 'bg-zinc-400'}`}
                   />
                 </div>
               </div>
-              <div className="bg-zinc-900/50 border border-zinc-800 p-6 rounded-2xl flex items-center justify-between">
-                <div>
-                  <p className="text-zinc-500 text-xs uppercase tracking-widest font-bold mb-1">Status do Link</p>
-                  <span className="text-emerald-500 font-bold flex items-center gap-2">
-                    <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse" />
-                    Online e Público
-                  </span>
+              <ShareLinksCard
+                clientId={selectedClient}
+                links={links}
+                accesses={accesses}
+                onCreate={createLink}
+                onRevoke={revokeLink}
+                readOnly={!canManage}
+              />
+            </div>
+
+            {photos.some(p => p.legacy) && (
+              <div className="bg-amber-500/10 border border-amber-500/20 p-6 rounded-2xl mb-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <p className="text-amber-500 text-sm">
+                  {photos.filter(p => p.legacy).length} fotos foram enviadas antes da marca d'água automática e ainda são o arquivo original. O portfólio só as mostra depois de processadas, o que acontece na próxima visita do cliente.
+                </p>
+                {canManage && <button
+                  onClick={protectLegacyPhotos}
+                  disabled={protecting}
+                  className="shrink-0 bg-amber-500/20 hover:bg-amber-500/30 text-amber-500 border border-amber-500/30 px-4 py-3 rounded-xl text-xs font-bold transition-colors disabled:opacity-50"
+                >
+                  {protecting ? 'Processando...' : 'Proteger agora'}
+                </button>}
+              </div>
+            )}
+
+            <div className="bg-zinc-900/50 border border-zinc-800 p-6 rounded-2xl mb-12 flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <p className="text-zinc-500 text-xs uppercase tracking-widest font-bold mb-1">Seleção do Cliente</p>
+                <div className="flex items-end gap-2">
+                  <span className="text-3xl font-bold font-display">{selection.length}</span>
+                  <span className="text-zinc-600 mb-1">{currentClient?.selectionQuota ? `/ ${currentClient.selectionQuota} fotos` : 'fotos'}</span>
                 </div>
-                <button 
-                  onClick={() => window.open(`/portfolio/${selectedClient}`, '_blank')}
-                  className="bg-zinc-800 hover:bg-zinc-700 p-3 rounded-xl transition-colors"
+                <span className={`text-xs font-bold mt-2 inline-block ${currentClient?.selectionSubmittedAt ? 'text-emerald-500' : 'text-zinc-500'}`}>
+                  {currentClient?.selectionSubmittedAt
+                    ? `Enviada em ${new Date(currentClient.selectionSubmittedAt).toLocaleString('pt-BR')}`
+                    : 'Em andamento'}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={copySelection}
+                  disabled={selection.length === 0}
+                  className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 px-4 py-3 rounded-xl text-xs font-bold transition-colors"
                 >
-                  <Maximize2 size={20} />
+                  <Copy size={16} />
+                  Copiar lista
                 </button>
+                {canManage && currentClient?.selectionSubmittedAt && (
+                  <button
+                    onClick={unlockSelection}
+                    className="flex items-center gap-2 bg-red-600/20 hover:bg-red-600/40 text-red-500 border border-red-500/30 px-4 py-3 rounded-xl text-xs font-bold transition-colors"
+                  >
+                    <Unlock size={16} />
+                    Desbloquear
+                  </button>
+                )}
               </div>
             </div>
 
+            {currentClient && (
+              <ClientDetailsCard
+                details={{
+                  name: currentClient.name,
+                  email: currentClient.email,
+                  phone: currentClient.phone,
+                  eventType: currentClient.eventType,
+                  eventDate: currentClient.eventDate,
+                  notes: currentClient.notes,
+                  tags: currentClient.tags || []
+                }}
+                onSave={saveDetails}
+                readOnly={!canManage}
+              />
+            )}
+
+            <NotificationsCard
+              email={currentClient?.email || null}
+              hasAccessCode={!!currentClient?.hasAccessCode}
+              notifications={notifications}
+              onSendLink={sendPortfolioLink}
+              readOnly={!canManage}
+            />
+
+            <DeliveryCard
+              delivered={currentClient?.status === 'delivered'}
+              quality={currentClient?.deliveryQuality || 'original'}
+              downloads={downloads}
+              onQualityChange={saveDeliveryQuality}
+              readOnly={!canManage}
+            />
+
+            <AlbumsBar
+              albums={albums}
+              active={activeAlbum}
+              totalPhotos={photos.length}
+              unsortedCount={photos.filter(p => !p.albumId).length}
+              readOnly={!canManage}
+              onSelect={setActiveAlbum}
+              onCreate={createAlbum}
+              onRename={renameAlbum}
+              onDelete={deleteAlbum}
+              onReorder={reorderAlbums}
+            />
+
+            {canManage && photos.length > 1 && (
+              <div className="flex justify-end mb-4">
+                <button
+                  onClick={sortByCapture}
+                  className="flex items-center gap-2 text-zinc-500 hover:text-white text-[10px] uppercase tracking-widest font-bold transition-colors"
+                  title="Intercala as fotos de todas as câmeras pela data de captura"
+                >
+                  <CalendarClock size={14} />
+                  Ordenar por captura
+                </button>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
-              {photos.map((photo, index) => (
-                <div key={photo.name} className="relative aspect-[2/3] group rounded-2xl overflow-hidden bg-zinc-900 border border-white/5 shadow-xl">
-                  <img src={photo.url} alt="" className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110" />
+              {visiblePhotos.map(photo => (
+                <div
+                  key={photo.name}
+                  draggable={canManage}
+                  onDragStart={() => setDraggedPhoto(photo.name)}
+                  onDragOver={(e) => { e.preventDefault(); dragOverPhoto(photo.name); }}
+                  onDrop={(e) => { e.preventDefault(); savePhotoOrder(); }}
+                  onDragEnd={() => setDraggedPhoto(null)}
+                  className={`relative aspect-[2/3] group rounded-2xl overflow-hidden bg-zinc-900 border shadow-xl ${canManage ? 'cursor-grab' : ''} ${draggedPhoto === photo.name ? 'opacity-40 border-red-500' : 'border-white/5'}`}
+                >
+                  <img src={photo.thumbUrl} alt={photo.originalName || ''} title={photo.originalName || undefined} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110" />
                   
                   {/* Number Badge */}
                   <div className="absolute top-0 left-0 w-full h-16 bg-gradient-to-b from-black/80 to-transparent pointer-events-none z-10" />
                   <div className="absolute top-4 left-4 bg-white/10 backdrop-blur-md text-white text-[10px] font-bold w-7 h-7 flex items-center justify-center rounded-full border border-white/20 z-20">
-                    {String(index + 1).padStart(2, '0')}
+                    {String(photos.indexOf(photo) + 1).padStart(2, '0')}
                   </div>
+                  {comments.some(c => c.filename === photo.name) && (
+                    <div className={`absolute bottom-4 left-4 text-[10px] font-bold px-2 py-1 rounded-full flex items-center gap-1 z-20 ${comments.some(c => c.filename === photo.name && c.author === 'client' && !c.readAt) ? 'bg-red-600 text-white' : 'bg-black/60 text-zinc-300'}`}>
+                      <MessageCircle size={10} />
+                      {comments.filter(c => c.filename === photo.name).length}
+                    </div>
+                  )}
+                  {currentClient?.coverPhoto === photo.name && (
+                    <div className="absolute top-4 left-14 bg-amber-500 text-black text-[9px] font-bold px-2 h-7 flex items-center gap-1 rounded-full z-20 uppercase tracking-widest" title="Capa do portfólio">
+                      <Star size={10} fill="currentColor" />
+                      Capa
+                    </div>
+                  )}
+                  {selection.includes(photo.name) && (
+                    <div className="absolute top-4 right-4 bg-red-600 text-white w-7 h-7 flex items-center justify-center rounded-full z-20 shadow-lg shadow-red-600/30" title="Selecionada pelo cliente">
+                      <Heart size={12} fill="currentColor" />
+                    </div>
+                  )}
 
-                  <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-all flex items-center justify-center backdrop-blur-sm">
+                  <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-all flex items-center justify-center gap-3 backdrop-blur-sm">
                     <button 
-                      onClick={() => deletePhoto(photo.name)}
-                      className="bg-red-600 p-4 rounded-full hover:bg-red-700 transition-all hover:scale-110 shadow-xl shadow-red-600/20 transform translate-y-4 group-hover:translate-y-0"
+                      onClick={() => openComments(photo.name)}
+                      className="bg-white/10 p-4 rounded-full hover:bg-white/20 transition-all hover:scale-110 shadow-xl transform translate-y-4 group-hover:translate-y-0"
+                      title="Conversa"
                     >
-                      <Trash2 size={20} />
+                      <MessageCircle size={20} />
                     </button>
+                    {canManage && (
+                      <button 
+                        onClick={() => setCover(currentClient?.coverPhoto === photo.name ? null : photo.name)}
+                        className="bg-white/10 p-4 rounded-full hover:bg-white/20 transition-all hover:scale-110 shadow-xl transform translate-y-4 group-hover:translate-y-0"
+                        title={currentClient?.coverPhoto === photo.name ? 'Remover capa' : 'Definir como capa'}
+                      >
+                        <Star size={20} fill={currentClient?.coverPhoto === photo.name ? 'currentColor' : 'none'} />
+                      </button>
+                    )}
+                    {canManage && (
+                      <button 
+                        onClick={() => editCaption(photo.name, photo.caption)}
+                        className="bg-white/10 p-4 rounded-full hover:bg-white/20 transition-all hover:scale-110 shadow-xl transform translate-y-4 group-hover:translate-y-0"
+                        title={photo.caption ? `Legenda: ${photo.caption}` : 'Adicionar legenda'}
+                      >
+                        <Type size={20} />
+                      </button>
+                    )}
+                    {canManage && (
+                      <button 
+                        onClick={() => deletePhoto(photo.name)}
+                        className="bg-red-600 p-4 rounded-full hover:bg-red-700 transition-all hover:scale-110 shadow-xl shadow-red-600/20 transform translate-y-4 group-hover:translate-y-0"
+                      >
+                        <Trash2 size={20} />
+                      </button>
+                    )}
+                    <div className="absolute bottom-4 left-4 right-4 flex flex-col items-end gap-2">
+                      {canManage && albums.length > 0 && (
+                        <select
+                          value={photo.albumId || ''}
+                          onChange={(e) => movePhotoToAlbum(photo.name, e.target.value || null)}
+                          className="w-full bg-black/60 border border-white/10 rounded-lg px-2 py-1 text-[10px] focus:outline-none"
+                          title="Mover para álbum"
+                        >
+                          <option value="" className="bg-zinc-900">Sem álbum</option>
+                          {albums.map(album => (
+                            <option key={album.id} value={album.id} className="bg-zinc-900">{album.name}</option>
+                          ))}
+                        </select>
+                      )}
+                      {describeCamera(photo.exif) && (
+                        <span className="text-[9px] text-zinc-300 font-mono text-right" title={[photo.exif?.lens, photo.capturedAt && new Date(photo.capturedAt).toLocaleString('pt-BR')].filter(Boolean).join(' · ') || undefined}>
+                          {describeCamera(photo.exif)}
+                        </span>
+                      )}
+                      {photo.uploadedByName && (
+                        <span className="text-[9px] text-zinc-300 uppercase tracking-widest">
+                          por {photo.uploadedByName}
+                        </span>
+                      )}
+                    </div>
                   </div>
                 </div>
               ))}
-              {photos.length === 0 && (
+              {visiblePhotos.length === 0 && (
                 <div className="col-span-full py-32 flex flex-col items-center justify-center text-zinc-700 border-2 border-dashed border-zinc-800/50 rounded-3xl bg-zinc-900/20">
                   <div className="w-20 h-20 bg-zinc-900 rounded-full flex items-center justify-center mb-6 border border-zinc-800">
                     <ImageIcon size={32} className="opacity-20" />
                   </div>
-                  <h4 className="text-lg font-medium text-zinc-500">Nenhuma foto neste portfólio</h4>
+                  <h4 className="text-lg font-medium text-zinc-500">{activeAlbum ? 'Nenhuma foto neste álbum' : 'Nenhuma foto neste portfólio'}</h4>
                   <p className="text-sm text-zinc-600 mt-1">Comece fazendo o upload das fotos do cliente.</p>
                 </div>
               )}
@@ -546,6 +1529,51 @@ export default function AdminPanel() {
           </div>
         )}
       </div>
+
+      {uploadItems.length > 0 && (
+        <UploadPanel
+          items={uploadItems}
+          running={uploading}
+          onRetry={retryUploads}
+          onClose={() => setUploadItems([])}
+        />
+      )}
+
+      {/* Photo Conversation Panel */}
+      {selectedClient && commentPhoto && (
+        <motion.aside
+          initial={{ opacity: 0, x: 40 }}
+          animate={{ opacity: 1, x: 0 }}
+          className="fixed top-0 right-0 h-full w-full sm:w-96 bg-zinc-950/95 backdrop-blur-xl border-l border-white/10 p-6 flex flex-col z-50"
+        >
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3">
+              <img
+                src={photos.find(p => p.name === commentPhoto)?.thumbUrl}
+                alt=""
+                className="w-12 h-12 object-cover rounded-lg border border-white/10"
+              />
+              <div>
+                <p className="text-[10px] uppercase tracking-widest text-zinc-500 font-bold">Conversa</p>
+                <p className="font-bold font-display">FOTO #{String(photos.findIndex(p => p.name === commentPhoto) + 1).padStart(2, '0')}</p>
+              </div>
+            </div>
+            <button onClick={() => setCommentPhoto(null)} className="text-zinc-500 hover:text-white transition-colors p-2 hover:bg-white/5 rounded-lg">
+              <X size={18} />
+            </button>
+          </div>
+          <div className="flex-1 min-h-0">
+            <CommentThread
+              comments={comments.filter(c => c.filename === commentPhoto)}
+              viewer="studio"
+              onSend={sendComment}
+              readOnly={!canManage}
+            />
+          </div>
+        </motion.aside>
+      )}
+
+      {isOwner && <StatusIndicator token={token} />}
     </div>
   );
 }
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { Album } from '../../shared';
+
+interface AlbumsBarProps {
+  albums: Album[];
+  // '' shows every photo, 'unsorted' only photos without an album
+  active: string;
+  totalPhotos: number;
+  unsortedCount: number;
+  readOnly?: boolean;
+  onSelect: (filter: string) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (albumId: string, name: string) => Promise<void>;
+  onDelete: (albumId: string) => Promise<void>;
+  onReorder: (albumIds: string[]) => Promise<void>;
+}
+
+export default function AlbumsBar({ albums, active, totalPhotos, unsortedCount, readOnly = false, onSelect, onCreate, onRename, onDelete, onReorder }: AlbumsBarProps) {
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    try {
+      await onCreate(name);
+      setNewName('');
+    } catch (err: any) {
+      alert(err.message || 'Erro ao criar álbum');
+    }
+  };
+
+  const rename = async (album: Album) => {
+    const name = prompt('Novo nome do álbum:', album.name)?.trim();
+    if (!name || name === album.name) return;
+    try {
+      await onRename(album.id, name);
+    } catch (err: any) {
+      alert(err.message || 'Erro ao renomear álbum');
+    }
+  };
+
+  const remove = async (album: Album) => {
+    if (!confirm(`Excluir o álbum "${album.name}"? As fotos continuam no portfólio, sem álbum.`)) return;
+    try {
+      await onDelete(album.id);
+    } catch (err: any) {
+      alert(err.message || 'Erro ao excluir álbum');
+    }
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const ids = albums.map(a => a.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    onReorder(ids).catch((err: any) => alert(err.message || 'Erro ao reordenar álbuns'));
+  };
+
+  const tabClass = (selected: boolean) =>
+    `px-4 py-2 rounded-full text-xs font-bold border transition-all ${selected ? 'bg-red-600 border-red-500 text-white' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`;
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 p-6 rounded-2xl mb-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <p className="text-zinc-500 text-xs uppercase tracking-widest font-bold">Álbuns</p>
+        {!readOnly && (
+          <form onSubmit={handleCreate} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Novo álbum (ex.: Cerimônia)"
+              maxLength={80}
+              className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-red-600/50"
+            />
+            <button className="bg-zinc-800 hover:bg-zinc-700 p-2 rounded-xl transition-colors" title="Criar álbum">
+              <Plus size={18} />
+            </button>
+          </form>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onSelect('')} className={tabClass(active === '')}>
+          Todas · {totalPhotos}
+        </button>
+        {albums.map((album, index) => (
+          <div key={album.id} className="flex items-center gap-1">
+            <button onClick={() => onSelect(album.id)} className={tabClass(active === album.id)}>
+              {album.name} · {album.filenames.length}
+            </button>
+            {!readOnly && active === album.id && (
+              <>
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-zinc-500 hover:text-white disabled:opacity-30 transition-colors" title="Mover para a esquerda">
+                  <ChevronLeft size={14} />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === albums.length - 1} className="p-1 text-zinc-500 hover:text-white disabled:opacity-30 transition-colors" title="Mover para a direita">
+                  <ChevronRight size={14} />
+                </button>
+                <button onClick={() => rename(album)} className="p-1 text-zinc-500 hover:text-white transition-colors" title="Renomear">
+                  <Pencil size={14} />
+                </button>
+                <button onClick={() => remove(album)} className="p-1 text-zinc-500 hover:text-red-500 transition-colors" title="Excluir álbum">
+                  <Trash2 size={14} />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+        {albums.length > 0 && unsortedCount > 0 && (
+          <button onClick={() => onSelect('unsorted')} className={tabClass(active === 'unsorted')}>
+            Sem álbum · {unsortedCount}
+          </button>
+        )}
+      </div>
+      {!readOnly && albums.length > 0 && (
+        <p className="text-[10px] text-zinc-600 mt-4 uppercase tracking-widest font-medium">
+          Novas fotos vão para o álbum selecionado
+        </p>
+      )}
+    </div>
+  );
+}
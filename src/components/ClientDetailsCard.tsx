@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Mail, Phone, CalendarDays, Tag, Pencil, StickyNote } from 'lucide-react';
+import type { ClientDetails } from '../../shared';
+
+export const EVENT_TYPES = ['Casamento', 'Ensaio', 'Aniversário', 'Batizado', 'Formatura', 'Corporativo', 'Outro'];
+
+// Event dates are stored as plain YYYY-MM-DD, so format them without a timezone shift
+export const formatEventDate = (date: string) => {
+  const [year, month, day] = date.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+export const parseTags = (value: string) =>
+  Array.from(new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+interface ClientDetailsCardProps {
+  details: ClientDetails;
+  onSave: (details: ClientDetails) => Promise<void>;
+  readOnly?: boolean;
+}
+
+export default function ClientDetailsCard({ details, onSave, readOnly = false }: ClientDetailsCardProps) {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [eventType, setEventType] = useState('');
+  const [eventDate, setEventDate] = useState('');
+  const [tags, setTags] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const startEditing = () => {
+    setName(details.name);
+    setEmail(details.email || '');
+    setPhone(details.phone || '');
+    setEventType(details.eventType || '');
+    setEventDate(details.eventDate || '');
+    setTags(details.tags.join(', '));
+    setNotes(details.notes || '');
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSave({
+        name,
+        email: email || null,
+        phone: phone || null,
+        eventType: eventType || null,
+        eventDate: eventDate || null,
+        notes: notes || null,
+        tags: parseTags(tags)
+      });
+      setEditing(false);
+    } catch (err: any) {
+      alert(err.message || 'Erro ao salvar cliente');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-red-600/50";
+  const labelClass = "block text-[10px] uppercase tracking-widest text-zinc-500 font-bold";
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSave} className="bg-zinc-900/50 border border-zinc-800 p-6 rounded-2xl mb-12">
+        <p className="text-zinc-500 text-xs uppercase tracking-widest font-bold mb-4">Dados do Cliente</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className={`${labelClass} md:col-span-2`}>
+            Nome
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} maxLength={120} className={`${inputClass} mt-1`} required />
+          </label>
+          <label className={labelClass}>
+            E-mail
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+          <label className={labelClass}>
+            Telefone
+            <input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+          <label className={labelClass}>
+            Tipo de evento
+            <input type="text" list="event-types" value={eventType} onChange={(e) => setEventType(e.target.value)} maxLength={60} className={`${inputClass} mt-1`} />
+            <datalist id="event-types">
+              {EVENT_TYPES.map(type => <option key={type} value={type} />)}
+            </datalist>
+          </label>
+          <label className={labelClass}>
+            Data do evento
+            <input type="date" value={eventDate} onChange={(e) => setEventDate(e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+          <label className={`${labelClass} md:col-span-2`}>
+            Tags (separadas por vírgula)
+            <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="vip, indicação, 2025" className={`${inputClass} mt-1`} />
+          </label>
+          <label className={`${labelClass} md:col-span-2`}>
+            Anotações internas
+            <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={4} maxLength={5000} className={`${inputClass} mt-1 resize-y normal-case tracking-normal font-normal`} />
+          </label>
+        </div>
+        <div className="flex justify-end gap-2 mt-4">
+          <button type="button" onClick={() => setEditing(false)} className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-xs font-bold transition-all">
+            Cancelar
+          </button>
+          <button disabled={saving} className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded-xl text-xs font-bold transition-all">
+            {saving ? 'Salvando...' : 'Salvar'}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  const muted = (value: string | null) => value ? 'text-zinc-300' : 'text-zinc-600';
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 p-6 rounded-2xl mb-12">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-zinc-500 text-xs uppercase tracking-widest font-bold">Dados do Cliente</p>
+        {!readOnly && (
+          <button onClick={startEditing} className="text-zinc-600 hover:text-white transition-colors p-1" title="Editar cliente">
+            <Pencil size={14} />
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+        <span className={`flex items-center gap-2 ${muted(details.email)}`}>
+          <Mail size={14} />
+          {details.email || 'Sem e-mail'}
+        </span>
+        <span className={`flex items-center gap-2 ${muted(details.phone)}`}>
+          <Phone size={14} />
+          {details.phone || 'Sem telefone'}
+        </span>
+        <span className={`flex items-center gap-2 ${muted(details.eventType || details.eventDate)}`}>
+          <CalendarDays size={14} />
+          {[details.eventType, details.eventDate && formatEventDate(details.eventDate)].filter(Boolean).join(' · ') || 'Sem evento'}
+        </span>
+      </div>
+      {details.tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          <Tag size={12} className="text-zinc-600" />
+          {details.tags.map(tag => (
+            <span key={tag} className="text-[10px] font-bold px-2 py-1 rounded bg-white/5 text-zinc-400">{tag}</span>
+          ))}
+        </div>
+      )}
+      {details.notes && (
+        <p className="flex gap-2 mt-4 text-sm text-zinc-400 whitespace-pre-line">
+          <StickyNote size={14} className="text-zinc-600 shrink-0 mt-0.5" />
+          {details.notes}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import { CLIENT_STATUS_LABELS } from './ClientStatusStepper';
+import type { Client, ClientStatus } from '../../shared';
+
+export type ClientPeriod = '' | 'upcoming' | 'past' | 'undated';
+export type ClientSort = 'recent' | 'name' | 'eventDate';
+
+export interface ClientFilterState {
+  query: string;
+  status: ClientStatus | '';
+  tag: string;
+  period: ClientPeriod;
+  sort: ClientSort;
+}
+
+export const DEFAULT_CLIENT_FILTERS: ClientFilterState = { query: '', status: '', tag: '', period: '', sort: 'recent' };
+
+type FilterableClient = Pick<Client, 'id' | 'name' | 'createdAt' | 'status' | 'email' | 'phone' | 'eventType' | 'eventDate' | 'tags'>;
+
+const PERIOD_LABELS: Record<Exclude<ClientPeriod, ''>, string> = {
+  upcoming: 'Próximos eventos',
+  past: 'Eventos passados',
+  undated: 'Sem data'
+};
+
+const SORT_LABELS: Record<ClientSort, string> = {
+  recent: 'Mais recentes',
+  name: 'Nome',
+  eventDate: 'Data do evento'
+};
+
+// Accent-insensitive, so "joao" finds "João"
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const localToday = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+export const filterClients = <T extends FilterableClient>(clients: T[], filters: ClientFilterState): T[] => {
+  const query = normalize(filters.query.trim());
+  const today = localToday();
+
+  const result = clients.filter(client => {
+    if (filters.status && client.status !== filters.status) return false;
+    if (filters.tag && !client.tags.includes(filters.tag)) return false;
+    if (filters.period === 'upcoming' && !(client.eventDate && client.eventDate >= today)) return false;
+    if (filters.period === 'past' && !(client.eventDate && client.eventDate < today)) return false;
+    if (filters.period === 'undated' && client.eventDate) return false;
+    if (!query) return true;
+    return [client.name, client.id, client.email, client.phone, client.eventType, ...client.tags]
+      .some(value => value && normalize(value).includes(query));
+  });
+
+  return result.sort((a, b) => {
+    if (filters.sort === 'name') return a.name.localeCompare(b.name, 'pt-BR');
+    if (filters.sort === 'eventDate') {
+      // Undated clients go last; upcoming events come first when filtering by them
+      if (!a.eventDate || !b.eventDate) return a.eventDate ? -1 : b.eventDate ? 1 : 0;
+      const order = a.eventDate.localeCompare(b.eventDate);
+      return filters.period === 'upcoming' ? order : -order;
+    }
+    return b.createdAt.localeCompare(a.createdAt);
+  });
+};
+
+interface ClientFiltersProps {
+  filters: ClientFilterState;
+  tags: string[];
+  onChange: (filters: ClientFilterState) => void;
+}
+
+export default function ClientFilters({ filters, tags, onChange }: ClientFiltersProps) {
+  const update = (patch: Partial<ClientFilterState>) => onChange({ ...filters, ...patch });
+  const active = filters.status || filters.tag || filters.period;
+  const selectClass = "min-w-0 flex-1 bg-white/5 border border-white/10 rounded-xl px-2 py-2 text-[10px] font-bold focus:outline-none focus:border-red-600/50";
+
+  return (
+    <div className="space-y-2 mb-4">
+      <div className="relative">
+        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-600" />
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Buscar nome, e-mail, tag..."
+          className="w-full bg-white/5 border border-white/10 rounded-xl pl-9 pr-3 py-2 text-sm focus:outline-none focus:border-red-600/50"
+        />
+      </div>
+      <div className="flex gap-2">
+        <select value={filters.status} onChange={(e) => update({ status: e.target.value as ClientStatus | '' })} className={selectClass} title="Status">
+          <option value="">Status</option>
+          {Object.entries(CLIENT_STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select value={filters.tag} onChange={(e) => update({ tag: e.target.value })} className={selectClass} title="Tag" disabled={tags.length === 0}>
+          <option value="">Tag</option>
+          {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+        </select>
+        <select value={filters.period} onChange={(e) => update({ period: e.target.value as ClientPeriod })} className={selectClass} title="Data do evento">
+          <option value="">Data</option>
+          {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <select value={filters.sort} onChange={(e) => update({ sort: e.target.value as ClientSort })} className="bg-transparent text-[10px] uppercase tracking-widest text-zinc-500 font-bold focus:outline-none" title="Ordenar">
+          {Object.entries(SORT_LABELS).map(([value, label]) => (
+            <option key={value} value={value} className="bg-zinc-900">{label}</option>
+          ))}
+        </select>
+        {active && (
+          <button onClick={() => update({ status: '', tag: '', period: '' })} className="flex items-center gap-1 text-[10px] uppercase tracking-widest text-zinc-500 hover:text-white font-bold transition-colors">
+            <X size={12} />
+            Limpar
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Eye, PenLine, PackageCheck } from 'lucide-react';
+import type { ClientStatus } from '../../shared';
+
+export const CLIENT_STATUS_LABELS: Record<ClientStatus, string> = {
+  proofing: 'Em seleção',
+  editing: 'Em edição',
+  delivered: 'Entregue'
+};
+
+export const CLIENT_STATUS_STYLES: Record<ClientStatus, string> = {
+  proofing: 'bg-sky-500/15 text-sky-400',
+  editing: 'bg-amber-500/15 text-amber-400',
+  delivered: 'bg-emerald-500/15 text-emerald-400'
+};
+
+// Mirrors the transitions the API accepts
+const TRANSITIONS: Record<ClientStatus, ClientStatus[]> = {
+  proofing: ['editing', 'delivered'],
+  editing: ['proofing', 'delivered'],
+  delivered: ['editing']
+};
+
+const STEPS: { status: ClientStatus; icon: React.ElementType; hint: string }[] = [
+  { status: 'proofing', icon: Eye, hint: "Prévias com marca d'água, seleção aberta" },
+  { status: 'editing', icon: PenLine, hint: 'Portfólio bloqueado enquanto as fotos são editadas' },
+  { status: 'delivered', icon: PackageCheck, hint: 'Fotos limpas e download liberado' }
+];
+
+interface ClientStatusStepperProps {
+  status: ClientStatus;
+  onChange: (status: ClientStatus) => Promise<void>;
+  readOnly?: boolean;
+}
+
+export default function ClientStatusStepper({ status, onChange, readOnly = false }: ClientStatusStepperProps) {
+  const select = async (next: ClientStatus) => {
+    if (next === status || !TRANSITIONS[status].includes(next)) return;
+    if (next === 'delivered' && !confirm("Marcar como entregue? O cliente verá as fotos sem marca d'água e poderá baixá-las.")) return;
+    try {
+      await onChange(next);
+    } catch (err: any) {
+      alert(err.message || 'Erro ao alterar status');
+    }
+  };
+
+  return (
+    <div className="flex items-center bg-zinc-900 border border-white/10 rounded-xl p-1">
+      {STEPS.map(({ status: step, icon: Icon, hint }) => {
+        const active = step === status;
+        const allowed = !readOnly && TRANSITIONS[status].includes(step);
+        return (
+          <button
+            key={step}
+            onClick={() => select(step)}
+            disabled={!active && !allowed}
+            title={hint}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg text-[10px] uppercase tracking-widest font-bold transition-colors ${active ? CLIENT_STATUS_STYLES[step] : allowed ? 'text-zinc-500 hover:text-white hover:bg-white/5' : 'text-zinc-700 cursor-not-allowed'}`}
+          >
+            <Icon size={14} />
+            {CLIENT_STATUS_LABELS[step]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
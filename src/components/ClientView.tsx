@@ -1,47 +1,99 @@
 import React, { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'motion/react';
-import { X, Maximize2 } from 'lucide-react';
+import { Maximize2, Heart, Send, Lock, MessageCircle, KeyRound, Clock, Download, RotateCcw, PenLine } from 'lucide-react';
+import CommentThread from './CommentThread';
+import Lightbox from './Lightbox';
+import { DownloadProgress, fetchManifest, downloadParts } from '../lib/deliveryDownload';
+import type { DownloadManifest, DownloadScope, Photo, PhotoComment, Portfolio } from '../../shared';
 
-interface Photo {
-  url: string;
-  name: string;
-}
-
-interface ClientData {
-  id: string;
-  name: string;
-  photos: Photo[];
+interface DeliveryDownload {
+  manifest: DownloadManifest;
+  completed: number[];
+  progress: DownloadProgress | null;
+  running: boolean;
+  error: string | null;
 }
 
 export default function ClientView() {
   const { clientId } = useParams();
-  const [client, setClient] = useState<ClientData | null>(null);
+  const [searchParams] = useSearchParams();
+  const linkId = searchParams.get('link') || '';
+  const [client, setClient] = useState<Portfolio | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
   const [logo, setLogo] = useState<string | null>(null);
 
   const [error, setError] = useState<any>(null);
+  const [selection, setSelection] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [comments, setComments] = useState<PhotoComment[]>([]);
+  const [commentsLoading, setCommentsLoading] = useState(false);
+
+  // Access code gate: the session token lives only for this browser tab
+  const tokenKey = `portfolio_token_${clientId}`;
+  const [accessToken, setAccessToken] = useState<string | null>(() => sessionStorage.getItem(tokenKey));
+  const [needsCode, setNeedsCode] = useState(false);
+  const [accessCode, setAccessCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  const [linkExpired, setLinkExpired] = useState<string | null>(null);
+  const [download, setDownload] = useState<DeliveryDownload | null>(null);
+  // Issued with the counted view: the page keeps working after the link's last view
+  const [viewToken, setViewToken] = useState<string | null>(null);
+
+  const accessHeaders = (): Record<string, string> => ({
+    'X-Portfolio-Link': linkId,
+    ...(accessToken ? { 'X-Portfolio-Token': accessToken } : {}),
+    ...(viewToken ? { 'X-Portfolio-View': viewToken } : {})
+  });
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const res = await fetch('/api/settings');
+        if (res.ok) {
+          const settingsData = await res.json();
+          setLogo(settingsData.logo);
+        }
+      } catch (e) {
+        console.error('Error fetching settings:', e);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  // Expired or revoked access: back to the code gate or the expired-link notice
+  const handleAccessError = (errData: any) => {
+    if (errData.code === 'ACCESS_CODE_REQUIRED') {
+      sessionStorage.removeItem(tokenKey);
+      setAccessToken(null);
+      setNeedsCode(true);
+      return true;
+    }
+    if (errData.code === 'LINK_EXPIRED' || errData.code === 'LINK_REVOKED') {
+      setLinkExpired(errData.error);
+      return true;
+    }
+    return false;
+  };
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [clientRes, settingsRes] = await Promise.all([
-          fetch(`/api/client/${clientId}`),
-          fetch('/api/settings')
-        ]);
+        const clientRes = await fetch(`/api/client/${clientId}`, { headers: accessHeaders() });
         
         if (clientRes.ok) {
           const clientData = await clientRes.json();
           setClient(clientData);
+          setViewToken(clientData.viewToken);
+          setSelection(clientData.selection || []);
+          setNeedsCode(false);
         } else {
           const errData = await clientRes.json();
-          setError(errData);
-        }
-        
-        if (settingsRes.ok) {
-          const settingsData = await settingsRes.json();
-          setLogo(settingsData.logo);
+          if (!handleAccessError(errData)) setError(errData);
         }
       } catch (error) {
         console.error('Error fetching data:', error);
@@ -52,7 +104,93 @@ export default function ClientView() {
     };
     
     fetchData();
-  }, [clientId]);
+  }, [clientId, linkId, accessToken]);
+
+  // Signed photo URLs expire: refresh them shortly before they do
+  useEffect(() => {
+    if (!client?.urlsExpireAt) return;
+
+    const refreshIn = Math.max(new Date(client.urlsExpireAt).getTime() - Date.now() - 60 * 1000, 10 * 1000);
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/client/${clientId}/photo-urls`, { headers: accessHeaders() });
+        const data = await res.json();
+        if (!res.ok) {
+          // The access token (2h) can outlive the page: ask for the code again
+          handleAccessError(data);
+          return;
+        }
+        setClient(prev => prev && { ...prev, photos: data.photos, urlsExpireAt: data.urlsExpireAt });
+        setSelectedPhoto(prev => prev && (data.photos.find((p: Photo) => p.name === prev.name) || prev));
+      } catch (e) {
+        console.error('Error refreshing photo URLs:', e);
+      }
+    }, refreshIn);
+
+    return () => clearTimeout(timer);
+  }, [client?.urlsExpireAt]);
+
+  const unlockPortfolio = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setCodeError(null);
+
+    try {
+      const res = await fetch(`/api/client/${clientId}/access`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Portfolio-Link': linkId, ...(viewToken ? { 'X-Portfolio-View': viewToken } : {}) },
+        body: JSON.stringify({ code: accessCode })
+      });
+      const data = await res.json();
+      if (res.status === 410) {
+        setLinkExpired(data.error);
+        return;
+      }
+      if (!res.ok) throw new Error(data.error);
+
+      sessionStorage.setItem(tokenKey, data.token);
+      setAccessCode('');
+      setLoading(true);
+      setAccessToken(data.token);
+    } catch (e: any) {
+      setCodeError(e.message || 'Não foi possível validar o código.');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!selectedPhoto || !showComments) return;
+
+    const fetchComments = async () => {
+      setCommentsLoading(true);
+      try {
+        const res = await fetch(`/api/client/${clientId}/photos/${encodeURIComponent(selectedPhoto.name)}/comments`, {
+          headers: accessHeaders()
+        });
+        if (res.ok) setComments(await res.json());
+      } catch (e) {
+        console.error('Error fetching comments:', e);
+      } finally {
+        setCommentsLoading(false);
+      }
+    };
+
+    setComments([]);
+    fetchComments();
+  }, [clientId, selectedPhoto, showComments]);
+
+  const sendComment = async (body: string) => {
+    if (!selectedPhoto) return;
+    const res = await fetch(`/api/client/${clientId}/photos/${encodeURIComponent(selectedPhoto.name)}/comments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...accessHeaders() },
+      body: JSON.stringify({ body })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    setComments(prev => [...prev, data]);
+  };
 
   // Security: Disable right click
   useEffect(() => {
@@ -63,12 +201,153 @@ export default function ClientView() {
     return () => document.removeEventListener('contextmenu', handleContextMenu);
   }, []);
 
+  const toggleSelection = async (photo: Photo) => {
+    if (!client || client.selectionSubmittedAt || client.status !== 'proofing') return;
+    const isSelected = selection.includes(photo.name);
+
+    if (!isSelected && client.selectionQuota && selection.length >= client.selectionQuota) {
+      alert(`Você já selecionou o limite de ${client.selectionQuota} fotos. Remova alguma para escolher outra.`);
+      return;
+    }
+
+    const previous = selection;
+    setSelection(isSelected ? selection.filter(name => name !== photo.name) : [...selection, photo.name]);
+
+    try {
+      const res = await fetch(`/api/client/${clientId}/selection/${encodeURIComponent(photo.name)}`, {
+        method: isSelected ? 'DELETE' : 'PUT',
+        headers: accessHeaders()
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setSelection(data.selection);
+    } catch (e: any) {
+      setSelection(previous);
+      alert(e.message || 'Não foi possível atualizar sua seleção.');
+    }
+  };
+
+  const submitSelection = async () => {
+    if (!client) return;
+    if (!confirm(`Enviar ${selection.length} fotos selecionadas? Depois do envio a seleção não poderá ser alterada.`)) return;
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/client/${clientId}/selection/submit`, {
+        method: 'POST',
+        headers: accessHeaders()
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setSelection(data.selection);
+      setClient({ ...client, selectionSubmittedAt: data.selectionSubmittedAt });
+    } catch (e: any) {
+      alert(e.message || 'Não foi possível enviar sua seleção.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const runDownload = async (manifest: DownloadManifest, completed: number[]) => {
+    const saved = [...completed];
+    setDownload({ manifest, completed: saved, progress: null, running: true, error: null });
+    try {
+      await downloadParts(clientId!, manifest, accessHeaders(), {
+        completed,
+        onProgress: progress => setDownload(prev => prev && { ...prev, progress }),
+        onPartSaved: part => {
+          saved.push(part);
+          setDownload(prev => prev && { ...prev, completed: [...saved] });
+        }
+      });
+      setDownload(prev => prev && { ...prev, running: false });
+    } catch (e: any) {
+      setDownload(prev => prev && { ...prev, running: false, error: e.message || 'O download foi interrompido.' });
+    }
+  };
+
+  const startDownload = async (scope: DownloadScope) => {
+    if (download?.running) return;
+    try {
+      const manifest = await fetchManifest(clientId!, scope, accessHeaders());
+      if (manifest.parts.length > 1 && !confirm(`O download tem ${manifest.files} fotos e será dividido em ${manifest.parts.length} arquivos ZIP. Continuar?`)) return;
+      await runDownload(manifest, []);
+    } catch (e: any) {
+      alert(e.message || 'Não foi possível preparar o download.');
+    }
+  };
+
   if (loading) return (
     <div className="min-h-screen flex items-center justify-center bg-[#0a0a0a]">
       <div className="w-12 h-12 border-4 border-red-600 border-t-transparent rounded-full animate-spin"></div>
     </div>
   );
 
+  if (linkExpired) return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-[#0a0a0a] text-white p-6 text-center font-sans">
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,#1a1a1a_0%,#0a0a0a_100%)] pointer-events-none" />
+      <motion.div 
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="relative z-10 flex flex-col items-center"
+      >
+        {logo ? (
+          <img src={logo} alt="Studio Logo" className="h-16 md:h-20 object-contain mb-10" referrerPolicy="no-referrer" />
+        ) : (
+          <h1 className="text-red-600 text-5xl font-bold font-display tracking-tighter mb-10">STUDIO</h1>
+        )}
+        <div className="w-16 h-16 bg-white/5 border border-white/10 rounded-full flex items-center justify-center mb-6">
+          <Clock className="text-zinc-400" size={28} />
+        </div>
+        <h2 className="text-3xl font-display font-bold mb-4">Link indisponível</h2>
+        <p className="text-zinc-400 mb-2">{linkExpired}.</p>
+        <p className="text-zinc-600 text-sm max-w-md">Entre em contato com o estúdio para receber um novo link de acesso ao seu portfólio.</p>
+      </motion.div>
+    </div>
+  );
+
+  if (needsCode) return (
+    <div className="min-h-screen flex items-center justify-center bg-[#0a0a0a] p-4 font-sans">
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,#1a1a1a_0%,#0a0a0a_100%)] pointer-events-none" />
+      <motion.div 
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-zinc-900/50 backdrop-blur-xl p-10 rounded-3xl w-full max-w-md border border-white/5 shadow-2xl relative z-10 text-white"
+      >
+        <div className="flex justify-center mb-8">
+          {logo ? (
+            <img src={logo} alt="Studio Logo" className="h-16 object-contain" referrerPolicy="no-referrer" />
+          ) : (
+            <div className="w-16 h-16 bg-red-600 rounded-2xl flex items-center justify-center shadow-lg shadow-red-600/20 rotate-3">
+              <KeyRound className="text-white" size={32} />
+            </div>
+          )}
+        </div>
+        <h1 className="text-3xl font-bold mb-2 text-center font-display tracking-tight">Portfólio Protegido</h1>
+        <p className="text-zinc-500 text-center text-sm mb-10">Digite o código de acesso enviado pelo estúdio.</p>
+
+        <form onSubmit={unlockPortfolio} className="space-y-6">
+          <input 
+            type="password" 
+            value={accessCode}
+            onChange={(e) => setAccessCode(e.target.value)}
+            className="w-full bg-white/5 border border-white/10 rounded-2xl p-4 text-white focus:outline-none focus:border-red-600/50 focus:bg-white/10 transition-all text-center tracking-[0.5em] text-xl"
+            placeholder="••••"
+            autoFocus
+            required
+          />
+          {codeError && <p className="text-red-500 text-xs text-center">{codeError}</p>}
+          <button 
+            disabled={unlocking}
+            className="w-full bg-red-600 hover:bg-red-700 disabled:bg-zinc-800 text-white font-bold py-4 rounded-2xl transition-all shadow-lg shadow-red-600/20 active:scale-[0.98]"
+          >
+            {unlocking ? 'VERIFICANDO...' : 'ACESSAR'}
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+
   if (!client) return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-[#0a0a0a] text-white p-6 text-center">
       <h1 className="text-3xl font-display font-bold mb-4">Portfólio não encontrado</h1>
@@ -78,12 +357,6 @@ export default function ClientView() {
         <div className="bg-zinc-900/50 p-6 rounded-2xl border border-white/5 text-left font-mono text-xs max-w-lg w-full mb-8">
           <p className="text-red-500 mb-2 uppercase tracking-widest font-bold">Erro Detectado:</p>
           <p className="text-zinc-400">{typeof error === 'string' ? error : (error.error || JSON.stringify(error))}</p>
-          {error.debug && (
-            <div className="mt-4 pt-4 border-t border-white/5">
-              <p className="text-zinc-400 mb-1">ID Solicitado: <span className="text-white">{error.debug.requestedId}</span></p>
-              <p className="text-zinc-400">IDs Disponíveis: <span className="text-white">{error.debug.availableIds.join(', ') || 'Nenhum'}</span></p>
-            </div>
-          )}
         </div>
       )}
       
@@ -97,9 +370,93 @@ export default function ClientView() {
   );
 
   const photos = client.photos || [];
+  // Selection only stays open while proofing; editing and delivered portfolios are read-only
+  const selectionLocked = !!client.selectionSubmittedAt || client.status !== 'proofing';
+  const lockLabel = client.status === 'editing' ? 'Em edição' : client.status === 'delivered' ? 'Entregue' : 'Seleção enviada';
+  const cover = photos.find(p => p.name === client.coverPhoto);
+
+  // One row per album ("estilo Netflix"); portfolios without albums keep the single grid
+  const albums = client.albums || [];
+  const unsorted = photos.filter(p => !p.albumId);
+  const rows = albums.length === 0 ? [] : [
+    ...albums.map(album => ({ id: album.id, name: album.name, photos: photos.filter(p => p.albumId === album.id) })),
+    ...(unsorted.length > 0 ? [{ id: null, name: 'Outras fotos', photos: unsorted }] : [])
+  ].filter(row => row.photos.length > 0);
+  // The lightbox walks the photos in the order they are shown on the page
+  const viewOrder = rows.length > 0 ? rows.flatMap(row => row.photos) : photos;
+  const photoNumber = (photo: Photo) => String(photos.findIndex(p => p.name === photo.name) + 1).padStart(2, '0');
+
+  const renderPhoto = (photo: Photo, className = '') => {
+    const index = photos.indexOf(photo);
+    return (
+      <motion.div
+        key={photo.name}
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ delay: index * 0.03 }}
+        className={`relative aspect-[2/3] group cursor-pointer overflow-hidden rounded-xl bg-zinc-900 shadow-2xl border border-white/5 ${className}`}
+        onClick={() => setSelectedPhoto(photo)}
+      >
+        <img
+          src={photo.thumbUrl}
+          alt={photo.name}
+          className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
+          loading="lazy"
+          draggable={false}
+          referrerPolicy="no-referrer"
+        />
+
+        {/* Branding Overlay on Photo */}
+        {logo && (
+          <div className="absolute bottom-3 right-3 opacity-30 group-hover:opacity-60 transition-opacity pointer-events-none">
+            <img src={logo} alt="" className="h-6 object-contain grayscale brightness-200" referrerPolicy="no-referrer" />
+          </div>
+        )}
+
+        {/* Number Badge */}
+        <div className="absolute top-0 left-0 w-full h-16 bg-gradient-to-b from-black/80 to-transparent pointer-events-none z-10" />
+        <div className="absolute top-4 left-4 bg-white/10 backdrop-blur-md text-white text-[10px] font-bold w-7 h-7 flex items-center justify-center rounded-full border border-white/20 z-20">
+          {String(index + 1).padStart(2, '0')}
+        </div>
+
+        <button
+          onClick={(e) => { e.stopPropagation(); toggleSelection(photo); }}
+          disabled={selectionLocked}
+          className={`absolute top-3 right-3 z-30 p-2 rounded-full backdrop-blur-md border transition-all ${selection.includes(photo.name) ? 'bg-red-600 border-red-500 text-white' : 'bg-black/30 border-white/20 text-white/70 hover:text-white'} ${selectionLocked ? 'cursor-default' : 'active:scale-90'}`}
+          title={selection.includes(photo.name) ? 'Remover da seleção' : 'Adicionar à seleção'}
+        >
+          <Heart size={14} fill={selection.includes(photo.name) ? 'currentColor' : 'none'} />
+        </button>
+
+        <div className="absolute inset-0 bg-red-600/10 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+          <div className="bg-white/10 backdrop-blur-xl p-3 rounded-full border border-white/20 transform translate-y-4 group-hover:translate-y-0 transition-transform">
+            <Maximize2 className="text-white w-5 h-5" />
+          </div>
+        </div>
+      </motion.div>
+    );
+  };
+
 
   return (
-    <div className="min-h-screen bg-[#0a0a0a] text-white p-4 md:p-12 no-select font-sans">
+    <div className="min-h-screen bg-[#0a0a0a] text-white p-4 pb-32 md:p-12 md:pb-32 no-select font-sans">
+      {cover && (
+        <section className="relative -mx-4 -mt-4 md:-mx-12 md:-mt-12 mb-12 h-[55vh] md:h-[75vh] overflow-hidden">
+          <img
+            src={cover.url}
+            alt=""
+            className="w-full h-full object-cover"
+            draggable={false}
+            referrerPolicy="no-referrer"
+          />
+          <div className="absolute inset-0 bg-gradient-to-t from-[#0a0a0a] via-[#0a0a0a]/30 to-transparent pointer-events-none" />
+          <div className="absolute bottom-8 left-4 md:bottom-12 md:left-12">
+            <p className="text-zinc-300 uppercase tracking-[0.3em] text-xs font-bold">Portfólio Exclusivo</p>
+            <p className="text-4xl md:text-7xl font-display font-bold mt-2 tracking-tight">{client.name}</p>
+          </div>
+        </section>
+      )}
+
       <header className="mb-16 flex flex-col md:flex-row md:items-end justify-between gap-6">
         <div>
           {logo ? (
@@ -117,46 +474,89 @@ export default function ClientView() {
         </div>
       </header>
 
-      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-6">
-        {photos.map((photo, index) => (
-          <motion.div
-            key={photo.name || index}
-            initial={{ opacity: 0, scale: 0.95 }}
-            animate={{ opacity: 1, scale: 1 }}
-            transition={{ delay: index * 0.03 }}
-            className="relative aspect-[2/3] group cursor-pointer overflow-hidden rounded-xl bg-zinc-900 shadow-2xl border border-white/5"
-            onClick={() => setSelectedPhoto(photo)}
-          >
-            <img
-              src={photo.url}
-              alt={photo.name}
-              className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
-              loading="lazy"
-              draggable={false}
-              referrerPolicy="no-referrer"
-            />
-            
-            {/* Branding Overlay on Photo */}
-            {logo && (
-              <div className="absolute bottom-3 right-3 opacity-30 group-hover:opacity-60 transition-opacity pointer-events-none">
-                <img src={logo} alt="" className="h-6 object-contain grayscale brightness-200" referrerPolicy="no-referrer" />
-              </div>
-            )}
+      {client.status === 'editing' && (
+        <div className="mb-12 bg-amber-500/10 border border-amber-500/20 rounded-2xl p-6 flex items-center gap-4">
+          <PenLine size={20} className="text-amber-500 shrink-0" />
+          <div>
+            <p className="text-amber-500 text-[10px] uppercase tracking-widest font-bold">Em edição</p>
+            <p className="text-sm text-zinc-300 mt-1">Suas fotos estão sendo editadas. Quando o trabalho for entregue, elas aparecerão aqui sem marca d'água e prontas para download.</p>
+          </div>
+        </div>
+      )}
 
-            {/* Number Badge */}
-            <div className="absolute top-0 left-0 w-full h-16 bg-gradient-to-b from-black/80 to-transparent pointer-events-none z-10" />
-            <div className="absolute top-4 left-4 bg-white/10 backdrop-blur-md text-white text-[10px] font-bold w-7 h-7 flex items-center justify-center rounded-full border border-white/20 z-20">
-              {String(index + 1).padStart(2, '0')}
-            </div>
+      {client.status === 'delivered' && photos.length > 0 && (
+        <div className="mb-12 bg-zinc-900/60 border border-white/10 rounded-2xl p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-zinc-500 text-[10px] uppercase tracking-widest font-bold">Entrega</p>
+            {download ? (
+              <>
+                <p className="text-sm mt-1">
+                  {download.error
+                    ? download.error
+                    : download.running
+                      ? `Baixando${download.progress && download.progress.parts > 1 ? ` parte ${download.progress.part} de ${download.progress.parts}` : ''}… ${Math.round((download.progress?.ratio || 0) * 100)}%`
+                      : `Download concluído · ${download.manifest.files} fotos`}
+                </p>
+                <div className="w-full md:w-80 bg-zinc-800 h-1.5 rounded-full mt-3 overflow-hidden">
+                  <div
+                    className={`h-full rounded-full transition-all ${download.error ? 'bg-red-600' : download.running ? 'bg-zinc-300' : 'bg-emerald-500'}`}
+                    style={{ width: `${(download.progress?.ratio || 0) * 100}%` }}
+                  />
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-zinc-400 mt-1">Suas fotos estão prontas. Baixe em alta resolução, sem marca d'água.</p>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            {download?.error && !download.running && (
+              <button
+                onClick={() => runDownload(download.manifest, download.completed)}
+                className="flex items-center gap-2 bg-red-600/20 hover:bg-red-600/40 text-red-500 border border-red-500/30 px-4 py-3 rounded-xl text-xs font-bold transition-colors"
+              >
+                <RotateCcw size={16} />
+                Continuar download
+              </button>
+            )}
+            <button
+              onClick={() => startDownload('selected')}
+              disabled={download?.running || selection.length === 0}
+              className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 px-4 py-3 rounded-xl text-xs font-bold transition-colors"
+            >
+              <Download size={16} />
+              Baixar selecionadas ({selection.length})
+            </button>
+            <button
+              onClick={() => startDownload('all')}
+              disabled={download?.running}
+              className="flex items-center gap-2 bg-white text-black hover:bg-zinc-200 disabled:opacity-40 px-4 py-3 rounded-xl text-xs font-bold transition-colors"
+            >
+              <Download size={16} />
+              Baixar todas
+            </button>
+          </div>
+        </div>
+      )}
 
-            <div className="absolute inset-0 bg-red-600/10 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-              <div className="bg-white/10 backdrop-blur-xl p-3 rounded-full border border-white/20 transform translate-y-4 group-hover:translate-y-0 transition-transform">
-                <Maximize2 className="text-white w-5 h-5" />
+      {rows.length > 0 ? (
+        <div className="space-y-12">
+          {rows.map(row => (
+            <section key={row.id || 'unsorted'}>
+              <div className="flex items-baseline gap-3 mb-4">
+                <h3 className="text-xl md:text-2xl font-display font-bold tracking-tight">{row.name}</h3>
+                <span className="text-zinc-600 text-xs font-mono">{row.photos.length} {row.photos.length === 1 ? 'foto' : 'fotos'}</span>
               </div>
-            </div>
-          </motion.div>
-        ))}
-      </div>
+              <div className="flex gap-4 overflow-x-auto snap-x pb-4 -mx-4 px-4 md:-mx-12 md:px-12">
+                {row.photos.map(photo => renderPhoto(photo, 'w-40 md:w-56 shrink-0 snap-start'))}
+              </div>
+            </section>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-6">
+          {photos.map(photo => renderPhoto(photo))}
+        </div>
+      )}
 
       {photos.length === 0 && (
         <div className="text-center py-20 text-zinc-500">
@@ -164,60 +564,77 @@ export default function ClientView() {
         </div>
       )}
 
-      <AnimatePresence>
-        {selectedPhoto && (
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 z-50 bg-black/95 flex items-center justify-center p-4"
-            onClick={() => setSelectedPhoto(null)}
-          >
-            <button 
-              className="absolute top-6 right-6 text-white/70 hover:text-white transition-colors z-[60]"
-              onClick={() => setSelectedPhoto(null)}
+      {/* Selection Bar */}
+      {photos.length > 0 && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 bg-zinc-900/90 backdrop-blur-xl border border-white/10 pl-6 pr-2 py-2 rounded-full shadow-2xl">
+          <span className="flex items-center gap-2 text-sm font-mono tracking-widest text-white/80">
+            <Heart size={14} className="text-red-500" fill="currentColor" />
+            {selection.length}{client.selectionQuota ? ` / ${client.selectionQuota}` : ''}
+          </span>
+          {selectionLocked ? (
+            <span className="flex items-center gap-2 px-5 py-2 rounded-full bg-white/5 text-zinc-400 text-xs font-bold uppercase tracking-widest">
+              <Lock size={14} />
+              {lockLabel}
+            </span>
+          ) : (
+            <button
+              onClick={submitSelection}
+              disabled={submitting || selection.length === 0}
+              className="flex items-center gap-2 px-5 py-2 rounded-full bg-red-600 hover:bg-red-700 disabled:bg-zinc-800 disabled:text-zinc-500 text-white text-xs font-bold uppercase tracking-widest transition-all active:scale-95"
             >
-              <X size={40} />
+              <Send size={14} />
+              {submitting ? 'Enviando...' : 'Enviar seleção'}
             </button>
-            <motion.div 
-              initial={{ scale: 0.9 }}
-              animate={{ scale: 1 }}
-              className="relative max-w-full max-h-full flex items-center justify-center"
-              onClick={(e) => e.stopPropagation()}
-            >
-              {/* Invisible protection layer to prevent dragging/saving */}
-              <div className="absolute inset-0 z-20 cursor-default" onContextMenu={(e) => e.preventDefault()} />
-              
-              <img
-                src={selectedPhoto.url}
-                alt={selectedPhoto.name}
-                className="max-w-full max-h-[90vh] object-contain shadow-2xl relative z-10"
-                draggable={false}
-                referrerPolicy="no-referrer"
-              />
-              
-              {/* Central Watermark Overlay */}
-              {logo && (
-                <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none overflow-hidden">
-                  <div className="opacity-[0.15] transform rotate-[-30deg] scale-150 flex flex-col items-center">
-                    <img src={logo} alt="" className="w-64 md:w-96 object-contain grayscale brightness-200" referrerPolicy="no-referrer" />
-                    <p className="text-white text-4xl md:text-6xl font-bold tracking-[0.5em] mt-4 uppercase">PROPRIEDADE DO ESTÚDIO</p>
-                  </div>
-                </div>
-              )}
+          )}
+        </div>
+      )}
 
-              {/* Corner Watermark (More visible) */}
-              {logo && (
-                <div className="absolute bottom-6 right-6 z-30 opacity-40 pointer-events-none">
-                  <img src={logo} alt="" className="h-8 md:h-12 object-contain grayscale brightness-200" referrerPolicy="no-referrer" />
+      <AnimatePresence>
+        {selectedPhoto && (
+          <Lightbox
+            photos={viewOrder}
+            index={viewOrder.findIndex(p => p.name === selectedPhoto.name)}
+            logo={logo}
+            onIndexChange={(i) => setSelectedPhoto(viewOrder[i])}
+            onClose={() => setSelectedPhoto(null)}
+            actions={
+              <>
+                <div className="bg-white/5 backdrop-blur-xl px-8 py-3 rounded-full border border-white/10 text-white/80 font-mono text-sm tracking-widest">
+                  FOTO #{photoNumber(selectedPhoto)}
                 </div>
-              )}
-            </motion.div>
-
-            <div className="absolute bottom-10 left-1/2 -translate-x-1/2 bg-white/5 backdrop-blur-xl px-8 py-3 rounded-full border border-white/10 text-white/80 font-mono text-sm tracking-widest z-40">
-              FOTO #{String(photos.findIndex(p => p.name === selectedPhoto.name) + 1).padStart(2, '0')}
-            </div>
-          </motion.div>
+                <button
+                  onClick={() => toggleSelection(selectedPhoto)}
+                  disabled={selectionLocked}
+                  className={`p-3 rounded-full backdrop-blur-xl border transition-all ${selection.includes(selectedPhoto.name) ? 'bg-red-600 border-red-500 text-white' : 'bg-white/5 border-white/10 text-white/70 hover:text-white'}`}
+                  title={selection.includes(selectedPhoto.name) ? 'Remover da seleção' : 'Adicionar à seleção'}
+                >
+                  <Heart size={18} fill={selection.includes(selectedPhoto.name) ? 'currentColor' : 'none'} />
+                </button>
+                <button
+                  onClick={() => setShowComments(!showComments)}
+                  className={`p-3 rounded-full backdrop-blur-xl border transition-all ${showComments ? 'bg-white text-black border-white' : 'bg-white/5 border-white/10 text-white/70 hover:text-white'}`}
+                  title="Comentários"
+                >
+                  <MessageCircle size={18} />
+                </button>
+              </>
+            }
+            aside={showComments && (
+              <motion.aside
+                initial={{ opacity: 0, x: 40 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="absolute top-0 right-0 h-full w-full sm:w-96 bg-zinc-950/95 backdrop-blur-xl border-l border-white/10 p-6 pt-24 flex flex-col z-[55]"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <p className="text-[10px] uppercase tracking-widest text-zinc-500 font-bold mb-4">
+                  Comentários · Foto #{photoNumber(selectedPhoto)}
+                </p>
+                <div className="flex-1 min-h-0">
+                  <CommentThread comments={comments} viewer="client" onSend={sendComment} loading={commentsLoading} />
+                </div>
+              </motion.aside>
+            )}
+          />
         )}
       </AnimatePresence>
     </div>
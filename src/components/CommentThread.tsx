@@ -0,0 +1,88 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Send } from 'lucide-react';
+import type { PhotoComment } from '../../shared';
+
+interface CommentThreadProps {
+  comments: PhotoComment[];
+  viewer: 'client' | 'studio';
+  onSend: (body: string) => Promise<void>;
+  loading?: boolean;
+  readOnly?: boolean;
+}
+
+export default function CommentThread({ comments, viewer, onSend, loading = false, readOnly = false }: CommentThreadProps) {
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [comments.length]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = draft.trim();
+    if (!body) return;
+
+    setSending(true);
+    try {
+      await onSend(body);
+      setDraft('');
+    } catch (err: any) {
+      alert(err.message || 'Não foi possível enviar o comentário.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div ref={listRef} className="flex-1 overflow-y-auto space-y-3 pr-1">
+        {loading && (
+          <p className="text-zinc-600 text-xs text-center py-6">Carregando...</p>
+        )}
+        {!loading && comments.length === 0 && (
+          <p className="text-zinc-600 text-xs text-center py-6">
+            {viewer === 'client' ? 'Deixe aqui seus pedidos de ajuste para esta foto.' : 'Nenhum comentário nesta foto.'}
+          </p>
+        )}
+        {comments.map(comment => {
+          const own = comment.author === viewer;
+          return (
+            <div key={comment.id} className={`flex flex-col ${own ? 'items-end' : 'items-start'}`}>
+              <div className={`max-w-[85%] px-4 py-2 rounded-2xl text-sm whitespace-pre-wrap break-words ${own ? 'bg-red-600 text-white rounded-br-sm' : 'bg-white/10 text-zinc-200 rounded-bl-sm'}`}>
+                {comment.body}
+              </div>
+              <span className="text-[9px] text-zinc-600 mt-1 uppercase tracking-widest">
+                {comment.author === 'studio' ? 'Estúdio' : 'Cliente'} · {new Date(comment.createdAt).toLocaleString('pt-BR')}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {!readOnly && <form onSubmit={handleSubmit} className="relative mt-4">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSubmit(e);
+            }
+          }}
+          rows={2}
+          maxLength={2000}
+          placeholder={viewer === 'client' ? 'Ex.: remover o poste à esquerda' : 'Responder ao cliente'}
+          className="w-full bg-white/5 border border-white/10 rounded-2xl pl-4 pr-12 py-3 text-sm text-white resize-none focus:outline-none focus:border-red-600/50 transition-all"
+        />
+        <button
+          disabled={sending || !draft.trim()}
+          className="absolute right-2 bottom-3 bg-red-600 p-2 rounded-xl hover:bg-red-700 disabled:bg-zinc-800 disabled:text-zinc-500 transition-all active:scale-90"
+        >
+          <Send size={16} />
+        </button>
+      </form>}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import React from 'react';
+import { PackageCheck, Download } from 'lucide-react';
+import { formatBytes } from './QuotaSettings';
+import type { DeliveryQuality, DownloadRecord } from '../../shared';
+
+const QUALITY_LABELS: Record<DeliveryQuality, string> = {
+  original: 'Originais',
+  high: 'Alta resolução (3000px)'
+};
+
+interface DeliveryCardProps {
+  delivered: boolean;
+  quality: DeliveryQuality;
+  downloads: DownloadRecord[];
+  onQualityChange: (quality: DeliveryQuality) => Promise<void>;
+  readOnly?: boolean;
+}
+
+export default function DeliveryCard({ delivered, quality, downloads, onQualityChange, readOnly = false }: DeliveryCardProps) {
+  const update = async (next: DeliveryQuality) => {
+    try {
+      await onQualityChange(next);
+    } catch (err: any) {
+      alert(err.message || 'Erro ao atualizar entrega');
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 p-6 rounded-2xl mb-12">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <p className="text-zinc-500 text-xs uppercase tracking-widest font-bold mb-1">Entrega</p>
+          <span className={`font-bold flex items-center gap-2 ${delivered ? 'text-emerald-500' : 'text-zinc-500'}`}>
+            <PackageCheck size={16} />
+            {delivered ? 'Download liberado' : 'Download bloqueado'}
+          </span>
+          <p className="text-zinc-600 text-xs mt-2">
+            {delivered ? 'O cliente pode baixar todas as fotos ou só as selecionadas, em ZIP.' : 'O download é liberado quando o trabalho é marcado como entregue.'}
+          </p>
+        </div>
+        {!readOnly && (
+          <select
+            value={quality}
+            onChange={(e) => update(e.target.value as DeliveryQuality)}
+            className="bg-zinc-800 border border-white/10 rounded-xl px-4 py-3 text-xs font-bold focus:outline-none focus:border-red-600/50"
+            title="Arquivos entregues"
+          >
+            {Object.entries(QUALITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {downloads.length > 0 && (
+        <div className="mt-6 space-y-2 max-h-56 overflow-y-auto pr-1">
+          {downloads.map(d => (
+            <div key={d.id} className="flex items-center justify-between gap-3 bg-black/20 border border-white/5 rounded-xl px-4 py-3">
+              <div className="min-w-0 flex items-center gap-3">
+                <Download size={14} className="text-zinc-500 shrink-0" />
+                <p className="text-sm truncate">
+                  {d.scope === 'selected' ? 'Selecionadas' : 'Todas'} · {d.files} fotos
+                  {d.parts > 1 && <span className="text-zinc-500"> · parte {d.part}/{d.parts}</span>}
+                </p>
+              </div>
+              <p className="text-[10px] text-zinc-500 font-mono shrink-0 text-right">
+                <span className={d.completedAt ? 'text-emerald-500' : 'text-amber-500'}>
+                  {d.completedAt ? (d.bytes ? formatBytes(d.bytes) : 'Concluído') : 'Incompleto'}
+                </span>
+                {' · '}{new Date(d.createdAt).toLocaleString('pt-BR')}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
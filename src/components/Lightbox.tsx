@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { X, ChevronLeft, ChevronRight, Play, Pause, Maximize, Minimize, ZoomIn, ZoomOut } from 'lucide-react';
+
+export interface LightboxPhoto {
+  url: string;
+  name: string;
+  caption: string | null;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const SWIPE_THRESHOLD = 60; // px
+const SLIDESHOW_INTERVAL = 4000; // ms
+
+type Point = { x: number; y: number };
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+interface LightboxProps {
+  photos: LightboxPhoto[];
+  index: number;
+  logo: string | null;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  // Extra buttons for the bottom bar and a side panel (selection, comments)
+  actions?: React.ReactNode;
+  aside?: React.ReactNode;
+}
+
+export default function Lightbox({ photos, index, logo, onIndexChange, onClose, actions, aside }: LightboxProps) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef({ x: 0, y: 0, offsetX: 0, offsetY: 0, distance: 0, zoom: 1 });
+
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [swipe, setSwipe] = useState(0);
+  const [dragging, setDragging] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [fullscreen, setFullscreen] = useState(false);
+
+  const photo = photos[index];
+  const hasPrev = index > 0;
+  const hasNext = index < photos.length - 1;
+
+  const go = (next: number) => {
+    if (next < 0 || next >= photos.length || next === index) return;
+    onIndexChange(next);
+  };
+
+  // Keeps the zoomed image from being dragged out of view
+  const clampOffset = (x: number, y: number, scale: number) => {
+    const image = imageRef.current;
+    if (!image || scale <= 1) return { x: 0, y: 0 };
+    const maxX = (image.offsetWidth * (scale - 1)) / 2;
+    const maxY = (image.offsetHeight * (scale - 1)) / 2;
+    return { x: clamp(x, -maxX, maxX), y: clamp(y, -maxY, maxY) };
+  };
+
+  const applyZoom = (next: number) => {
+    const scale = clamp(next, MIN_ZOOM, MAX_ZOOM);
+    setZoom(scale);
+    setOffset(prev => clampOffset(prev.x, prev.y, scale));
+  };
+
+  // Every photo opens unzoomed
+  useEffect(() => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+    setSwipe(0);
+  }, [index]);
+
+  // Preload the neighbours so arrows, swipes and the slideshow don't wait on the network
+  useEffect(() => {
+    for (const neighbour of [index - 1, index + 1, index + 2]) {
+      const url = photos[neighbour]?.url;
+      if (url) new Image().src = url;
+    }
+  }, [index, photos]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setTimeout(() => onIndexChange(hasNext ? index + 1 : 0), SLIDESHOW_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [playing, index, hasNext]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      // Typing a comment must not flip photos
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      if (e.key === 'ArrowLeft') go(index - 1);
+      else if (e.key === 'ArrowRight') go(index + 1);
+      else if (e.key === 'Escape') onClose();
+      else if (e.key === '+' || e.key === '=') applyZoom(zoom * 1.5);
+      else if (e.key === '-') applyZoom(zoom / 1.5);
+      else if (e.key === ' ') {
+        e.preventDefault();
+        setPlaying(p => !p);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  // React registers wheel listeners as passive, so preventDefault needs a native one
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      applyZoom(zoom * Math.exp(-e.deltaY * 0.002));
+    };
+    stage.addEventListener('wheel', handleWheel, { passive: false });
+    return () => stage.removeEventListener('wheel', handleWheel);
+  });
+
+  useEffect(() => {
+    const handleChange = () => setFullscreen(document.fullscreenElement === rootRef.current);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => {
+      document.removeEventListener('fullscreenchange', handleChange);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  const toggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) await document.exitFullscreen();
+      else await rootRef.current?.requestFullscreen();
+    } catch (err) {
+      console.error('Fullscreen unavailable:', err);
+    }
+  };
+
+  const startGesture = () => {
+    const points: Point[] = Array.from(pointers.current.values());
+    const [a, b] = points;
+    gesture.current = {
+      x: a.x,
+      y: a.y,
+      offsetX: offset.x,
+      offsetY: offset.y,
+      distance: b ? Math.hypot(a.x - b.x, a.y - b.y) : 0,
+      zoom
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    setDragging(true);
+    startGesture();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const points: Point[] = Array.from(pointers.current.values());
+    const start = gesture.current;
+
+    if (points.length >= 2 && start.distance) {
+      // Pinch
+      const [a, b] = points;
+      applyZoom(start.zoom * (Math.hypot(a.x - b.x, a.y - b.y) / start.distance));
+    } else if (zoom > 1) {
+      // Pan
+      setOffset(clampOffset(start.offsetX + e.clientX - start.x, start.offsetY + e.clientY - start.y, zoom));
+    } else {
+      // Swipe
+      setSwipe(e.clientX - start.x);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    const start = gesture.current;
+    const wasSwipe = pointers.current.size === 1 && zoom <= 1 && !start.distance;
+    pointers.current.delete(e.pointerId);
+
+    if (wasSwipe) {
+      const dx = e.clientX - start.x;
+      if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(e.clientY - start.y)) go(dx < 0 ? index + 1 : index - 1);
+      setSwipe(0);
+    }
+    if (pointers.current.size > 0) startGesture();
+    else setDragging(false);
+  };
+
+  if (!photo) return null;
+
+  const controlClass = "p-3 rounded-full bg-white/5 backdrop-blur-xl border border-white/10 text-white/70 hover:text-white transition-colors";
+
+  return (
+    <motion.div
+      ref={rootRef}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/95 flex items-center justify-center p-4 select-none"
+      onClick={onClose}
+    >
+      <div className="absolute top-6 left-6 flex items-center gap-2 z-[60]" onClick={(e) => e.stopPropagation()}>
+        <button onClick={() => setPlaying(!playing)} className={controlClass} title={playing ? 'Pausar apresentação' : 'Apresentação automática'}>
+          {playing ? <Pause size={18} /> : <Play size={18} />}
+        </button>
+        <button onClick={toggleFullscreen} className={controlClass} title={fullscreen ? 'Sair da tela cheia' : 'Tela cheia'}>
+          {fullscreen ? <Minimize size={18} /> : <Maximize size={18} />}
+        </button>
+        <button onClick={() => applyZoom(zoom / 1.5)} disabled={zoom <= MIN_ZOOM} className={`${controlClass} disabled:opacity-30`} title="Diminuir zoom">
+          <ZoomOut size={18} />
+        </button>
+        <button onClick={() => applyZoom(zoom * 1.5)} disabled={zoom >= MAX_ZOOM} className={`${controlClass} disabled:opacity-30`} title="Aumentar zoom">
+          <ZoomIn size={18} />
+        </button>
+        {zoom > 1 && <span className="text-white/60 text-xs font-mono ml-1">{Math.round(zoom * 100)}%</span>}
+      </div>
+
+      <button
+        className="absolute top-6 right-6 text-white/70 hover:text-white transition-colors z-[60]"
+        onClick={onClose}
+        title="Fechar (Esc)"
+      >
+        <X size={40} />
+      </button>
+
+      {hasPrev && (
+        <button
+          className="hidden md:flex absolute left-6 top-1/2 -translate-y-1/2 z-[45] p-3 rounded-full bg-white/5 hover:bg-white/10 text-white/70 hover:text-white transition-colors"
+          onClick={(e) => { e.stopPropagation(); go(index - 1); }}
+          title="Foto anterior"
+        >
+          <ChevronLeft size={32} />
+        </button>
+      )}
+      {hasNext && (
+        <button
+          className="hidden md:flex absolute right-6 top-1/2 -translate-y-1/2 z-[45] p-3 rounded-full bg-white/5 hover:bg-white/10 text-white/70 hover:text-white transition-colors"
+          onClick={(e) => { e.stopPropagation(); go(index + 1); }}
+          title="Próxima foto"
+        >
+          <ChevronRight size={32} />
+        </button>
+      )}
+
+      <div
+        ref={stageRef}
+        className="relative max-w-full max-h-full flex items-center justify-center overflow-hidden touch-none"
+        onClick={(e) => e.stopPropagation()}
+        onDoubleClick={() => applyZoom(zoom > 1 ? 1 : 2)}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <motion.div
+          key={photo.name}
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="relative flex items-center justify-center"
+        >
+          {/* Image and watermarks move together, so zooming never uncovers a clean area */}
+          <div
+            className={`relative ${dragging ? '' : 'transition-transform duration-200'} ${zoom > 1 ? 'cursor-grab' : 'cursor-default'}`}
+            style={{ transform: `translate(${offset.x + swipe}px, ${offset.y}px) scale(${zoom})` }}
+          >
+            {/* Invisible protection layer to prevent dragging/saving */}
+            <div className="absolute inset-0 z-20" onContextMenu={(e) => e.preventDefault()} />
+
+            <img
+              ref={imageRef}
+              src={photo.url}
+              alt={photo.name}
+              className="max-w-full max-h-[90vh] object-contain shadow-2xl relative z-10"
+              draggable={false}
+              referrerPolicy="no-referrer"
+            />
+
+            {/* Central Watermark Overlay */}
+            {logo && (
+              <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none overflow-hidden">
+                <div className="opacity-[0.15] transform rotate-[-30deg] scale-150 flex flex-col items-center">
+                  <img src={logo} alt="" className="w-64 md:w-96 object-contain grayscale brightness-200" referrerPolicy="no-referrer" />
+                  <p className="text-white text-4xl md:text-6xl font-bold tracking-[0.5em] mt-4 uppercase">PROPRIEDADE DO ESTÚDIO</p>
+                </div>
+              </div>
+            )}
+
+            {/* Corner Watermark (More visible) */}
+            {logo && (
+              <div className="absolute bottom-6 right-6 z-30 opacity-40 pointer-events-none">
+                <img src={logo} alt="" className="h-8 md:h-12 object-contain grayscale brightness-200" referrerPolicy="no-referrer" />
+              </div>
+            )}
+          </div>
+        </motion.div>
+      </div>
+
+      {photo.caption && zoom === 1 && (
+        <p className="absolute bottom-28 left-1/2 -translate-x-1/2 z-40 max-w-xl w-[90%] text-center text-sm text-white/80 bg-black/40 backdrop-blur-md px-6 py-3 rounded-2xl pointer-events-none">
+          {photo.caption}
+        </p>
+      )}
+
+      {actions && (
+        <div className="absolute bottom-10 left-1/2 -translate-x-1/2 flex items-center gap-3 z-40" onClick={(e) => e.stopPropagation()}>
+          {actions}
+        </div>
+      )}
+
+      {aside}
+    </motion.div>
+  );
+}
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Mail, Send, CheckCircle2, AlertCircle } from 'lucide-react';
+import type { NotificationLogEntry } from '../../shared';
+
+const TEMPLATE_LABELS: Record<NotificationLogEntry['template'], string> = {
+  portfolio_link: 'Link do portfólio',
+  selection_submitted: 'Seleção enviada',
+  client_comment: 'Comentário do cliente'
+};
+
+interface NotificationsCardProps {
+  email: string | null;
+  hasAccessCode: boolean;
+  notifications: NotificationLogEntry[];
+  onSendLink: (accessCode: string | null) => Promise<void>;
+  readOnly?: boolean;
+}
+
+export default function NotificationsCard({ email, hasAccessCode, notifications, onSendLink, readOnly = false }: NotificationsCardProps) {
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    // The server only keeps a hash of the code, so it has to be typed again
+    const accessCode = hasAccessCode ? prompt('Este portfólio é protegido. Digite o código de acesso para incluí-lo no e-mail:') : null;
+    if (hasAccessCode && !accessCode) return;
+
+    setSending(true);
+    try {
+      await onSendLink(accessCode);
+      alert(`Link enviado para ${email}.`);
+    } catch (err: any) {
+      alert(err.message || 'Erro ao enviar e-mail');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 p-6 rounded-2xl mb-12">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-zinc-500 text-xs uppercase tracking-widest font-bold mb-2">Notificações</p>
+          <span className={`flex items-center gap-2 text-sm ${email ? 'text-zinc-300' : 'text-zinc-600'}`}>
+            <Mail size={14} />
+            {email || 'Cadastre o e-mail do cliente para enviar o link'}
+          </span>
+        </div>
+        {!readOnly && (
+          <button
+            onClick={handleSend}
+            disabled={!email || sending}
+            className="shrink-0 flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 px-4 py-3 rounded-xl text-xs font-bold transition-colors"
+            title={email ? 'Enviar o link do portfólio por e-mail' : 'Cadastre o e-mail do cliente'}
+          >
+            <Send size={16} />
+            {sending ? 'Enviando...' : 'Enviar link'}
+          </button>
+        )}
+      </div>
+
+      {notifications.length > 0 && (
+        <div className="mt-6 space-y-2 max-h-56 overflow-y-auto pr-1">
+          {notifications.map(n => (
+            <div key={n.id} className="flex items-center justify-between gap-3 bg-black/20 border border-white/5 rounded-xl px-4 py-3">
+              <div className="min-w-0 flex items-center gap-3">
+                {n.status === 'sent'
+                  ? <CheckCircle2 size={14} className="text-emerald-500 shrink-0" />
+                  : <AlertCircle size={14} className="text-red-500 shrink-0" />}
+                <div className="min-w-0">
+                  <p className="text-sm truncate">{TEMPLATE_LABELS[n.template] || n.template} · <span className="text-zinc-500">{n.recipient}</span></p>
+                  {n.error && <p className="text-[10px] text-red-500/80 truncate">{n.error}</p>}
+                </div>
+              </div>
+              <p className="text-[10px] text-zinc-500 font-mono shrink-0 text-right">
+                {n.transport === 'console' && <span className="text-amber-500">só no log · </span>}
+                {n.sentByName && `${n.sentByName} · `}
+                {new Date(n.createdAt).toLocaleString('pt-BR')}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
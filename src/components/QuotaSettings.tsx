@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Settings2 } from 'lucide-react';
+import type { Quotas } from '../../shared';
+
+const MB = 1024 * 1024;
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * MB ? `${(bytes / (1024 * MB)).toFixed(1)} GB` : `${(bytes / MB).toFixed(bytes >= 10 * MB ? 0 : 1)} MB`;
+
+interface QuotaSettingsProps {
+  quotas: Quotas;
+  onSave: (quotas: Quotas) => Promise<void>;
+}
+
+export default function QuotaSettings({ quotas, onSave }: QuotaSettingsProps) {
+  const [editing, setEditing] = useState(false);
+  const [maxClients, setMaxClients] = useState('');
+  const [maxPhotos, setMaxPhotos] = useState('');
+  const [maxStorageMb, setMaxStorageMb] = useState('');
+  const [maxFileMb, setMaxFileMb] = useState('');
+
+  const startEditing = () => {
+    setMaxClients(String(quotas.maxClients));
+    setMaxPhotos(String(quotas.maxPhotosPerClient));
+    setMaxStorageMb(String(Math.round(quotas.maxBytesPerClient / MB)));
+    setMaxFileMb(String(Math.round(quotas.maxFileSize / MB)));
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await onSave({
+        maxClients: Number(maxClients),
+        maxPhotosPerClient: Number(maxPhotos),
+        maxBytesPerClient: Number(maxStorageMb) * MB,
+        maxFileSize: Number(maxFileMb) * MB
+      });
+      setEditing(false);
+    } catch (err: any) {
+      alert(err.message || 'Erro ao salvar limites');
+    }
+  };
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-red-600/50";
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-2xl p-5 shadow-inner">
+      {editing ? (
+        <form onSubmit={handleSave} className="space-y-3">
+          <label className="block text-[10px] uppercase tracking-widest text-zinc-500 font-bold">
+            Clientes
+            <input type="number" min={1} value={maxClients} onChange={(e) => setMaxClients(e.target.value)} className={`${inputClass} mt-1`} required />
+          </label>
+          <label className="block text-[10px] uppercase tracking-widest text-zinc-500 font-bold">
+            Fotos por cliente
+            <input type="number" min={1} value={maxPhotos} onChange={(e) => setMaxPhotos(e.target.value)} className={`${inputClass} mt-1`} required />
+          </label>
+          <label className="block text-[10px] uppercase tracking-widest text-zinc-500 font-bold">
+            Armazenamento por cliente (MB)
+            <input type="number" min={1} value={maxStorageMb} onChange={(e) => setMaxStorageMb(e.target.value)} className={`${inputClass} mt-1`} required />
+          </label>
+          <label className="block text-[10px] uppercase tracking-widest text-zinc-500 font-bold">
+            Tamanho máximo por arquivo (MB)
+            <input type="number" min={1} max={50} value={maxFileMb} onChange={(e) => setMaxFileMb(e.target.value)} className={`${inputClass} mt-1`} required />
+          </label>
+          <div className="flex gap-2 pt-1">
+            <button type="button" onClick={() => setEditing(false)} className="flex-1 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-[10px] uppercase tracking-widest font-bold transition-all">
+              Cancelar
+            </button>
+            <button className="flex-1 py-2 bg-red-600 hover:bg-red-700 rounded-xl text-[10px] uppercase tracking-widest font-bold transition-all">
+              Salvar
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex items-start justify-between gap-3">
+          <ul className="text-xs text-zinc-400 space-y-1">
+            <li>{quotas.maxClients} clientes</li>
+            <li>{quotas.maxPhotosPerClient} fotos · {formatBytes(quotas.maxBytesPerClient)} por cliente</li>
+            <li>Até {formatBytes(quotas.maxFileSize)} por arquivo</li>
+          </ul>
+          <button onClick={startEditing} className="text-zinc-600 hover:text-white transition-colors p-1" title="Editar limites">
+            <Settings2 size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Copy, Ban, Plus, Eye } from 'lucide-react';
+import type { LinkAccess, ShareLink } from '../../shared';
+
+export const portfolioUrl = (clientId: string, linkId: string) =>
+  `${window.location.origin}/portfolio/${clientId}?link=${linkId}`;
+
+interface ShareLinksCardProps {
+  clientId: string;
+  links: ShareLink[];
+  accesses: LinkAccess[];
+  onCreate: (link: { label: string; expiresAt: string | null; maxViews: number | null }) => Promise<void>;
+  onRevoke: (linkId: string) => Promise<void>;
+  readOnly?: boolean;
+}
+
+const linkStatus = (link: ShareLink) => {
+  if (link.revokedAt) return { label: 'Revogado', className: 'text-zinc-500' };
+  if (link.expiresAt && new Date(link.expiresAt).getTime() < Date.now()) return { label: 'Expirado', className: 'text-amber-500' };
+  if (link.maxViews && link.views >= link.maxViews) return { label: 'Limite atingido', className: 'text-amber-500' };
+  return { label: 'Ativo', className: 'text-emerald-500' };
+};
+
+export default function ShareLinksCard({ clientId, links, accesses, onCreate, onRevoke, readOnly = false }: ShareLinksCardProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [label, setLabel] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [maxViews, setMaxViews] = useState('');
+
+  const activeLinks = links.filter(l => l.active);
+  const totalViews = links.reduce((sum, l) => sum + (l.views || 0), 0);
+  const lastAccess = accesses[0]?.createdAt;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await onCreate({
+        label,
+        expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+        maxViews: maxViews ? Number(maxViews) : null
+      });
+      setLabel('');
+      setExpiresAt('');
+      setMaxViews('');
+      setShowForm(false);
+    } catch (err: any) {
+      alert(err.message || 'Erro ao criar link');
+    }
+  };
+
+  const copyLink = (linkId: string) => {
+    navigator.clipboard.writeText(portfolioUrl(clientId, linkId));
+    alert('Link copiado!');
+  };
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 p-6 rounded-2xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-zinc-500 text-xs uppercase tracking-widest font-bold mb-1">Status do Link</p>
+          {activeLinks.length > 0 ? (
+            <span className="text-emerald-500 font-bold flex items-center gap-2">
+              <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse" />
+              Online · {activeLinks.length} {activeLinks.length === 1 ? 'link ativo' : 'links ativos'}
+            </span>
+          ) : (
+            <span className="text-zinc-500 font-bold flex items-center gap-2">
+              <div className="w-2 h-2 bg-zinc-600 rounded-full" />
+              Sem link ativo
+            </span>
+          )}
+          <p className="text-zinc-600 text-xs mt-2 flex items-center gap-2">
+            <Eye size={12} />
+            {totalViews} {totalViews === 1 ? 'visualização' : 'visualizações'}
+            {lastAccess && ` · último acesso ${new Date(lastAccess).toLocaleString('pt-BR')}`}
+          </p>
+        </div>
+        {!readOnly && <button
+          onClick={() => setShowForm(!showForm)}
+          className="bg-zinc-800 hover:bg-zinc-700 p-3 rounded-xl transition-colors"
+          title="Novo link"
+        >
+          <Plus size={20} />
+        </button>}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Descrição (ex.: Noivos)"
+            maxLength={80}
+            className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-red-600/50"
+          />
+          <input
+            type="date"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            title="Expira em"
+            className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-red-600/50"
+          />
+          <input
+            type="number"
+            min={1}
+            value={maxViews}
+            onChange={(e) => setMaxViews(e.target.value)}
+            placeholder="Máx. visualizações"
+            className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-red-600/50"
+          />
+          <button className="sm:col-span-3 bg-red-600 hover:bg-red-700 py-2 rounded-xl text-xs font-bold uppercase tracking-widest transition-all active:scale-[0.98]">
+            Criar link
+          </button>
+        </form>
+      )}
+
+      {links.length > 0 && (
+        <div className="mt-6 space-y-2 max-h-56 overflow-y-auto pr-1">
+          {links.map(link => {
+            const status = linkStatus(link);
+            return (
+              <div key={link.id} className="flex items-center justify-between gap-3 bg-black/20 border border-white/5 rounded-xl px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-bold truncate">{link.label || 'Link sem descrição'}</p>
+                  <p className="text-[10px] text-zinc-500 font-mono">
+                    <span className={status.className}>{status.label}</span>
+                    {' · '}{link.views}{link.maxViews ? `/${link.maxViews}` : ''} views
+                    {link.expiresAt && ` · até ${new Date(link.expiresAt).toLocaleDateString('pt-BR')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {link.active && (
+                    <button onClick={() => copyLink(link.id)} className="p-2 text-zinc-500 hover:text-white transition-colors" title="Copiar link">
+                      <Copy size={14} />
+                    </button>
+                  )}
+                  {!readOnly && !link.revokedAt && (
+                    <button
+                      onClick={() => confirm('Revogar este link? Quem tiver o endereço perderá o acesso.') && onRevoke(link.id)}
+                      className="p-2 text-zinc-500 hover:text-red-500 transition-colors"
+                      title="Revogar link"
+                    >
+                      <Ban size={14} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,120 +1,166 @@
 import React, { useState, useEffect } from 'react';
+import type { CheckStatus, DiagnosticCheck, Diagnostics } from '../../shared';
 
-export default function StatusIndicator() {
-  const [status, setStatus] = useState<{
-    supabaseConnected: boolean;
-    errorDetail: string | null;
-    supabaseUrl: string | null;
-    version: string;
-    loading: boolean;
-    internetStatus: boolean;
-    setupGuide: any;
-    diagnostic: any;
-  }>({
-    supabaseConnected: false,
-    errorDetail: null,
-    supabaseUrl: null,
-    version: '',
-    loading: true,
-    internetStatus: true,
-    setupGuide: null,
-    diagnostic: null
-  });
+const CHECK_LABELS: Record<DiagnosticCheck['name'], string> = {
+  database: 'Banco de dados',
+  storage: 'Armazenamento',
+  disk: 'Disco',
+  config: 'Configuração'
+};
+
+const DOT_CLASSES: Record<CheckStatus, string> = {
+  ok: 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.5)]',
+  warn: 'bg-amber-500 shadow-[0_0_8px_rgba(245,158,11,0.5)]',
+  error: 'bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.5)]'
+};
+
+const BAR_CLASSES: Record<CheckStatus, string> = {
+  ok: 'bg-emerald-500/60',
+  warn: 'bg-amber-500/60',
+  error: 'bg-red-500/70'
+};
+
+// Latency of the last runs, one bar per run
+function LatencyHistory({ check }: { check: DiagnosticCheck }) {
+  const samples = check.history.filter(s => s.latencyMs !== null);
+  if (samples.length === 0) return null;
+  const max = Math.max(...samples.map(s => s.latencyMs!), 1);
+
+  return (
+    <div className="flex items-end gap-px h-6 mt-2" title="Latência das últimas verificações">
+      {samples.map((sample, i) => (
+        <div
+          key={i}
+          title={`${new Date(sample.checkedAt).toLocaleTimeString('pt-BR')} · ${sample.latencyMs} ms`}
+          className={`w-1.5 rounded-sm ${BAR_CLASSES[sample.status]}`}
+          style={{ height: `${Math.max(8, (sample.latencyMs! / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Server diagnostics for owners (admin area only)
+export default function StatusIndicator({ token }: { token: string }) {
+  const [diagnostics, setDiagnostics] = useState<Diagnostics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+  const [fixingStorage, setFixingStorage] = useState(false);
 
   const checkStatus = async () => {
     try {
-      const res = await fetch('/api/health');
-      if (!res.ok) throw new Error('API Error');
-      const data = await res.json();
-      setStatus({
-        supabaseConnected: !!data.supabaseConnected,
-        errorDetail: data.errorDetail || null,
-        supabaseUrl: data.currentUrl || null,
-        version: data.version || '0.0.0',
-        loading: false,
-        internetStatus: data.internetStatus ?? true,
-        setupGuide: data.setupGuide || null,
-        diagnostic: data.diagnostic || null
+      const res = await fetch('/api/admin/diagnostics', {
+        headers: { 'Authorization': `Bearer ${token}` }
       });
-    } catch (e) {
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Erro ao consultar o diagnóstico');
+      setDiagnostics(data);
+      setError(null);
+    } catch (e: any) {
       console.error('Status check failed:', e);
-      setStatus(prev => ({ ...prev, loading: false, errorDetail: 'Erro ao conectar com a API' }));
+      setError(e.message || 'Erro ao conectar com a API');
     }
   };
 
   useEffect(() => {
     checkStatus();
-    const interval = setInterval(checkStatus, 30000); // Check every 30s
+    const interval = setInterval(checkStatus, 60000); // Check every minute
     return () => clearInterval(interval);
-  }, []);
+  }, [token]);
+
+  const setupStorage = async () => {
+    setFixingStorage(true);
+    try {
+      const res = await fetch('/api/admin/setup-storage', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      await checkStatus();
+    } catch (e: any) {
+      alert('Erro ao configurar: ' + (e.message || 'falha desconhecida'));
+    } finally {
+      setFixingStorage(false);
+    }
+  };
 
-  const [showHelp, setShowHelp] = useState(false);
+  if (!diagnostics && !error) return null;
 
-  if (status.loading) return null;
+  const status: CheckStatus = error ? 'error' : diagnostics!.status;
 
   return (
     <>
-      <div className="fixed bottom-4 right-4 z-50 flex items-center gap-2 bg-black/80 backdrop-blur-sm border border-white/10 px-3 py-1.5 rounded-full text-[10px] text-white/60 shadow-xl">
-        <div 
-          title="Status Supabase"
-          className={`w-2 h-2 rounded-full ${status.supabaseConnected ? 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.5)]' : 'bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.5)]'}`}
-        />
-        {!status.internetStatus && (
-          <div 
-            title="Sem Internet"
-            className="w-2 h-2 rounded-full bg-amber-500 animate-pulse shadow-[0_0_8px_rgba(245,158,11,0.5)]"
-          />
-        )}
-        <span className="font-mono">v{status.version}</span>
-        {status.errorDetail && (
-          <button 
-            onClick={() => setShowHelp(true)}
-            className="underline hover:text-white transition-colors"
-          >
-            {status.supabaseConnected ? 'Ver Aviso' : 'Como Corrigir?'}
-          </button>
-        )}
-      </div>
-
-      {showHelp && (
+      <button
+        onClick={() => setShowDetails(true)}
+        className="fixed bottom-4 right-4 z-50 flex items-center gap-2 bg-black/80 backdrop-blur-sm border border-white/10 px-3 py-1.5 rounded-full text-[10px] text-white/60 shadow-xl hover:text-white transition-colors"
+        title="Diagnóstico do servidor"
+      >
+        <div className={`w-2 h-2 rounded-full ${DOT_CLASSES[status]}`} />
+        {diagnostics && <span className="font-mono">v{diagnostics.version}</span>}
+        {status !== 'ok' && <span className="underline">{status === 'warn' ? 'Ver Aviso' : 'Ver Problema'}</span>}
+      </button>
+
+      {showDetails && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md">
-          <div className="bg-[#111] border border-white/10 p-6 rounded-2xl max-w-md w-full shadow-2xl">
+          <div className="bg-[#111] border border-white/10 p-6 rounded-2xl max-w-md w-full shadow-2xl max-h-[90vh] overflow-y-auto">
             <h3 className="text-white font-medium mb-4 flex items-center gap-2">
-              <span className="w-2 h-2 rounded-full bg-red-500" />
+              <span className={`w-2 h-2 rounded-full ${DOT_CLASSES[status]}`} />
               Status do Sistema
             </h3>
-            
-            <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-lg mb-6">
-              <p className="text-red-400 text-xs leading-relaxed">
-                {status.errorDetail}
-              </p>
-              {status.supabaseUrl && (
-                <div className="mt-2 pt-2 border-t border-red-500/20 text-[9px] text-red-500/60 font-mono space-y-1">
-                  <p>URL Atual: {status.supabaseUrl}</p>
-                  {status.diagnostic?.projectId && <p>Project ID Detectado: {status.diagnostic.projectId}</p>}
-                  {status.diagnostic?.envSource && <p>Origem: {status.diagnostic.envSource}</p>}
-                </div>
-              )}
-            </div>
 
-            {status.setupGuide && (
-              <div className="space-y-4 mb-6">
-                <p className="text-white/40 text-[10px] uppercase tracking-wider font-bold">Guia de Configuração</p>
-                {Object.values(status.setupGuide).filter(v => v !== null).map((step: any, i) => (
-                  <div key={i} className="flex gap-3 items-start">
-                    <span className="bg-white/5 text-white/40 w-5 h-5 rounded-full flex items-center justify-center text-[10px] shrink-0">{i+1}</span>
-                    <p className="text-white/80 text-xs">{step}</p>
+            {error && (
+              <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-lg mb-4">
+                <p className="text-red-400 text-xs leading-relaxed">{error}</p>
+              </div>
+            )}
+
+            {diagnostics && (
+              <div className="space-y-3 mb-6">
+                {diagnostics.checks.map(check => (
+                  <div key={check.name} className="bg-white/5 border border-white/10 p-3 rounded-lg">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="flex items-center gap-2 text-white text-xs font-bold">
+                        <span className={`w-2 h-2 rounded-full ${DOT_CLASSES[check.status]}`} />
+                        {CHECK_LABELS[check.name]}
+                      </span>
+                      {check.latencyMs !== null && <span className="text-[10px] text-white/40 font-mono">{check.latencyMs} ms</span>}
+                    </div>
+                    <p className={`text-[11px] mt-1 leading-relaxed ${check.status === 'ok' ? 'text-white/50' : check.status === 'warn' ? 'text-amber-400' : 'text-red-400'}`}>
+                      {check.message}
+                    </p>
+                    <LatencyHistory check={check} />
+                    {check.name === 'storage' && (check.details.missingBuckets as string[] | undefined)?.length > 0 && (
+                      <button
+                        onClick={setupStorage}
+                        disabled={fixingStorage}
+                        className="mt-2 text-[8px] bg-red-600/20 hover:bg-red-600/40 text-red-500 px-2 py-1 rounded border border-red-500/30 transition-all uppercase font-bold disabled:opacity-50"
+                      >
+                        {fixingStorage ? 'Criando...' : 'Criar Buckets'}
+                      </button>
+                    )}
                   </div>
                 ))}
+                <p className="text-[10px] text-white/30 font-mono">
+                  Verificado às {new Date(diagnostics.checkedAt).toLocaleTimeString('pt-BR')} · no ar há {Math.floor(diagnostics.uptimeSeconds / 60)} min
+                </p>
               </div>
             )}
 
-            <button 
-              onClick={() => setShowHelp(false)}
-              className="w-full bg-white text-black py-2 rounded-xl text-xs font-bold hover:bg-white/90 transition-colors"
-            >
-              Entendi, vou verificar
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={checkStatus}
+                className="flex-1 bg-white/5 hover:bg-white/10 text-white py-2 rounded-xl text-xs font-bold transition-colors"
+              >
+                Verificar agora
+              </button>
+              <button
+                onClick={() => setShowDetails(false)}
+                className="flex-1 bg-white text-black py-2 rounded-xl text-xs font-bold hover:bg-white/90 transition-colors"
+              >
+                Fechar
+              </button>
+            </div>
           </div>
         </div>
       )}
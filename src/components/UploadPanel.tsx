@@ -0,0 +1,90 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { X, RotateCcw, CheckCircle2, AlertCircle } from 'lucide-react';
+import { UploadItem } from '../lib/uploadQueue';
+import { formatBytes } from './QuotaSettings';
+
+interface UploadPanelProps {
+  items: UploadItem[];
+  running: boolean;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<UploadItem['status'], string> = {
+  queued: 'Na fila',
+  compressing: 'Comprimindo',
+  uploading: 'Enviando',
+  processing: 'Processando',
+  done: 'Concluída',
+  error: 'Falhou'
+};
+
+export default function UploadPanel({ items, running, onRetry, onClose }: UploadPanelProps) {
+  const done = items.filter(i => i.status === 'done').length;
+  const failed = items.filter(i => i.status === 'error').length;
+  const totalBytes = items.reduce((sum, i) => sum + i.file.size, 0);
+  const sentBytes = items.reduce((sum, i) => sum + i.file.size * (i.status === 'done' ? 1 : i.progress), 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="fixed bottom-6 right-6 w-[calc(100%-3rem)] sm:w-96 max-h-[60vh] bg-zinc-950/95 backdrop-blur-xl border border-white/10 rounded-2xl shadow-2xl flex flex-col z-50"
+    >
+      <div className="p-5 border-b border-white/5">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-[10px] uppercase tracking-widest text-zinc-500 font-bold">Envio de fotos</p>
+            <p className="font-bold font-display">
+              {done} de {items.length} concluídas{failed > 0 && <span className="text-red-500"> · {failed} com erro</span>}
+            </p>
+          </div>
+          <div className="flex items-center gap-1">
+            {!running && failed > 0 && (
+              <button onClick={onRetry} className="text-zinc-500 hover:text-white transition-colors p-2 hover:bg-white/5 rounded-lg" title="Tentar novamente">
+                <RotateCcw size={16} />
+              </button>
+            )}
+            {!running && (
+              <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors p-2 hover:bg-white/5 rounded-lg" title="Fechar">
+                <X size={16} />
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="w-full bg-zinc-800 h-1.5 rounded-full mt-3 overflow-hidden">
+          <div className="h-full rounded-full bg-red-600 transition-all" style={{ width: `${totalBytes ? (sentBytes / totalBytes) * 100 : 0}%` }} />
+        </div>
+        <p className="text-[10px] text-zinc-600 font-mono mt-2">{formatBytes(sentBytes)} / {formatBytes(totalBytes)}</p>
+      </div>
+
+      <div className="overflow-y-auto p-3 space-y-2">
+        {items.map(item => (
+          <div key={item.id} className="bg-black/20 border border-white/5 rounded-xl px-4 py-3">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs font-bold truncate">{item.file.name}</p>
+              <span className={`shrink-0 text-[10px] uppercase tracking-widest font-bold flex items-center gap-1 ${item.status === 'error' ? 'text-red-500' : item.status === 'done' ? 'text-emerald-500' : 'text-zinc-500'}`}>
+                {item.status === 'done' && <CheckCircle2 size={12} />}
+                {item.status === 'error' && <AlertCircle size={12} />}
+                {STATUS_LABELS[item.status]}
+                {item.attempts > 0 && item.status !== 'error' && ` · tentativa ${item.attempts + 1}`}
+              </span>
+            </div>
+            {item.status !== 'done' && item.status !== 'error' && (
+              <div className="w-full bg-zinc-800 h-1 rounded-full mt-2 overflow-hidden">
+                <div className={`h-full rounded-full transition-all ${item.status === 'processing' ? 'bg-amber-500 animate-pulse' : 'bg-zinc-400'}`} style={{ width: `${item.progress * 100}%` }} />
+              </div>
+            )}
+            {item.file.size < item.originalSize && (
+              <p className="text-[10px] text-zinc-500 font-mono mt-1">
+                {formatBytes(item.originalSize)} → {formatBytes(item.file.size)} · {Math.round((1 - item.file.size / item.originalSize) * 100)}% menor
+              </p>
+            )}
+            {item.error && <p className="text-[10px] text-red-500/80 mt-1">{item.error}</p>}
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { UserPlus, Users, KeyRound, Ban, RotateCcw } from 'lucide-react';
+import type { StaffUser, UserRole } from '../../shared';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Proprietário',
+  photographer: 'Fotógrafo',
+  viewer: 'Visualizador'
+};
+
+interface AssignableClient {
+  id: string;
+  name: string;
+  assignedTo?: string[];
+}
+
+interface UserManagementProps {
+  token: string;
+  currentUserId: string;
+  clients: AssignableClient[];
+  onClientsChanged: () => void;
+}
+
+export default function UserManagement({ token, currentUserId, clients, onClientsChanged }: UserManagementProps) {
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserRole>('photographer');
+  const [password, setPassword] = useState('');
+
+  const fetchUsers = async () => {
+    try {
+      const res = await fetch('/api/admin/users', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (res.ok) setUsers(await res.json());
+    } catch (e) {
+      console.error('Error fetching users:', e);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const createUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const res = await fetch('/api/admin/users', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ name, email, role, password })
+    });
+    if (res.ok) {
+      setName('');
+      setEmail('');
+      setPassword('');
+      fetchUsers();
+    } else {
+      const err = await res.json();
+      alert(err.error);
+    }
+  };
+
+  const updateUser = async (userId: string, changes: Record<string, unknown>) => {
+    const res = await fetch(`/api/admin/users/${userId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify(changes)
+    });
+    if (res.ok) {
+      fetchUsers();
+    } else {
+      const err = await res.json();
+      alert(err.error);
+    }
+  };
+
+  const resetPassword = (user: StaffUser) => {
+    const newPassword = prompt(`Nova senha para ${user.name} (mínimo 8 caracteres):`);
+    if (newPassword) updateUser(user.id, { password: newPassword });
+  };
+
+  const toggleAssignment = async (client: AssignableClient, userId: string) => {
+    const assigned = client.assignedTo || [];
+    const userIds = assigned.includes(userId) ? assigned.filter(id => id !== userId) : [...assigned, userId];
+
+    const res = await fetch(`/api/admin/clients/${client.id}/assignees`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ userIds })
+    });
+    if (res.ok) {
+      onClientsChanged();
+    } else {
+      const err = await res.json();
+      alert(err.error);
+    }
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
+      <div className="flex items-center gap-3 mb-2">
+        <span className="bg-red-600/20 text-red-500 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider">Equipe</span>
+      </div>
+      <h2 className="text-4xl md:text-5xl font-bold font-display tracking-tight mb-12">Usuários do Estúdio</h2>
+
+      <form onSubmit={createUser} className="bg-zinc-900/50 border border-zinc-800 p-6 rounded-2xl mb-12 grid grid-cols-1 md:grid-cols-5 gap-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nome"
+          required
+          className="bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-red-600/50"
+        />
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="E-mail"
+          required
+          className="bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-red-600/50"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          className="bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-red-600/50"
+        >
+          {Object.entries(ROLE_LABELS).map(([value, label]) => (
+            <option key={value} value={value} className="bg-zinc-900">{label}</option>
+          ))}
+        </select>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Senha inicial"
+          minLength={8}
+          required
+          className="bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-red-600/50"
+        />
+        <button className="flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 rounded-xl text-xs font-bold uppercase tracking-widest transition-all active:scale-[0.98] py-3">
+          <UserPlus size={16} />
+          Adicionar
+        </button>
+      </form>
+
+      <div className="space-y-4">
+        {users.map(user => (
+          <div key={user.id} className={`bg-zinc-900/50 border border-zinc-800 p-6 rounded-2xl ${user.disabledAt ? 'opacity-50' : ''}`}>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <p className="font-bold flex items-center gap-2">
+                  {user.name}
+                  {user.id === currentUserId && <span className="text-[9px] bg-white/10 px-2 py-0.5 rounded-full uppercase tracking-widest">Você</span>}
+                  {user.disabledAt && <span className="text-[9px] bg-red-600/20 text-red-500 px-2 py-0.5 rounded-full uppercase tracking-widest">Desativado</span>}
+                </p>
+                <p className="text-xs text-zinc-500 font-mono">{user.email}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={user.role}
+                  onChange={(e) => updateUser(user.id, { role: e.target.value })}
+                  className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs focus:outline-none focus:border-red-600/50"
+                >
+                  {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value} className="bg-zinc-900">{label}</option>
+                  ))}
+                </select>
+                <button onClick={() => resetPassword(user)} className="p-2 text-zinc-500 hover:text-white transition-colors" title="Redefinir senha">
+                  <KeyRound size={16} />
+                </button>
+                {user.id !== currentUserId && (
+                  <button
+                    onClick={() => updateUser(user.id, { disabled: !user.disabledAt })}
+                    className="p-2 text-zinc-500 hover:text-red-500 transition-colors"
+                    title={user.disabledAt ? 'Reativar' : 'Desativar'}
+                  >
+                    {user.disabledAt ? <RotateCcw size={16} /> : <Ban size={16} />}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {user.role === 'photographer' && (
+              <div className="mt-4 pt-4 border-t border-white/5">
+                <p className="text-[10px] uppercase tracking-widest text-zinc-500 font-bold mb-3">Clientes atribuídos</p>
+                <div className="flex flex-wrap gap-2">
+                  {clients.map(client => {
+                    const assigned = (client.assignedTo || []).includes(user.id);
+                    return (
+                      <button
+                        key={client.id}
+                        onClick={() => toggleAssignment(client, user.id)}
+                        className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${assigned ? 'bg-red-600 border-red-500 text-white' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`}
+                      >
+                        {client.name}
+                      </button>
+                    );
+                  })}
+                  {clients.length === 0 && <span className="text-xs text-zinc-600">Nenhum cliente cadastrado.</span>}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+        {users.length === 0 && (
+          <div className="py-20 flex flex-col items-center justify-center text-zinc-600">
+            <Users size={32} className="mb-4 opacity-40" />
+            <p className="text-sm">Carregando equipe...</p>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,94 @@
+// Delivery downloads: the server splits the ZIP into parts, the browser fetches them one by one.
+// A failed part is retried on its own; parts already saved are skipped when the download is resumed.
+
+import type { DownloadManifest, DownloadPart, DownloadScope } from '../../shared';
+
+export interface DownloadProgress {
+  part: number;
+  parts: number;
+  ratio: number; // 0..1 over the whole download
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const fetchManifest = async (clientId: string, scope: DownloadScope, headers: Record<string, string>): Promise<DownloadManifest> => {
+  const res = await fetch(`/api/client/${clientId}/download?scope=${scope}`, { headers });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Não foi possível preparar o download');
+  return data;
+};
+
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+};
+
+const fetchPart = async (clientId: string, manifest: DownloadManifest, part: DownloadPart, headers: Record<string, string>, onBytes: (received: number) => void) => {
+  const res = await fetch(`/api/client/${clientId}/download/${part.part}?scope=${manifest.scope}`, { headers });
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Falha ao baixar a parte ${part.part}`);
+  }
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    onBytes(received);
+  }
+  return new Blob(chunks, { type: 'application/zip' });
+};
+
+// Downloads every part not in `completed`. Each saved part is reported through onPartSaved,
+// so after a failure the caller can resume with those parts skipped.
+export const downloadParts = async (
+  clientId: string,
+  manifest: DownloadManifest,
+  headers: Record<string, string>,
+  { completed = [], retries = 2, onProgress, onPartSaved }: {
+    completed?: number[];
+    retries?: number;
+    onProgress: (progress: DownloadProgress) => void;
+    onPartSaved: (part: number) => void;
+  }
+) => {
+  // Photos registered before sizes were stored count as zero bytes: fall back to counting parts
+  const bySize = manifest.bytes > 0;
+  const weight = (part: DownloadPart) => bySize ? part.bytes : 1;
+  const total = manifest.parts.reduce((sum, p) => sum + weight(p), 0);
+  let done = manifest.parts.filter(p => completed.includes(p.part)).reduce((sum, p) => sum + weight(p), 0);
+
+  const report = (part: DownloadPart, received: number) => onProgress({
+    part: part.part,
+    parts: manifest.parts.length,
+    ratio: Math.min((done + (bySize ? Math.min(received, part.bytes) : 0)) / total, 1)
+  });
+
+  for (const part of manifest.parts) {
+    if (completed.includes(part.part)) continue;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        saveBlob(await fetchPart(clientId, manifest, part, headers, received => report(part, received)), part.filename);
+        break;
+      } catch (err) {
+        if (attempt >= retries) throw err;
+        await wait(1000 * 2 ** attempt);
+      }
+    }
+
+    done += weight(part);
+    onPartSaved(part.part);
+    report(part, 0);
+  }
+};
@@ -0,0 +1,118 @@
+// Carries the camera EXIF block over to images re-encoded in the browser.
+// Canvas encoders drop all metadata, and the server reads capture time, camera and lens from it.
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const ORIENTATION_TAG = 0x0112;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Returns the TIFF payload of the APP1 Exif segment of a JPEG, or null when there is none
+export const readJpegExif = (jpeg: Uint8Array): Uint8Array | null => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff) {
+    const marker = jpeg[offset + 1];
+    if (marker === 0xda || marker === 0xd9) return null; // image data starts: no metadata past this point
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    if (marker === 0xe1 && EXIF_HEADER.every((b, i) => jpeg[offset + 4 + i] === b)) {
+      return jpeg.slice(offset + 4 + EXIF_HEADER.length, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// The re-encoded pixels are already upright, so the copied block must not ask for another rotation
+const resetOrientation = (tiff: Uint8Array) => {
+  if (tiff.length < 8) return;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = view.getUint16(0) === 0x4949; // "II"
+  const ifd0 = view.getUint32(4, little);
+  if (ifd0 + 2 > tiff.length) return;
+
+  const count = view.getUint16(ifd0, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (entry + 12 > tiff.length) return;
+    if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+      view.setUint16(entry + 8, 1, little);
+      return;
+    }
+  }
+};
+
+const withJpegExif = (jpeg: Uint8Array, tiff: Uint8Array) => {
+  const length = 2 + EXIF_HEADER.length + tiff.length;
+  if (length > 0xffff) return jpeg;
+
+  const segment = concat(new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff, ...EXIF_HEADER]), tiff);
+  // Keep the JFIF APP0 segment canvas encoders write first
+  const app0 = jpeg[2] === 0xff && jpeg[3] === 0xe0 ? 2 + ((jpeg[4] << 8) | jpeg[5]) : 0;
+  const insertAt = 2 + app0;
+  return concat(jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt));
+};
+
+const riffChunk = (fourcc: string, data: Uint8Array) => {
+  const header = new Uint8Array(8);
+  header.set([...fourcc].map(c => c.charCodeAt(0)));
+  new DataView(header.buffer).setUint32(4, data.length, true);
+  return concat(header, data, new Uint8Array(data.length % 2));
+};
+
+// Simple WebP files (a single VP8/VP8L chunk) need an extended VP8X header to carry an EXIF chunk
+const withWebpExif = (webp: Uint8Array, tiff: Uint8Array, width: number, height: number) => {
+  if (ascii(webp, 0, 4) !== 'RIFF' || ascii(webp, 8, 4) !== 'WEBP') return webp;
+
+  const EXIF_FLAG = 0x08;
+  const ALPHA_FLAG = 0x10;
+  let body = webp.slice(12);
+  const first = ascii(body, 0, 4);
+
+  if (first === 'VP8X') {
+    if (body[8] & EXIF_FLAG) return webp;
+    body[8] |= EXIF_FLAG;
+  } else {
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = EXIF_FLAG | (first === 'VP8L' ? ALPHA_FLAG : 0);
+    const view = new DataView(vp8x.buffer);
+    view.setUint16(4, (width - 1) & 0xffff, true);
+    vp8x[6] = ((width - 1) >> 16) & 0xff;
+    view.setUint16(7, (height - 1) & 0xffff, true);
+    vp8x[9] = ((height - 1) >> 16) & 0xff;
+    body = concat(riffChunk('VP8X', vp8x), body);
+  }
+
+  const header = new Uint8Array(12);
+  header.set([...'RIFF'].map(c => c.charCodeAt(0)));
+  header.set([...'WEBP'].map(c => c.charCodeAt(0)), 8);
+  const out = concat(header, body, riffChunk('EXIF', tiff));
+  new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return out;
+};
+
+// Copies the EXIF block of a JPEG source into a canvas-encoded JPEG or WebP.
+// Returns the encoded blob unchanged when the source has no EXIF.
+export const carryExif = async (source: Blob, encoded: Blob, width: number, height: number): Promise<Blob> => {
+  if (source.type !== 'image/jpeg') return encoded;
+
+  // APP segments come before the image data and are at most 64 KB each
+  const tiff = readJpegExif(new Uint8Array(await source.slice(0, 128 * 1024).arrayBuffer()));
+  if (!tiff) return encoded;
+  resetOrientation(tiff);
+
+  const bytes = new Uint8Array(await encoded.arrayBuffer());
+  const result = encoded.type === 'image/webp' ? withWebpExif(bytes, tiff, width, height) : withJpegExif(bytes, tiff);
+  return new Blob([result], { type: encoded.type });
+};
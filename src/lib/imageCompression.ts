@@ -0,0 +1,68 @@
+// Browser-side downscaling and re-encoding before upload.
+// createImageBitmap applies the EXIF orientation, so the re-encoded pixels are already upright;
+// the rest of the EXIF block is copied over so the server still sees capture time and camera.
+
+import { carryExif } from './exifSegment';
+import type { CompressionPresetId } from '../../shared';
+
+export interface CompressionPreset {
+  id: CompressionPresetId;
+  label: string;
+  maxLongEdge: number | null;
+  type: 'image/jpeg' | 'image/webp' | null;
+  quality: number;
+}
+
+export const COMPRESSION_PRESETS: CompressionPreset[] = [
+  { id: 'original', label: 'Original (sem compressão)', maxLongEdge: null, type: null, quality: 1 },
+  { id: 'high', label: 'Alta · 4000px JPEG 90%', maxLongEdge: 4000, type: 'image/jpeg', quality: 0.9 },
+  { id: 'balanced', label: 'Equilibrada · 3000px JPEG 85%', maxLongEdge: 3000, type: 'image/jpeg', quality: 0.85 },
+  { id: 'web', label: 'Web · 2048px WebP 82%', maxLongEdge: 2048, type: 'image/webp', quality: 0.82 }
+];
+
+export const DEFAULT_COMPRESSION_PRESET: CompressionPresetId = 'balanced';
+
+export const getPreset = (id: string | null | undefined) =>
+  COMPRESSION_PRESETS.find(p => p.id === id) || COMPRESSION_PRESETS.find(p => p.id === DEFAULT_COMPRESSION_PRESET)!;
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': '.jpg', 'image/webp': '.webp' };
+
+const encode = async (bitmap: ImageBitmap, width: number, height: number, type: string, quality: number): Promise<Blob> => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas indisponível');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return canvas.convertToBlob({ type, quality });
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas indisponível');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Falha ao comprimir imagem')), type, quality)
+  );
+};
+
+// Returns the original file when the preset keeps it, or when re-encoding would not make it smaller
+export const compressImage = async (file: File, preset: CompressionPreset): Promise<File> => {
+  if (!preset.type || !preset.maxLongEdge) return file;
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const scale = Math.min(1, preset.maxLongEdge / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const blob = await carryExif(file, await encode(bitmap, width, height, preset.type, preset.quality), width, height);
+    if (blob.size >= file.size) return file;
+
+    const name = file.name.replace(/\.[^.]+$/, '') + EXTENSIONS[preset.type];
+    return new File([blob], name, { type: preset.type, lastModified: file.lastModified });
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,117 @@
+// Direct-to-storage upload queue: bounded concurrency, retries with backoff and per-file progress.
+// Each file goes through up to four steps (optional compression, signed URL, PUT to storage, confirm);
+// a retry resumes from the step that failed, so a file already in storage is only confirmed again.
+
+export type UploadStatus = 'queued' | 'compressing' | 'uploading' | 'processing' | 'done' | 'error';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  progress: number; // 0..1 of the bytes sent to storage
+  attempts: number;
+  originalSize: number; // before compression; file.size is what gets uploaded
+  prepared?: boolean;
+  error?: string;
+  target?: { filename: string; signedUrl: string };
+  stored?: boolean;
+}
+
+export interface UploadTransport {
+  prepare?: (file: File) => Promise<File>;
+  requestTarget: (file: File) => Promise<{ filename: string; signedUrl: string }>;
+  confirm: (file: File, filename: string) => Promise<void>;
+}
+
+interface RunOptions {
+  concurrency?: number;
+  retries?: number;
+  onChange: (item: UploadItem) => void;
+}
+
+// Errors that retrying cannot fix (quota, validation) carry fatal = true
+export class UploadError extends Error {
+  constructor(message: string, public fatal = false) {
+    super(message);
+  }
+}
+
+export const createUploadItems = (files: File[]): UploadItem[] =>
+  files.map((file, i) => ({
+    id: `${Date.now()}-${i}-${file.name}`,
+    file,
+    status: 'queued',
+    progress: 0,
+    attempts: 0,
+    originalSize: file.size
+  }));
+
+// XHR instead of fetch: fetch has no upload progress events
+export const putWithProgress = (url: string, file: File, onProgress: (ratio: number) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+    xhr.setRequestHeader('x-upsert', 'true');
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) return resolve();
+      reject(new UploadError(`Storage respondeu ${xhr.status}`, xhr.status === 413 || xhr.status === 415));
+    };
+    xhr.onerror = () => reject(new UploadError('Falha de conexão com o storage'));
+    xhr.send(file);
+  });
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const runUploadQueue = async (items: UploadItem[], transport: UploadTransport, { concurrency = 3, retries = 3, onChange }: RunOptions) => {
+  const pending = items.filter(item => item.status !== 'done');
+  let next = 0;
+
+  const update = (item: UploadItem, changes: Partial<UploadItem>) => {
+    Object.assign(item, changes);
+    onChange({ ...item });
+  };
+
+  const process = async (item: UploadItem) => {
+    update(item, { status: 'queued', error: undefined, attempts: 0 });
+
+    while (true) {
+      try {
+        if (transport.prepare && !item.prepared) {
+          update(item, { status: 'compressing' });
+          update(item, { file: await transport.prepare(item.file), prepared: true });
+        }
+        if (!item.stored) {
+          // Signed upload URLs expire, so a retried transfer asks for a fresh one
+          if (!item.target || item.attempts > 0) item.target = await transport.requestTarget(item.file);
+          update(item, { status: 'uploading', progress: 0 });
+          await putWithProgress(item.target.signedUrl, item.file, progress => update(item, { progress }));
+          update(item, { stored: true, progress: 1 });
+        }
+        update(item, { status: 'processing' });
+        await transport.confirm(item.file, item.target!.filename);
+        update(item, { status: 'done' });
+        return;
+      } catch (err: any) {
+        const attempts = item.attempts + 1;
+        if ((err instanceof UploadError && err.fatal) || attempts > retries) {
+          update(item, { status: 'error', attempts, error: err.message || 'Erro desconhecido' });
+          return;
+        }
+        update(item, { attempts });
+        await wait(1000 * 2 ** (attempts - 1));
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < pending.length) {
+      await process(pending[next++]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+};
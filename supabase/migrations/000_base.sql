@@ -0,0 +1,11 @@
+-- Tables that predate the numbered migrations, for new projects
+create table if not exists clients (
+  id text primary key,
+  name text not null,
+  "createdAt" timestamptz not null default now()
+);
+
+create table if not exists settings (
+  key text primary key,
+  value jsonb
+);
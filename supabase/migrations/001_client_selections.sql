@@ -0,0 +1,10 @@
+-- Client photo selection ("favorites")
+alter table clients add column if not exists "selectionQuota" integer;
+alter table clients add column if not exists "selectionSubmittedAt" timestamptz;
+
+create table if not exists selections (
+  "clientId" text not null references clients(id) on delete cascade,
+  filename text not null,
+  "createdAt" timestamptz not null default now(),
+  primary key ("clientId", filename)
+);
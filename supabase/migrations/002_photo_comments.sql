@@ -0,0 +1,12 @@
+-- Per-photo comment threads between client and studio
+create table if not exists comments (
+  id uuid primary key default gen_random_uuid(),
+  "clientId" text not null references clients(id) on delete cascade,
+  filename text not null,
+  author text not null check (author in ('client', 'studio')),
+  body text not null,
+  "createdAt" timestamptz not null default now(),
+  "readAt" timestamptz
+);
+
+create index if not exists comments_client_photo_idx on comments ("clientId", filename);
@@ -0,0 +1,2 @@
+-- Optional per-client access code (scrypt hash, never returned by the API)
+alter table clients add column if not exists "accessCodeHash" text;
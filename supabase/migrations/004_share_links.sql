@@ -0,0 +1,31 @@
+-- Expiring / revocable share links and their access log
+create table if not exists share_links (
+  id text primary key,
+  "clientId" text not null references clients(id) on delete cascade,
+  label text,
+  "expiresAt" timestamptz,
+  "maxViews" integer,
+  views integer not null default 0,
+  "lastAccessAt" timestamptz,
+  "revokedAt" timestamptz,
+  "createdAt" timestamptz not null default now()
+);
+
+create index if not exists share_links_client_idx on share_links ("clientId");
+
+create table if not exists link_accesses (
+  id uuid primary key default gen_random_uuid(),
+  "linkId" text not null references share_links(id) on delete cascade,
+  "clientId" text not null references clients(id) on delete cascade,
+  "userAgent" text,
+  "ipHash" text,
+  "createdAt" timestamptz not null default now()
+);
+
+create index if not exists link_accesses_client_idx on link_accesses ("clientId", "createdAt" desc);
+
+-- Existing clients get one open link so they keep a working portfolio URL
+insert into share_links (id, "clientId", label)
+select replace(gen_random_uuid()::text, '-', ''), c.id, 'Link principal'
+from clients c
+where not exists (select 1 from share_links l where l."clientId" = c.id);
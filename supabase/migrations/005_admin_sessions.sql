@@ -0,0 +1,9 @@
+-- Admin sessions: tokens are signed, and a session can be revoked on logout
+create table if not exists admin_sessions (
+  id text primary key,
+  "userAgent" text,
+  "ipHash" text,
+  "expiresAt" timestamptz not null,
+  "revokedAt" timestamptz,
+  "createdAt" timestamptz not null default now()
+);
@@ -0,0 +1,26 @@
+-- Studio staff accounts with roles
+create table if not exists users (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  name text not null,
+  role text not null check (role in ('owner', 'photographer', 'viewer')),
+  "passwordHash" text not null,
+  "createdAt" timestamptz not null default now(),
+  "disabledAt" timestamptz
+);
+
+-- Sessions now belong to a user; sessions from before this change are discarded
+delete from admin_sessions;
+alter table admin_sessions add column if not exists "userId" uuid references users(id) on delete cascade;
+
+alter table clients add column if not exists "createdBy" uuid references users(id) on delete set null;
+alter table clients add column if not exists "assignedTo" uuid[] not null default '{}';
+
+-- Who uploaded each photo
+create table if not exists photo_uploads (
+  "clientId" text not null references clients(id) on delete cascade,
+  filename text not null,
+  "uploadedBy" uuid references users(id) on delete set null,
+  "createdAt" timestamptz not null default now(),
+  primary key ("clientId", filename)
+);
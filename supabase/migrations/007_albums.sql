@@ -0,0 +1,13 @@
+-- Named, ordered albums inside a client portfolio
+create table if not exists albums (
+  id uuid primary key default gen_random_uuid(),
+  "clientId" text not null references clients(id) on delete cascade,
+  name text not null,
+  position integer not null default 0,
+  "createdAt" timestamptz not null default now()
+);
+
+create index if not exists albums_client_idx on albums ("clientId", position);
+
+-- Photos without an album (or whose album was deleted) are shown as "Outras fotos"
+alter table photo_uploads add column if not exists "albumId" uuid references albums(id) on delete set null;
@@ -0,0 +1,54 @@
+-- Photo metadata lives in the database; the storage bucket only holds the files
+alter table if exists photo_uploads rename to photos;
+
+alter table photos add column if not exists "originalName" text;
+alter table photos add column if not exists "mimeType" text;
+alter table photos add column if not exists size bigint;
+alter table photos add column if not exists width integer;
+alter table photos add column if not exists height integer;
+alter table photos add column if not exists position integer not null default 0;
+alter table photos add column if not exists caption text;
+alter table photos add column if not exists legacy boolean not null default false;
+
+-- Existing rows keep their upload order
+update photos p
+set position = o.rn
+from (
+  select "clientId", filename, row_number() over (partition by "clientId" order by "createdAt") - 1 as rn
+  from photos
+) o
+where p."clientId" = o."clientId" and p.filename = o.filename;
+
+create index if not exists photos_client_idx on photos ("clientId", position);
+
+-- Photos uploaded before staff accounts existed only live in the bucket: register every preview
+-- (photos/<client>/<file>) after the client's tracked photos, in upload order.
+-- Without a thumbnail the photo predates derivatives, so it is marked legacy.
+do $$
+begin
+  if to_regclass('storage.objects') is null then
+    return;
+  end if;
+
+  insert into photos ("clientId", filename, "originalName", "mimeType", size, position, legacy, "createdAt")
+  select
+    o.client_id,
+    o.file,
+    o.file,
+    o.metadata->>'mimetype',
+    (o.metadata->>'size')::bigint,
+    coalesce(m.last, -1) + row_number() over (partition by o.client_id order by o.created_at, o.file),
+    not exists (
+      select 1 from storage.objects t
+      where t.bucket_id = 'photos' and t.name = 'thumbs/' || o.name
+    ),
+    coalesce(o.created_at, now())
+  from (
+    select name, split_part(name, '/', 1) as client_id, split_part(name, '/', 2) as file, metadata, created_at
+    from storage.objects
+    where bucket_id = 'photos' and name ~ '^[^/]+/[^/]+$' and name not like '%/.emptyFolderPlaceholder'
+  ) o
+  join clients c on c.id = o.client_id
+  left join (select "clientId", max(position) as last from photos group by "clientId") m on m."clientId" = o.client_id
+  where not exists (select 1 from photos p where p."clientId" = o.client_id and p.filename = o.file);
+end $$;
@@ -0,0 +1,2 @@
+-- Cover photo per client (filename of one of its photos)
+alter table clients add column if not exists "coverPhoto" text;
@@ -0,0 +1,6 @@
+-- Camera metadata parsed from the original on upload.
+-- exif is null for photos that predate extraction; "Ordenar por captura" in the admin fills it in.
+alter table photos add column if not exists "capturedAt" timestamptz;
+alter table photos add column if not exists exif jsonb;
+
+create index if not exists photos_captured_idx on photos ("clientId", "capturedAt");
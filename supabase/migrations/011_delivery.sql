@@ -0,0 +1,22 @@
+-- Delivery mode: once a job is delivered the client can download the photos as ZIP files
+alter table clients add column if not exists "deliveryEnabled" boolean not null default false;
+alter table clients add column if not exists "deliveryQuality" text not null default 'original';
+
+-- One row per ZIP part requested; "completedAt" stays null when the transfer was interrupted
+create table if not exists downloads (
+  id uuid primary key default gen_random_uuid(),
+  "clientId" text not null references clients(id) on delete cascade,
+  "linkId" text references share_links(id) on delete set null,
+  scope text not null,
+  quality text not null,
+  part integer not null,
+  parts integer not null,
+  files integer not null default 0,
+  bytes bigint,
+  "userAgent" text,
+  "ipHash" text,
+  "completedAt" timestamptz,
+  "createdAt" timestamptz not null default now()
+);
+
+create index if not exists downloads_client_idx on downloads ("clientId", "createdAt" desc);
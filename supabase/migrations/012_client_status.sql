@@ -0,0 +1,11 @@
+-- Job stage per client: proofing (watermarked previews, selection open),
+-- editing (portfolio locked while the photos are edited) and delivered (clean files, downloads)
+alter table clients add column if not exists status text not null default 'proofing';
+alter table clients add column if not exists "statusChangedAt" timestamptz;
+
+alter table clients drop constraint if exists clients_status_check;
+alter table clients add constraint clients_status_check check (status in ('proofing', 'editing', 'delivered'));
+
+-- Delivery mode is now the "delivered" stage
+update clients set status = 'delivered' where "deliveryEnabled";
+alter table clients drop column if exists "deliveryEnabled";
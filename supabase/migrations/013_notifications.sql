@@ -0,0 +1,20 @@
+-- Client contact details
+alter table clients add column if not exists email text;
+alter table clients add column if not exists phone text;
+
+-- Every email sent (or attempted) by the server
+create table if not exists notifications (
+  id uuid primary key default gen_random_uuid(),
+  "clientId" text references clients(id) on delete cascade,
+  template text not null,
+  recipient text not null,
+  subject text not null,
+  transport text not null,
+  status text not null check (status in ('sent', 'failed')),
+  error text,
+  "messageId" text,
+  "sentBy" uuid references users(id) on delete set null,
+  "createdAt" timestamptz not null default now()
+);
+
+create index if not exists notifications_client_idx on notifications ("clientId", "createdAt" desc);
@@ -0,0 +1,8 @@
+-- Event details and internal notes for each client
+alter table clients add column if not exists "eventType" text;
+alter table clients add column if not exists "eventDate" date;
+alter table clients add column if not exists notes text;
+alter table clients add column if not exists tags text[] not null default '{}';
+
+create index if not exists clients_event_date_idx on clients ("eventDate");
+create index if not exists clients_tags_idx on clients using gin (tags);
@@ -0,0 +1,235 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { after, before, describe, it } from "node:test";
+import sharp from "sharp";
+
+// Integration tests against the real app: embedded SQLite and local storage in a temporary folder,
+// so they run without a Supabase project. Configuration is read once, so it is set before the import.
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portfolio-test-'));
+Object.assign(process.env, {
+  NODE_ENV: 'production',
+  ADMIN_PASSWORD: 'senha-de-teste',
+  SESSION_SECRET: 'segredo-de-teste-com-pelo-menos-32-caracteres',
+  DATABASE_DRIVER: 'sqlite',
+  DATABASE_FILE: path.join(workDir, 'portfolio.db'),
+  STORAGE_DRIVER: 'local',
+  STORAGE_DIR: path.join(workDir, 'storage'),
+  // Each test works on its own client
+  QUOTA_MAX_CLIENTS: '50'
+});
+
+let server: Server;
+let baseUrl: string;
+let adminToken: string;
+
+const request = async (method: string, url: string, { token, headers = {}, json, form }: {
+  token?: string;
+  headers?: Record<string, string>;
+  json?: unknown;
+  form?: FormData;
+} = {}) => {
+  const res = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...headers
+    },
+    body: form || (json !== undefined ? JSON.stringify(json) : undefined)
+  });
+  return { status: res.status, body: await res.json().catch(() => null) };
+};
+
+const testImage = () => sharp({ create: { width: 640, height: 480, channels: 3, background: '#4a7' } }).jpeg().toBuffer();
+
+const uploadForm = (files: { name: string; data: Buffer }[]) => {
+  const form = new FormData();
+  for (const file of files) form.append('photos', new Blob([file.data], { type: 'image/jpeg' }), file.name);
+  return form;
+};
+
+const createClient = async (name: string) => {
+  const { status, body } = await request('POST', '/api/admin/clients', { token: adminToken, json: { name } });
+  assert.equal(status, 200);
+  return body.id as string;
+};
+
+const uploadPhoto = async (clientId: string) => {
+  const form = uploadForm([{ name: 'foto.jpg', data: await testImage() }]);
+  assert.equal((await request('POST', `/api/admin/upload/${clientId}`, { token: adminToken, form })).status, 200);
+  const { body } = await request('GET', `/api/admin/clients/${clientId}/photos`, { token: adminToken });
+  return body.photos[0].name as string;
+};
+
+const createLink = async (clientId: string, maxViews: number | null = null) => {
+  const { status, body } = await request('POST', `/api/admin/clients/${clientId}/links`, {
+    token: adminToken,
+    json: { label: 'Teste', maxViews }
+  });
+  assert.equal(status, 200);
+  return body.id as string;
+};
+
+before(async () => {
+  const { createApp } = await import("../server/app");
+  const app = await createApp();
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const { body } = await request('POST', '/api/admin/login', { json: { password: 'senha-de-teste' } });
+  adminToken = body.token;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('login', () => {
+  it('refuses a wrong password', async () => {
+    const { status, body } = await request('POST', '/api/admin/login', { json: { password: 'senha-errada' } });
+    assert.equal(status, 401);
+    assert.ok(body.error);
+  });
+
+  it('signs in the owner and accepts its token', async () => {
+    assert.ok(adminToken);
+    const { status, body } = await request('GET', '/api/admin/session', { token: adminToken });
+    assert.equal(status, 200);
+    assert.equal(body.user.role, 'owner');
+  });
+
+  it('rejects admin routes without a token', async () => {
+    assert.equal((await request('GET', '/api/admin/clients')).status, 401);
+  });
+});
+
+describe('upload', () => {
+  it('stores the photo with its derivatives', async () => {
+    const clientId = await createClient('Upload');
+    const filename = await uploadPhoto(clientId);
+
+    const storage = path.join(workDir, 'storage');
+    assert.ok(fs.existsSync(path.join(storage, 'originals', clientId, filename)));
+    assert.ok(fs.existsSync(path.join(storage, 'photos', clientId, filename)));
+    assert.ok(fs.existsSync(path.join(storage, 'photos', 'thumbs', clientId, filename)));
+  });
+
+  it('answers 422 for an unreadable image and keeps none of the batch', async () => {
+    const clientId = await createClient('Upload inválido');
+    const form = uploadForm([
+      { name: 'boa.jpg', data: await testImage() },
+      { name: 'ruim.jpg', data: Buffer.from('isto não é uma imagem') }
+    ]);
+
+    const { status, body } = await request('POST', `/api/admin/upload/${clientId}`, { token: adminToken, form });
+    assert.equal(status, 422);
+    assert.match(body.error, /ruim\.jpg/);
+
+    const photos = await request('GET', `/api/admin/clients/${clientId}/photos`, { token: adminToken });
+    assert.equal(photos.body.photos.length, 0);
+  });
+});
+
+describe('share links', () => {
+  it('requires a link of the client', async () => {
+    const clientId = await createClient('Sem link');
+    assert.equal((await request('GET', `/api/client/${clientId}`)).status, 404);
+    assert.equal((await request('GET', `/api/client/${clientId}`, { headers: { 'X-Portfolio-Link': 'outro' } })).status, 404);
+  });
+
+  it('stops counting views at maxViews but keeps the counted view usable', async () => {
+    const clientId = await createClient('Limite');
+    const filename = await uploadPhoto(clientId);
+    const linkId = await createLink(clientId, 1);
+    const link = { 'X-Portfolio-Link': linkId };
+
+    const first = await request('GET', `/api/client/${clientId}`, { headers: link });
+    assert.equal(first.status, 200);
+    assert.ok(first.body.viewToken);
+    const counted = { ...link, 'X-Portfolio-View': first.body.viewToken };
+
+    const second = await request('GET', `/api/client/${clientId}`, { headers: link });
+    assert.equal(second.status, 410);
+    assert.equal(second.body.code, 'LINK_EXPIRED');
+    assert.equal((await request('GET', `/api/client/${clientId}/photo-urls`, { headers: link })).status, 410);
+
+    assert.equal((await request('GET', `/api/client/${clientId}/photo-urls`, { headers: counted })).status, 200);
+    assert.equal((await request('PUT', `/api/client/${clientId}/selection/${filename}`, { headers: counted })).status, 200);
+    assert.equal((await request('GET', `/api/client/${clientId}`, { headers: counted })).status, 200);
+
+    const { body } = await request('GET', `/api/admin/clients/${clientId}/links`, { token: adminToken });
+    assert.equal(body.links.find((l: any) => l.id === linkId).views, 1);
+  });
+
+  it('refuses a revoked link', async () => {
+    const clientId = await createClient('Revogado');
+    const linkId = await createLink(clientId);
+    assert.equal((await request('POST', `/api/admin/clients/${clientId}/links/${linkId}/revoke`, { token: adminToken })).status, 200);
+
+    const { status, body } = await request('GET', `/api/client/${clientId}`, { headers: { 'X-Portfolio-Link': linkId } });
+    assert.equal(status, 410);
+    assert.equal(body.code, 'LINK_REVOKED');
+  });
+});
+
+describe('legacy photos', () => {
+  it('serves a derivative without EXIF instead of the raw upload', async () => {
+    const clientId = await createClient('Legado');
+    const filename = await uploadPhoto(clientId);
+    const linkId = await createLink(clientId);
+
+    // As uploaded before derivatives existed: the raw file, EXIF included, only in the photos bucket
+    const storage = path.join(workDir, 'storage');
+    const raw = await sharp(await testImage()).withExif({ IFD0: { Artist: 'Fotógrafo' } }).jpeg().toBuffer();
+    assert.ok((await sharp(raw).metadata()).exif);
+    fs.writeFileSync(path.join(storage, 'photos', clientId, filename), raw);
+    fs.rmSync(path.join(storage, 'photos', 'thumbs', clientId, filename));
+    fs.rmSync(path.join(storage, 'originals', clientId, filename));
+    const { getDatabase } = await import("../server/services/database");
+    await getDatabase()!.photos.update({ clientId, filename }, { legacy: true });
+
+    const { status, body } = await request('GET', `/api/client/${clientId}`, { headers: { 'X-Portfolio-Link': linkId } });
+    assert.equal(status, 200);
+    assert.equal(body.photos.length, 1);
+
+    const served = Buffer.from(await (await fetch(`${baseUrl}${body.photos[0].url}`)).arrayBuffer());
+    assert.equal((await sharp(served).metadata()).exif, undefined);
+    assert.deepEqual(fs.readFileSync(path.join(storage, 'originals', clientId, filename)), raw);
+    assert.equal((await getDatabase()!.photos.findOne({ clientId, filename }))!.legacy, false);
+  });
+});
+
+describe('selection', () => {
+  it('adds, removes and submits photos, then locks the selection', async () => {
+    const clientId = await createClient('Seleção');
+    const filename = await uploadPhoto(clientId);
+    const link = { 'X-Portfolio-Link': await createLink(clientId) };
+
+    assert.equal((await request('POST', `/api/client/${clientId}/selection/submit`, { headers: link })).status, 400);
+
+    const added = await request('PUT', `/api/client/${clientId}/selection/${filename}`, { headers: link });
+    assert.deepEqual(added.body.selection, [filename]);
+    const removed = await request('DELETE', `/api/client/${clientId}/selection/${filename}`, { headers: link });
+    assert.deepEqual(removed.body.selection, []);
+    assert.equal((await request('PUT', `/api/client/${clientId}/selection/nao-existe.jpg`, { headers: link })).status, 404);
+
+    await request('PUT', `/api/client/${clientId}/selection/${filename}`, { headers: link });
+    const submitted = await request('POST', `/api/client/${clientId}/selection/submit`, { headers: link });
+    assert.equal(submitted.status, 200);
+    assert.ok(submitted.body.selectionSubmittedAt);
+
+    const locked = await request('DELETE', `/api/client/${clientId}/selection/${filename}`, { headers: link });
+    assert.equal(locked.status, 409);
+    assert.equal(locked.body.code, 'SELECTION_LOCKED');
+
+    const portfolio = await request('GET', `/api/client/${clientId}`, { headers: link });
+    assert.deepEqual(portfolio.body.selection, [filename]);
+  });
+});